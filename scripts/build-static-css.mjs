@@ -0,0 +1,13 @@
+// scripts/build-static-css.mjs
+// Generates styles/static.css (cssOutput="static") from the freshly built resolver.
+// Run by tsup (onSuccess) after each build.
+
+import { writeFileSync } from "node:fs";
+
+import { generateIntentStylesheet } from "../dist/index.js";
+
+const out = new URL("../styles/static.css", import.meta.url);
+
+writeFileSync(out, generateIntentStylesheet());
+
+console.log("[intent-design-system] styles/static.css generated");
@@ -0,0 +1,14 @@
+// scripts/build-tokens-css.mjs
+// Regenerates styles/tokens.css from the token model (src/lib/tokens/model.ts).
+// Run explicitly (`npm run tokens:css`, builds first): styles/tokens.css is a committed
+// source file, so builds and installs never rewrite it. The tokens test fails when it is stale.
+
+import { writeFileSync } from "node:fs";
+
+import { generateTokensCss } from "../dist/index.js";
+
+const out = new URL("../styles/tokens.css", import.meta.url);
+
+writeFileSync(out, generateTokensCss());
+
+console.log("[intent-design-system] styles/tokens.css generated");
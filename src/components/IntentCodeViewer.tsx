@@ -9,13 +9,15 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
+import type { IntentComponentInput } from "../lib/intent/types";
 import {
-    resolveIntent,
     getIntentLayoutProps,
     composeIntentClassName,
     composeIntentControlClassName,
+    getIntentDataAttributes,
 } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -36,7 +38,7 @@ function safeText(v: unknown) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentCodeViewerProps = IntentInput &
+export type IntentCodeViewerProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children"> & {
         className?: string;
 
@@ -251,6 +253,10 @@ export function IntentCodeViewer(props: IntentCodeViewerProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
         ...divProps
@@ -258,17 +264,21 @@ export function IntentCodeViewer(props: IntentCodeViewerProps) {
 
     const disabled = Boolean(dsDisabled);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // Root: vars only
     const layoutProps = getIntentLayoutProps(resolved, className);
@@ -319,6 +329,7 @@ export function IntentCodeViewer(props: IntentCodeViewerProps) {
     return (
         <div
             {...divProps}
+            {...getIntentDataAttributes(resolved)}
             style={layoutProps.style}
             className={cn(
                 layoutProps.className,
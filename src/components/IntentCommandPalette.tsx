@@ -9,13 +9,15 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
+import type { IntentComponentInput } from "../lib/intent/types";
 import {
-    resolveIntent,
     getIntentLayoutProps,
     composeIntentClassName,
     composeIntentControlClassName,
+    getIntentDataAttributes,
 } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -58,7 +60,7 @@ export type IntentCommandPaletteGroup = {
     items: IntentCommandPaletteItem[];
 };
 
-export type IntentCommandPaletteProps = IntentInput &
+export type IntentCommandPaletteProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children"> & {
         className?: string;
 
@@ -296,6 +298,10 @@ export function IntentCommandPalette(props: IntentCommandPaletteProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
         ...divProps
@@ -327,17 +333,21 @@ export function IntentCommandPalette(props: IntentCommandPaletteProps) {
         [isControlledQuery, onQueryChange]
     );
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // Root: vars only
     const layoutProps = getIntentLayoutProps(resolved, className);
@@ -479,6 +489,7 @@ export function IntentCommandPalette(props: IntentCommandPaletteProps) {
     return (
         <div
             {...divProps}
+            {...getIntentDataAttributes(resolved)}
             style={layoutProps.style}
             className={cn(
                 layoutProps.className,
@@ -9,8 +9,11 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentControlProps } from "../lib/intent/resolve";
+import type { ControlSize, IntentComponentInput } from "../lib/intent/types";
+import { getIntentControlProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { useControlSize, useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -23,9 +26,7 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type ButtonSize = "xs" | "sm" | "md" | "lg" | "xl";
-
-function sizeClass(size: ButtonSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-btn-xs";
@@ -44,18 +45,20 @@ function sizeClass(size: ButtonSize) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentControlButtonProps = IntentInput &
+export type IntentControlButtonProps = IntentComponentInput &
     Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "className" | "children"> & {
         className?: string;
         children?: React.ReactNode;
 
-        size?: ButtonSize; // default: "md"
+        size?: ControlSize; // default: "md"
         fullWidth?: boolean;
 
         loading?: boolean;
         pressed?: boolean;
 
-        leftIcon?: React.ReactNode;
+        startIcon?: React.ReactNode; // logical: mirrors in rtl
+        endIcon?: React.ReactNode;
+        leftIcon?: React.ReactNode; // physical: stays on the left in rtl
         rightIcon?: React.ReactNode;
     };
 
@@ -128,11 +131,31 @@ const INTENT_CONTROL_BUTTON_LOCAL_PROPS_TABLE: DocsPropRow[] = [
         default: "false",
         fromSystem: false,
     },
+    {
+        name: "startIcon",
+        description: {
+            fr: "Icône en début de label (à droite en rtl, ignorée si loading=true).",
+            en: "Icon at the start of the label (right in rtl, ignored if loading=true).",
+        },
+        type: "React.ReactNode",
+        required: false,
+        fromSystem: false,
+    },
+    {
+        name: "endIcon",
+        description: {
+            fr: "Icône en fin de label (à gauche en rtl).",
+            en: "Icon at the end of the label (left in rtl).",
+        },
+        type: "React.ReactNode",
+        required: false,
+        fromSystem: false,
+    },
     {
         name: "leftIcon",
         description: {
-            fr: "Icône à gauche du label (ignorée si loading=true).",
-            en: "Left icon (ignored if loading=true).",
+            fr: "Icône à gauche du label, y compris en rtl (ignorée si loading=true).",
+            en: "Left icon, also in rtl (ignored if loading=true).",
         },
         type: "React.ReactNode",
         required: false,
@@ -141,8 +164,8 @@ const INTENT_CONTROL_BUTTON_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "rightIcon",
         description: {
-            fr: "Icône à droite du label.",
-            en: "Right icon.",
+            fr: "Icône à droite du label, y compris en rtl.",
+            en: "Right icon, also in rtl.",
         },
         type: "React.ReactNode",
         required: false,
@@ -182,6 +205,8 @@ export const IntentControlButtonIdentity: ComponentIdentity = {
         glowBorderLayer: ".intent-glow-layer.intent-glow-border",
         content: ".intent-control-label (wrapped in z-10)",
         spinner: ".intent-control-spinner",
+        startIcon: ".intent-control-icon-start",
+        endIcon: ".intent-control-icon-end",
         leftIcon: ".intent-control-icon-left",
         rightIcon: ".intent-control-icon-right",
     },
@@ -202,6 +227,11 @@ export const IntentControlButtonIdentity: ComponentIdentity = {
         "ids-btn-md",
         "ids-btn-lg",
         "ids-btn-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
     ],
 };
 
@@ -214,15 +244,19 @@ export function IntentControlButton(props: IntentControlButtonProps) {
         className,
         children,
 
-        size = "md",
+        size: sizeProp,
         fullWidth = false,
 
         loading = false,
         pressed = false,
 
+        startIcon,
+        endIcon,
         leftIcon,
         rightIcon,
 
+        dir,
+
         // ✅ Pull DS props OUT so they never reach the DOM via {...buttonProps}
         intent,
         variant,
@@ -230,25 +264,36 @@ export function IntentControlButton(props: IntentControlButtonProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
         // ✅ Only real DOM props remain here
         ...buttonProps
     } = props;
 
+    const size = useControlSize(sizeProp);
+    const direction = useIntentDirection(dir);
+
     const disabled = Boolean(disabledProp) || loading;
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}), // ✅ IMPORTANT
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     const surfaceProps = getIntentControlProps(resolved, className);
 
@@ -266,10 +311,12 @@ export function IntentControlButton(props: IntentControlButtonProps) {
     // - Normal intents: flat/elevated => fill, outlined/elevated => border
     // - glowed: aura exists even in outlined (fill allowed for all except ghost)
     const allowFillGlow = glowAllowed && (isGlowed || v === "flat" || v === "elevated");
-    const allowBorderGlow = glowAllowed && (v === "outlined" || v === "elevated");
+    const allowBorderGlow = glowAllowed && v !== "flat"; // outlined / elevated / solid / glass
 
     const readOpacity = (key: "--intent-glow-fill-opacity" | "--intent-glow-border-opacity") => {
-        const raw = resolved.style?.[key] ?? "0";
+        // static output: the layer inherits the var from the stylesheet (.intent-glow-*)
+        if (!resolved.style) return undefined;
+        const raw = resolved.style[key] ?? "0";
         const n = Number(raw.toString());
         return Number.isFinite(n) ? n : 0;
     };
@@ -284,6 +331,7 @@ export function IntentControlButton(props: IntentControlButtonProps) {
         "select-none whitespace-nowrap",
         "rounded-ids-2xl",
         "transition",
+        getControlSizeClassName(size),
         sizeClass(size),
         fullWidth && "w-full",
         pressed && "is-pressed",
@@ -298,6 +346,7 @@ export function IntentControlButton(props: IntentControlButtonProps) {
             className={cn(surfaceProps.className, rootCls)}
             disabled={disabled}
             type={buttonProps.type ?? "button"}
+            dir={direction}
             aria-pressed={pressed || undefined}
             aria-busy={loading || undefined}
             data-intent={resolved.intent}
@@ -333,9 +382,20 @@ export function IntentControlButton(props: IntentControlButtonProps) {
             <span className="relative z-10 inline-flex items-center gap-2">
                 {loading ? (
                     <span aria-hidden className="intent-control-spinner" />
-                ) : leftIcon ? (
-                    <span className="intent-control-icon intent-control-icon-left">{leftIcon}</span>
-                ) : null}
+                ) : (
+                    <>
+                        {startIcon ? (
+                            <span className="intent-control-icon intent-control-icon-start">
+                                {startIcon}
+                            </span>
+                        ) : null}
+                        {leftIcon ? (
+                            <span className="intent-control-icon intent-control-icon-left">
+                                {leftIcon}
+                            </span>
+                        ) : null}
+                    </>
+                )}
 
                 <span className="intent-control-label">{children}</span>
 
@@ -344,6 +404,9 @@ export function IntentControlButton(props: IntentControlButtonProps) {
                         {rightIcon}
                     </span>
                 ) : null}
+                {endIcon ? (
+                    <span className="intent-control-icon intent-control-icon-end">{endIcon}</span>
+                ) : null}
             </span>
         </button>
     );
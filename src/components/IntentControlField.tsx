@@ -8,12 +8,14 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
+import type { IntentComponentInput } from "../lib/intent/types";
 import {
-    resolveIntent,
     getIntentLayoutProps,
     composeIntentControlClassName,
+    getIntentDataAttributes,
 } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -30,7 +32,7 @@ function cn(...classes: Array<string | false | null | undefined>) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentControlFieldProps = IntentInput &
+export type IntentControlFieldProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children"> & {
         className?: string;
         children?: React.ReactNode;
@@ -302,6 +304,10 @@ export function IntentControlField(props: IntentControlFieldProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
         ...divProps
@@ -310,17 +316,21 @@ export function IntentControlField(props: IntentControlFieldProps) {
     const disabled = Boolean(disabledProp ?? dsDisabled);
     const showError = Boolean(error) || invalid;
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // ✅ Root: vars only (no bg/ring fill on the whole block)
     const layoutProps = getIntentLayoutProps(resolved, className);
@@ -347,6 +357,7 @@ export function IntentControlField(props: IntentControlFieldProps) {
     return (
         <div
             {...divProps}
+            {...getIntentDataAttributes(resolved)}
             style={layoutProps.style}
             className={cn(layoutProps.className, rootCls)}
             data-intent={resolved.intent}
@@ -10,8 +10,11 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentLayoutProps, getIntentControlProps } from "../lib/intent/resolve";
+import type { ControlSize, IntentComponentInput } from "../lib/intent/types";
+import { getIntentLayoutProps, getIntentControlProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { useControlSize, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -24,9 +27,7 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type InputSize = "xs" | "sm" | "md" | "lg" | "xl";
-
-function sizeClass(size: InputSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-input-xs";
@@ -51,11 +52,11 @@ function setRef<T>(ref: React.Ref<T> | undefined, value: T) {
    🧩 TYPES
 ============================================================================ */
 
-type BaseProps = IntentInput & {
+type BaseProps = IntentComponentInput & {
     className?: string;
 
     /** Visual / layout */
-    size?: InputSize; // default: "md"
+    size?: ControlSize; // default: "md"
     fullWidth?: boolean; // default false
 
     /** Slots (works both standalone or inside IntentControlField) */
@@ -266,6 +267,11 @@ export const IntentControlInputIdentity: ComponentIdentity = {
         "ids-input-md",
         "ids-input-lg",
         "ids-input-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
     ],
 };
 
@@ -280,7 +286,7 @@ export const IntentControlInput = React.forwardRef<
     const {
         className,
 
-        size = "md",
+        size: sizeProp,
         fullWidth = false,
 
         leading,
@@ -296,6 +302,10 @@ export const IntentControlInput = React.forwardRef<
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
         as = "input",
@@ -303,19 +313,25 @@ export const IntentControlInput = React.forwardRef<
         ...nativeProps
     } = props as any;
 
+    const size = useControlSize(sizeProp);
+
     const disabled = Boolean(disabledProp);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // Standalone:
     // - root carries vars (layout) + visuals (control frame)
@@ -372,6 +388,7 @@ export const IntentControlInput = React.forwardRef<
 
     const elCls = cn(
         "intent-control-input-el",
+        getControlSizeClassName(size),
         sizeClass(size),
         fullWidth && "w-full",
         invalid && "is-invalid",
@@ -383,6 +400,7 @@ export const IntentControlInput = React.forwardRef<
     const standaloneRootCls = cn(
         "intent-control intent-control-input",
         "relative inline-flex items-stretch",
+        getControlSizeClassName(size),
         sizeClass(size),
         fullWidth && "w-full",
         invalid && "is-invalid",
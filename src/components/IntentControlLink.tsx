@@ -9,8 +9,11 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentControlProps } from "../lib/intent/resolve";
+import type { ControlSize, IntentComponentInput } from "../lib/intent/types";
+import { getIntentControlProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { useControlSize, useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -23,9 +26,7 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type LinkSize = "xs" | "sm" | "md" | "lg" | "xl";
-
-function sizeClass(size: LinkSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-link-xs";
@@ -44,15 +45,17 @@ function sizeClass(size: LinkSize) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentControlLinkProps = IntentInput &
+export type IntentControlLinkProps = IntentComponentInput &
     Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, "className" | "children"> & {
         className?: string;
         children?: React.ReactNode;
 
-        size?: LinkSize; // default: "md"
+        size?: ControlSize; // default: "md"
         fullWidth?: boolean;
 
-        leftIcon?: React.ReactNode;
+        startIcon?: React.ReactNode; // logical: mirrors in rtl
+        endIcon?: React.ReactNode;
+        leftIcon?: React.ReactNode; // physical: stays on the left in rtl
         rightIcon?: React.ReactNode;
 
         external?: boolean; // convenience: target + rel
@@ -105,11 +108,31 @@ const INTENT_CONTROL_LINK_LOCAL_PROPS_TABLE: DocsPropRow[] = [
         default: "false",
         fromSystem: false,
     },
+    {
+        name: "startIcon",
+        description: {
+            fr: "Icône en début de label (à droite en rtl).",
+            en: "Icon at the start of the label (right in rtl).",
+        },
+        type: "React.ReactNode",
+        required: false,
+        fromSystem: false,
+    },
+    {
+        name: "endIcon",
+        description: {
+            fr: "Icône en fin de label (à gauche en rtl).",
+            en: "Icon at the end of the label (left in rtl).",
+        },
+        type: "React.ReactNode",
+        required: false,
+        fromSystem: false,
+    },
     {
         name: "leftIcon",
         description: {
-            fr: "Icône à gauche du label.",
-            en: "Left icon.",
+            fr: "Icône à gauche du label, y compris en rtl.",
+            en: "Left icon, also in rtl.",
         },
         type: "React.ReactNode",
         required: false,
@@ -118,8 +141,8 @@ const INTENT_CONTROL_LINK_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "rightIcon",
         description: {
-            fr: "Icône à droite du label.",
-            en: "Right icon.",
+            fr: "Icône à droite du label, y compris en rtl.",
+            en: "Right icon, also in rtl.",
         },
         type: "React.ReactNode",
         required: false,
@@ -169,6 +192,8 @@ export const IntentControlLinkIdentity: ComponentIdentity = {
         glowFillLayer: ".intent-glow-layer.intent-glow-fill",
         glowBorderLayer: ".intent-glow-layer.intent-glow-border",
         content: ".intent-control-label (wrapped in z-10)",
+        startIcon: ".intent-control-icon-start",
+        endIcon: ".intent-control-icon-end",
         leftIcon: ".intent-control-icon-left",
         rightIcon: ".intent-control-icon-right",
     },
@@ -187,6 +212,11 @@ export const IntentControlLinkIdentity: ComponentIdentity = {
         "ids-link-md",
         "ids-link-lg",
         "ids-link-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
     ],
 };
 
@@ -199,13 +229,17 @@ export function IntentControlLink(props: IntentControlLinkProps) {
         className,
         children,
 
-        size = "md",
+        size: sizeProp,
         fullWidth = false,
 
+        startIcon,
+        endIcon,
         leftIcon,
         rightIcon,
         external = false,
 
+        dir,
+
         // ✅ Pull DS props OUT so they never reach the DOM
         intent,
         variant,
@@ -213,25 +247,36 @@ export function IntentControlLink(props: IntentControlLinkProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
         // ✅ Only real anchor props remain here
         ...anchorProps
     } = props;
 
+    const size = useControlSize(sizeProp);
+    const direction = useIntentDirection(dir);
+
     const disabled = Boolean(disabledProp);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
     const controlProps = getIntentControlProps(resolved, className);
 
     /* ============================================================================
@@ -245,10 +290,12 @@ export function IntentControlLink(props: IntentControlLinkProps) {
     const isGlowed = resolved.intent === "glowed";
 
     const allowFillGlow = glowAllowed && (isGlowed || v === "flat" || v === "elevated");
-    const allowBorderGlow = glowAllowed && (v === "outlined" || v === "elevated");
+    const allowBorderGlow = glowAllowed && v !== "flat"; // outlined / elevated / solid / glass
 
     const readOpacity = (key: "--intent-glow-fill-opacity" | "--intent-glow-border-opacity") => {
-        const raw = resolved.style?.[key] ?? "0";
+        // static output: the layer inherits the var from the stylesheet (.intent-glow-*)
+        if (!resolved.style) return undefined;
+        const raw = resolved.style[key] ?? "0";
         const n = Number(raw.toString());
         return Number.isFinite(n) ? n : 0;
     };
@@ -263,6 +310,7 @@ export function IntentControlLink(props: IntentControlLinkProps) {
         "select-none whitespace-nowrap",
         "rounded-ids-2xl",
         "transition",
+        getControlSizeClassName(size),
         sizeClass(size),
         fullWidth && "w-full",
         disabled && "is-disabled"
@@ -274,6 +322,7 @@ export function IntentControlLink(props: IntentControlLinkProps) {
             {...controlProps}
             className={cn(controlProps.className, rootCls)}
             aria-disabled={disabled || undefined}
+            dir={direction}
             data-intent={resolved.intent}
             data-variant={resolved.variant}
             data-intensity={resolved.intensity}
@@ -314,6 +363,11 @@ export function IntentControlLink(props: IntentControlLinkProps) {
 
             {/* Content */}
             <span className="relative z-10 inline-flex items-center gap-2">
+                {startIcon ? (
+                    <span className="intent-control-icon intent-control-icon-start">
+                        {startIcon}
+                    </span>
+                ) : null}
                 {leftIcon ? (
                     <span className="intent-control-icon intent-control-icon-left">{leftIcon}</span>
                 ) : null}
@@ -325,6 +379,9 @@ export function IntentControlLink(props: IntentControlLinkProps) {
                         {rightIcon}
                     </span>
                 ) : null}
+                {endIcon ? (
+                    <span className="intent-control-icon intent-control-icon-end">{endIcon}</span>
+                ) : null}
             </span>
         </a>
     );
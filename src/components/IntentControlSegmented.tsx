@@ -10,8 +10,12 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentControlProps, getIntentLayoutProps } from "../lib/intent/resolve";
+import type { ControlSize, IntentComponentInput, VariantName } from "../lib/intent/types";
+import { getIntentControlProps, getIntentLayoutProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { getElementDirection, getInlineArrowStep } from "../lib/intent/direction";
+import { useControlSize, useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -24,9 +28,7 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type SegmentedSize = "xs" | "sm" | "md" | "lg" | "xl";
-
-function sizeClass(size: SegmentedSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-seg-xs";
@@ -64,7 +66,7 @@ export type IntentControlSegmentedOption = {
     text?: string;
 };
 
-export type IntentControlSegmentedProps = IntentInput &
+export type IntentControlSegmentedProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children" | "onChange"> & {
         className?: string;
 
@@ -100,7 +102,7 @@ export type IntentControlSegmentedProps = IntentInput &
         allowEmpty?: boolean; // default: true (single only)
 
         /** UI */
-        size?: SegmentedSize; // default: "md"
+        size?: ControlSize; // default: "md"
         fullWidth?: boolean; // default: false
 
         /**
@@ -110,8 +112,8 @@ export type IntentControlSegmentedProps = IntentInput &
          *
          * Defaults are conservative and readable.
          */
-        inactiveVariant?: "ghost" | "outlined" | "flat" | "elevated"; // default: "ghost"
-        activeVariant?: "ghost" | "outlined" | "flat" | "elevated"; // default: "elevated"
+        inactiveVariant?: VariantName; // default: "ghost"
+        activeVariant?: VariantName; // default: "elevated"
 
         /** A11y */
         ariaLabel?: string; // default: "Segmented control"
@@ -212,7 +214,7 @@ const INTENT_CONTROL_SEGMENTED_LOCAL_PROPS_TABLE: DocsPropRow[] = [
             fr: "Variant des segments inactifs.",
             en: "Variant for inactive segments.",
         },
-        type: `"ghost" | "outlined" | "flat" | "elevated"`,
+        type: "VariantName",
         required: false,
         default: "ghost",
         fromSystem: false,
@@ -223,7 +225,7 @@ const INTENT_CONTROL_SEGMENTED_LOCAL_PROPS_TABLE: DocsPropRow[] = [
             fr: "Variant des segments actifs.",
             en: "Variant for active segments.",
         },
-        type: `"ghost" | "outlined" | "flat" | "elevated"`,
+        type: "VariantName",
         required: false,
         default: "elevated",
         fromSystem: false,
@@ -287,6 +289,11 @@ export const IntentControlSegmentedIdentity: ComponentIdentity = {
         "ids-seg-md",
         "ids-seg-lg",
         "ids-seg-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
     ],
 };
 
@@ -307,7 +314,7 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
         multiple = false,
         allowEmpty = true,
 
-        size = "md",
+        size: sizeProp,
         fullWidth = false,
 
         inactiveVariant = "ghost",
@@ -322,12 +329,21 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
+        dir,
+
         // ✅ Only real DOM props remain here
         ...divProps
     } = props;
 
+    const size = useControlSize(sizeProp);
+    const direction = useIntentDirection(dir);
+
     const disabled = Boolean(disabledProp);
     const isControlled = valueProp !== undefined;
 
@@ -343,17 +359,21 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
     const value = (isControlled ? valueProp : uncontrolled) ?? (multiple ? [] : null);
     const selected = multiple ? uniq(asArray(value as any)) : (value as string | null);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}), // ✅ container variant now matters
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // ✅ Vars on ROOT
     const layoutProps = getIntentLayoutProps(resolved, className);
@@ -361,6 +381,7 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
     const rootCls = cn(
         "intent-control intent-control-segmented",
         "intent-seg",
+        getControlSizeClassName(size),
         sizeClass(size),
         "relative inline-flex",
         fullWidth && "w-full",
@@ -401,6 +422,9 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
         const keys = ["ArrowLeft", "ArrowRight", "Home", "End"];
         if (!keys.includes(e.key)) return;
 
+        // rtl: ArrowLeft moves forward
+        const step = getInlineArrowStep(e.key, getElementDirection(e.currentTarget, direction));
+
         const t = e.target as HTMLElement | null;
         if (!t) return;
 
@@ -425,8 +449,7 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
 
         if (e.key === "Home") next = enabled[0];
         else if (e.key === "End") next = enabled[enabled.length - 1];
-        else if (e.key === "ArrowLeft") next = enabled[(idx - 1 + enabled.length) % enabled.length];
-        else if (e.key === "ArrowRight") next = enabled[(idx + 1) % enabled.length];
+        else next = enabled[(idx + step + enabled.length) % enabled.length];
 
         next?.focus();
     }
@@ -480,7 +503,7 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
 
     React.useLayoutEffect(() => {
         measurePill();
-    }, [measurePill, options, size, fullWidth, inactiveVariant, activeVariant]);
+    }, [measurePill, options, size, fullWidth, inactiveVariant, activeVariant, direction]);
 
     React.useEffect(() => {
         const root = rootRef.current;
@@ -507,6 +530,7 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
             role="group"
             aria-label={ariaLabel}
             aria-disabled={disabled || undefined}
+            dir={direction}
             data-intent={resolved.intent}
             data-variant={resolved.variant}
             data-intensity={resolved.intensity}
@@ -536,7 +560,7 @@ export function IntentControlSegmented(props: IntentControlSegmentedProps) {
 
                 const segDisabled = disabled || Boolean(opt.disabled);
 
-                const segResolved = resolveIntent({
+                const segResolved = resolveIntentCached({
                     ...intentInput,
                     variant: isSelected ? (activeVariant as any) : (inactiveVariant as any),
                     disabled: segDisabled,
@@ -11,8 +11,11 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentControlProps, getIntentLayoutProps } from "../lib/intent/resolve";
+import type { ControlSize, InlineSide, IntentComponentInput } from "../lib/intent/types";
+import { getIntentControlProps, getIntentLayoutProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { useControlSize, useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -25,9 +28,7 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type SelectSize = "xs" | "sm" | "md" | "lg" | "xl";
-
-function sizeClass(size: SelectSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-select-xs";
@@ -64,7 +65,7 @@ export type IntentControlSelectOption = {
     disabled?: boolean;
 };
 
-export type IntentControlSelectProps = IntentInput &
+export type IntentControlSelectProps = IntentComponentInput &
     Omit<
         React.ButtonHTMLAttributes<HTMLButtonElement>,
         "className" | "children" | "value" | "defaultValue" | "onChange"
@@ -85,13 +86,13 @@ export type IntentControlSelectProps = IntentInput &
 
         /** UI */
         placeholder?: string; // default: "Select…"
-        size?: SelectSize; // default: "md"
+        size?: ControlSize; // default: "md"
         fullWidth?: boolean;
 
         /** Behavior */
         clearable?: boolean; // default: false (allows selecting "null" via a clear row)
         closeOnSelect?: boolean; // default: true
-        align?: "start" | "end"; // default: "start" (popover alignment)
+        align?: InlineSide; // default: "start" (popover alignment, mirrors in rtl)
     };
 
 /* ============================================================================
@@ -207,8 +208,8 @@ const INTENT_CONTROL_SELECT_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "align",
         description: {
-            fr: "Alignement horizontal du popover par rapport au trigger.",
-            en: "Popover horizontal alignment relative to the trigger.",
+            fr: "Alignement horizontal du popover par rapport au trigger (logique : start = droite en rtl).",
+            en: "Popover horizontal alignment relative to the trigger (logical: start = right in rtl).",
         },
         type: `"start" | "end"`,
         required: false,
@@ -269,6 +270,11 @@ export const IntentControlSelectIdentity: ComponentIdentity = {
         "ids-select-md",
         "ids-select-lg",
         "ids-select-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
         "intent-control-popover",
         "intent-control-option",
         "is-selected",
@@ -290,24 +296,33 @@ export function IntentControlSelect(props: IntentControlSelectProps) {
         onValueChange,
 
         placeholder = "Select…",
-        size = "md",
+        size: sizeProp,
         fullWidth = false,
 
         clearable = false,
         closeOnSelect = true,
         align = "start",
 
+        dir,
+
         intent,
         variant,
         tone,
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
         ...triggerProps
     } = props;
 
+    const size = useControlSize(sizeProp);
+    const direction = useIntentDirection(dir);
+
     const isControlled = valueProp !== undefined;
     const [uncontrolledValue, setUncontrolledValue] = React.useState<string | null>(defaultValue);
     const value = (isControlled ? valueProp : uncontrolledValue) ?? null;
@@ -322,17 +337,21 @@ export function IntentControlSelect(props: IntentControlSelectProps) {
     const listboxId = React.useId();
     const disabled = Boolean(disabledProp);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // ✅ IMPORTANT: we want vars to cascade to popover -> apply style on ROOT
     // ✅ ROOT: vars only (popover inherits)
@@ -354,10 +373,12 @@ export function IntentControlSelect(props: IntentControlSelectProps) {
     const isGlowed = resolved.intent === "glowed";
 
     const allowFillGlow = glowAllowed && (isGlowed || v === "flat" || v === "elevated");
-    const allowBorderGlow = glowAllowed && (v === "outlined" || v === "elevated");
+    const allowBorderGlow = glowAllowed && v !== "flat"; // outlined / elevated / solid / glass
 
     const readOpacity = (key: "--intent-glow-fill-opacity" | "--intent-glow-border-opacity") => {
-        const raw = resolved.style?.[key] ?? "0";
+        // static output: the layer inherits the var from the stylesheet (.intent-glow-*)
+        if (!resolved.style) return undefined;
+        const raw = resolved.style[key] ?? "0";
         const n = Number(raw.toString());
         return Number.isFinite(n) ? n : 0;
     };
@@ -365,6 +386,7 @@ export function IntentControlSelect(props: IntentControlSelectProps) {
     // ✅ Put size hook ON ROOT (matches CSS selectors)
     const rootCls = cn(
         "intent-control intent-control-select",
+        getControlSizeClassName(size),
         sizeClass(size),
         "relative inline-flex",
         fullWidth && "w-full",
@@ -553,6 +575,7 @@ export function IntentControlSelect(props: IntentControlSelectProps) {
             // ✅ vars only
             {...layoutProps}
             className={cn(layoutProps.className, rootCls)}
+            dir={direction}
             data-intent={resolved.intent}
             data-variant={resolved.variant}
             data-intensity={resolved.intensity}
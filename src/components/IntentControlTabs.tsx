@@ -9,8 +9,12 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentControlProps } from "../lib/intent/resolve";
+import type { ControlSize, IntentComponentInput } from "../lib/intent/types";
+import { getIntentControlProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { getElementDirection, getInlineArrowStep } from "../lib/intent/direction";
+import { useControlSize, useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -23,10 +27,8 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type TabsSize = "xs" | "sm" | "md" | "lg";
-
 /** stable size hooks (CSS owns the actual px) */
-function sizeClass(size: TabsSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-tabs-xs";
@@ -34,6 +36,8 @@ function sizeClass(size: TabsSize) {
             return "ids-tabs-sm";
         case "lg":
             return "ids-tabs-lg";
+        case "xl":
+            return "ids-tabs-xl";
         default:
             return "ids-tabs-md";
     }
@@ -46,7 +50,9 @@ export type IntentControlTabsItem = {
     label: React.ReactNode;
     disabled?: boolean;
 
-    leftIcon?: React.ReactNode;
+    startIcon?: React.ReactNode; // logical: mirrors in rtl
+    endIcon?: React.ReactNode;
+    leftIcon?: React.ReactNode; // physical: stays on the left in rtl
     rightIcon?: React.ReactNode;
 
     /** Optional aria-label override for icon-only tabs */
@@ -57,7 +63,7 @@ export type IntentControlTabsItem = {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentControlTabsProps = IntentInput &
+export type IntentControlTabsProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children" | "onChange"> & {
         className?: string;
 
@@ -88,7 +94,7 @@ export type IntentControlTabsProps = IntentInput &
         /**
          * Size preset (padding/height/typography).
          */
-        size?: TabsSize; // default: "md"
+        size?: ControlSize; // default: "md"
 
         /**
          * If true, stretches to full available width (each tab can flex).
@@ -164,8 +170,8 @@ const INTENT_CONTROL_TABS_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "orientation",
         description: {
-            fr: "Orientation (horizontal/vertical) + navigation clavier.",
-            en: "Orientation (horizontal/vertical) + keyboard navigation.",
+            fr: "Orientation (horizontal/vertical) + navigation clavier (flèches gauche/droite inversées en rtl).",
+            en: "Orientation (horizontal/vertical) + keyboard navigation (left/right arrows mirrored in rtl).",
         },
         type: `"horizontal" | "vertical"`,
         required: false,
@@ -178,7 +184,7 @@ const INTENT_CONTROL_TABS_LOCAL_PROPS_TABLE: DocsPropRow[] = [
             fr: "Taille des tabs (hauteur/padding/typo).",
             en: "Tabs size (height/padding/typography).",
         },
-        type: `"xs" | "sm" | "md" | "lg"`,
+        type: `"xs" | "sm" | "md" | "lg" | "xl"`,
         required: false,
         default: "md",
         fromSystem: false,
@@ -252,6 +258,8 @@ export const IntentControlTabsIdentity: ComponentIdentity = {
         list: ".intent-tabs-list",
         trigger: ".intent-tabs-trigger (role='tab')",
         triggerLabel: ".intent-tabs-label",
+        triggerIconStart: ".intent-tabs-icon-start",
+        triggerIconEnd: ".intent-tabs-icon-end",
         triggerIconLeft: ".intent-tabs-icon-left",
         triggerIconRight: ".intent-tabs-icon-right",
     },
@@ -267,6 +275,8 @@ export const IntentControlTabsIdentity: ComponentIdentity = {
         "intent-tabs-list",
         "intent-tabs-trigger",
         "intent-tabs-label",
+        "intent-tabs-icon-start",
+        "intent-tabs-icon-end",
         "intent-tabs-icon-left",
         "intent-tabs-icon-right",
         "is-active",
@@ -276,6 +286,12 @@ export const IntentControlTabsIdentity: ComponentIdentity = {
         "ids-tabs-sm",
         "ids-tabs-md",
         "ids-tabs-lg",
+        "ids-tabs-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
         "is-vertical",
         "is-horizontal",
         "is-equal",
@@ -297,12 +313,14 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
         onValueChange,
 
         orientation = "horizontal",
-        size = "md",
+        size: sizeProp,
 
         fullWidth = false,
         equal = true,
         readOnly = false,
 
+        dir,
+
         // ✅ Pull DS props OUT so they never reach the DOM
         intent,
         variant,
@@ -310,12 +328,19 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
         // ✅ Only real DOM props remain here
         ...divProps
     } = props;
 
+    const size = useControlSize(sizeProp);
+    const direction = useIntentDirection(dir);
+
     const isControlled = typeof value === "string";
 
     const initialUncontrolled =
@@ -328,17 +353,21 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
 
     const disabled = Boolean(disabledProp);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
     const surfaceProps = getIntentControlProps(resolved, className);
 
     /* ============================================================================
@@ -352,10 +381,12 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
     const isGlowed = resolved.intent === "glowed";
 
     const allowFillGlow = glowAllowed && (isGlowed || v === "flat" || v === "elevated");
-    const allowBorderGlow = glowAllowed && (v === "outlined" || v === "elevated");
+    const allowBorderGlow = glowAllowed && v !== "flat"; // outlined / elevated / solid / glass
 
     const readOpacity = (key: "--intent-glow-fill-opacity" | "--intent-glow-border-opacity") => {
-        const raw = resolved.style?.[key] ?? "0";
+        // static output: the layer inherits the var from the stylesheet (.intent-glow-*)
+        if (!resolved.style) return undefined;
+        const raw = resolved.style[key] ?? "0";
         const n = Number(raw.toString());
         return Number.isFinite(n) ? n : 0;
     };
@@ -395,17 +426,22 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
 
         const key = e.key;
 
-        const prevKey = isHorizontal ? "ArrowLeft" : "ArrowUp";
-        const nextKey = isHorizontal ? "ArrowRight" : "ArrowDown";
+        // Horizontal arrows follow the reading order (ArrowLeft is "next" in rtl)
+        const step = isHorizontal
+            ? getInlineArrowStep(key, getElementDirection(e.currentTarget, direction))
+            : key === "ArrowUp"
+              ? -1
+              : key === "ArrowDown"
+                ? 1
+                : 0;
 
-        if (key !== prevKey && key !== nextKey && key !== "Home" && key !== "End") return;
+        if (step === 0 && key !== "Home" && key !== "End") return;
 
         e.preventDefault();
 
         let nextIndex = activeIndex;
 
-        if (key === prevKey) nextIndex = findNextEnabled(activeIndex, -1);
-        if (key === nextKey) nextIndex = findNextEnabled(activeIndex, 1);
+        if (step !== 0) nextIndex = findNextEnabled(activeIndex, step);
         if (key === "Home") nextIndex = findNextEnabled(-1, 1);
         if (key === "End") nextIndex = findNextEnabled(0, -1);
 
@@ -422,6 +458,7 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
         "relative",
         "rounded-ids-2xl",
         "transition",
+        getControlSizeClassName(size),
         sizeClass(size),
         fullWidth && "w-full",
         equal && "is-equal",
@@ -444,6 +481,7 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
             className={cn(surfaceProps.className, rootCls)}
             role="tablist"
             aria-orientation={orientation}
+            dir={direction}
             aria-disabled={disabled || undefined}
             data-intent={resolved.intent}
             data-variant={resolved.variant}
@@ -514,6 +552,12 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
                             aria-label={it.ariaLabel}
                             data-value={it.value}
                         >
+                            {it.startIcon ? (
+                                <span className="intent-tabs-icon-start" aria-hidden>
+                                    {it.startIcon}
+                                </span>
+                            ) : null}
+
                             {it.leftIcon ? (
                                 <span className="intent-tabs-icon-left" aria-hidden>
                                     {it.leftIcon}
@@ -527,6 +571,12 @@ export function IntentControlTabs(props: IntentControlTabsProps) {
                                     {it.rightIcon}
                                 </span>
                             ) : null}
+
+                            {it.endIcon ? (
+                                <span className="intent-tabs-icon-end" aria-hidden>
+                                    {it.endIcon}
+                                </span>
+                            ) : null}
                         </button>
                     );
                 })}
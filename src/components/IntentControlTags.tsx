@@ -10,8 +10,11 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentLayoutProps, getIntentControlProps } from "../lib/intent/resolve";
+import type { ControlSize, IntentComponentInput } from "../lib/intent/types";
+import { getIntentLayoutProps, getIntentControlProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { useControlSize, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -24,9 +27,7 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type TagsSize = "xs" | "sm" | "md" | "lg" | "xl";
-
-function sizeClass(size: TagsSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-tags-xs";
@@ -79,7 +80,7 @@ function setRef<T>(ref: React.Ref<T> | undefined, value: T) {
 
 export type IntentControlTagsAddOn = "enter" | "comma" | "space" | "blur";
 
-export type IntentControlTagsProps = IntentInput &
+export type IntentControlTagsProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children" | "onChange"> & {
         className?: string;
 
@@ -96,7 +97,7 @@ export type IntentControlTagsProps = IntentInput &
         placeholder?: string; // default: "Add…"
 
         /** UI */
-        size?: TagsSize; // default: "md"
+        size?: ControlSize; // default: "md"
         fullWidth?: boolean; // default: false
 
         /**
@@ -345,6 +346,11 @@ export const IntentControlTagsIdentity: ComponentIdentity = {
         "ids-tags-md",
         "ids-tags-lg",
         "ids-tags-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
     ],
 };
 
@@ -363,7 +369,7 @@ export const IntentControlTags = React.forwardRef<HTMLInputElement, IntentContro
 
             placeholder = "Add…",
 
-            size = "md",
+            size: sizeProp,
             fullWidth = false,
             insideField = false,
 
@@ -391,11 +397,17 @@ export const IntentControlTags = React.forwardRef<HTMLInputElement, IntentContro
             glow,
             intensity,
             mode,
+            themeColor,
+            cssOutput,
+            glowMotion,
+            elevation,
             disabled: disabledProp,
 
             ...divProps
         } = props;
 
+        const size = useControlSize(sizeProp);
+
         const disabled = Boolean(disabledProp);
 
         const isControlled = valueProp !== undefined;
@@ -409,17 +421,21 @@ export const IntentControlTags = React.forwardRef<HTMLInputElement, IntentContro
             setRef(forwardedRef, inputRef.current as any);
         }, [forwardedRef]);
 
-        const intentInput: IntentInput = {
+        const intentInput = useIntentInput({
             ...(intent !== undefined ? { intent } : {}),
             ...(variant !== undefined ? { variant } : {}),
             ...(tone !== undefined ? { tone } : {}),
             ...(glow !== undefined ? { glow } : {}),
             ...(intensity !== undefined ? { intensity } : {}),
             ...(mode !== undefined ? { mode } : {}),
+            ...(themeColor !== undefined ? { themeColor } : {}),
+            ...(cssOutput !== undefined ? { cssOutput } : {}),
+            ...(glowMotion !== undefined ? { glowMotion } : {}),
+            ...(elevation !== undefined ? { elevation } : {}),
             disabled,
-        };
+        });
 
-        const resolved = resolveIntent(intentInput);
+        const resolved = resolveIntentCached(intentInput);
 
         // Standalone: root carries vars + frame visuals
         // InsideField: root carries vars only (naked), field provides frame visuals
@@ -566,6 +582,7 @@ export const IntentControlTags = React.forwardRef<HTMLInputElement, IntentContro
 
         const rootCls = cn(
             "intent-control intent-control-tags",
+            getControlSizeClassName(size),
             sizeClass(size),
             fullWidth && "w-full",
             insideField ? "intent-control-tags-naked" : "intent-control-tags-standalone",
@@ -9,8 +9,11 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentControlProps } from "../lib/intent/resolve";
+import type { ControlSize, IntentComponentInput } from "../lib/intent/types";
+import { getIntentControlProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { useControlSize, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -23,10 +26,8 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type ToggleSize = "xs" | "sm" | "md" | "lg";
-
 /** stable size hooks (CSS owns the actual px) */
-function sizeClass(size: ToggleSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-toggle-xs";
@@ -34,6 +35,8 @@ function sizeClass(size: ToggleSize) {
             return "ids-toggle-sm";
         case "lg":
             return "ids-toggle-lg";
+        case "xl":
+            return "ids-toggle-xl";
         default:
             return "ids-toggle-md";
     }
@@ -43,7 +46,7 @@ function sizeClass(size: ToggleSize) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentControlToggleProps = IntentInput &
+export type IntentControlToggleProps = IntentComponentInput &
     Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, "className" | "children" | "onChange"> & {
         className?: string;
 
@@ -64,7 +67,7 @@ export type IntentControlToggleProps = IntentInput &
         onCheckedChange?: (checked: boolean) => void;
 
         /**
-         * Optional label displayed on the right of the toggle.
+         * Optional label displayed after the toggle (on the left in rtl).
          */
         label?: React.ReactNode;
 
@@ -76,7 +79,7 @@ export type IntentControlToggleProps = IntentInput &
         /**
          * Size preset (affects track/thumb dimensions + typography).
          */
-        size?: ToggleSize; // default: "md"
+        size?: ControlSize; // default: "md"
 
         /**
          * If true, stretches to full available width (label area expands).
@@ -133,8 +136,8 @@ const INTENT_CONTROL_TOGGLE_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "label",
         description: {
-            fr: "Label optionnel à droite.",
-            en: "Optional label on the right.",
+            fr: "Label optionnel après le toggle (à gauche en rtl).",
+            en: "Optional label after the toggle (on the left in rtl).",
         },
         type: "React.ReactNode",
         required: false,
@@ -156,7 +159,7 @@ const INTENT_CONTROL_TOGGLE_LOCAL_PROPS_TABLE: DocsPropRow[] = [
             fr: "Taille du toggle.",
             en: "Toggle size.",
         },
-        type: `"xs" | "sm" | "md" | "lg"`,
+        type: `"xs" | "sm" | "md" | "lg" | "xl"`,
         required: false,
         default: "md",
         fromSystem: false,
@@ -230,6 +233,12 @@ export const IntentControlToggleIdentity: ComponentIdentity = {
         "ids-toggle-sm",
         "ids-toggle-md",
         "ids-toggle-lg",
+        "ids-toggle-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
     ],
 };
 
@@ -248,7 +257,7 @@ export function IntentControlToggle(props: IntentControlToggleProps) {
         label,
         description,
 
-        size = "md",
+        size: sizeProp,
         fullWidth = false,
 
         // ✅ Pull DS props OUT so they never reach the DOM
@@ -258,12 +267,18 @@ export function IntentControlToggle(props: IntentControlToggleProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
         // ✅ Only real DOM props remain here
         ...buttonProps
     } = props;
 
+    const size = useControlSize(sizeProp);
+
     const isControlled = typeof checked === "boolean";
 
     const [uncontrolled, setUncontrolled] = React.useState<boolean>(defaultChecked);
@@ -272,17 +287,21 @@ export function IntentControlToggle(props: IntentControlToggleProps) {
 
     const disabled = Boolean(disabledProp);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
     const surfaceProps = getIntentControlProps(resolved, className);
 
     /* ============================================================================
@@ -296,10 +315,12 @@ export function IntentControlToggle(props: IntentControlToggleProps) {
     const isGlowed = resolved.intent === "glowed";
 
     const allowFillGlow = glowAllowed && (isGlowed || v === "flat" || v === "elevated");
-    const allowBorderGlow = glowAllowed && (v === "outlined" || v === "elevated");
+    const allowBorderGlow = glowAllowed && v !== "flat"; // outlined / elevated / solid / glass
 
     const readOpacity = (key: "--intent-glow-fill-opacity" | "--intent-glow-border-opacity") => {
-        const raw = resolved.style?.[key] ?? "0";
+        // static output: the layer inherits the var from the stylesheet (.intent-glow-*)
+        if (!resolved.style) return undefined;
+        const raw = resolved.style[key] ?? "0";
         const n = Number(raw.toString());
         return Number.isFinite(n) ? n : 0;
     };
@@ -313,6 +334,7 @@ export function IntentControlToggle(props: IntentControlToggleProps) {
         "relative inline-flex items-center",
         "rounded-ids-2xl",
         "transition",
+        getControlSizeClassName(size),
         sizeClass(size),
         fullWidth && "w-full",
         isChecked && "is-checked",
@@ -9,8 +9,10 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentLayoutProps } from "../lib/intent/resolve";
+import type { IntentComponentInput } from "../lib/intent/types";
+import { getIntentLayoutProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -25,13 +27,13 @@ function cn(...classes: Array<string | false | null | undefined>) {
 
 type DividerOrientation = "horizontal" | "vertical";
 type DividerThickness = "hairline" | "thin" | "medium";
-type DividerAlign = "left" | "center" | "right";
+type DividerAlign = "start" | "center" | "end" | "left" | "right";
 
 /* ============================================================================
    🧩 TYPES
 ============================================================================ */
 
-export type IntentDividerProps = IntentInput &
+export type IntentDividerProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children"> & {
         className?: string;
 
@@ -47,6 +49,7 @@ export type IntentDividerProps = IntentInput &
 
         /**
          * Label alignment for horizontal divider.
+         * start / end follow the direction, left / right stay physical in rtl.
          */
         align?: DividerAlign; // default: "center"
 
@@ -117,10 +120,10 @@ const INTENT_DIVIDER_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "align",
         description: {
-            fr: "Alignement du label (horizontal).",
-            en: "Label alignment (horizontal).",
+            fr: "Alignement du label (horizontal) : start/end suivent la direction, left/right restent physiques en rtl.",
+            en: "Label alignment (horizontal): start/end follow the direction, left/right stay physical in rtl.",
         },
-        type: `"left" | "center" | "right"`,
+        type: `"start" | "center" | "end" | "left" | "right"`,
         required: false,
         default: "center",
         fromSystem: false,
@@ -181,6 +184,7 @@ export const IntentDividerIdentity: ComponentIdentity = {
         "ids-divider-medium",
         "is-disabled",
         "has-label",
+        "is-align-physical",
     ],
 };
 
@@ -222,11 +226,17 @@ export function IntentDivider(props: IntentDividerProps) {
         align = "center",
         gap = "sm",
 
+        dir,
+
         // ✅ Pull DS props OUT so they never reach the DOM
         intent,
         tone,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
         // ✅ Only real DOM props remain here
@@ -234,17 +244,22 @@ export function IntentDivider(props: IntentDividerProps) {
     } = props;
 
     const disabled = Boolean(disabledProp);
+    const direction = useIntentDirection(dir);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         variant: "ghost", // ✅ force neutral
         ...(tone !== undefined ? { tone } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // Reuse control props to get stable class hooks + CSS vars
     const layoutProps = getIntentLayoutProps(resolved, className);
@@ -278,6 +293,7 @@ export function IntentDivider(props: IntentDividerProps) {
                 {...layoutProps}
                 className={cn(layoutProps.className, rootCls)}
                 aria-hidden={divProps["aria-hidden"] ?? true}
+                dir={direction}
                 data-intent={resolved.intent}
                 data-variant={resolved.variant}
                 data-intensity={resolved.intensity}
@@ -289,8 +305,9 @@ export function IntentDivider(props: IntentDividerProps) {
     }
 
     // Horizontal + label: render as flex with two lines + label
-    const justify =
-        align === "left" ? "justify-start" : align === "right" ? "justify-end" : "justify-center";
+    const atStart = align === "start" || align === "left";
+    const atEnd = align === "end" || align === "right";
+    const justify = atStart ? "justify-start" : atEnd ? "justify-end" : "justify-center";
 
     return (
         <div
@@ -301,29 +318,25 @@ export function IntentDivider(props: IntentDividerProps) {
                 rootCls,
                 "flex items-center",
                 justify,
-                gapClass(gap)
+                gapClass(gap),
+                (align === "left" || align === "right") && "is-align-physical"
             )}
+            dir={direction}
             data-intent={resolved.intent}
             data-variant={resolved.variant}
             data-intensity={resolved.intensity}
             data-mode={resolved.mode}
         >
-            {/* Left segment */}
-            <span
-                aria-hidden
-                className={cn(lineCls, align === "left" ? "w-10 flex-none" : "flex-1")}
-            />
+            {/* Start segment (left unless rtl) */}
+            <span aria-hidden className={cn(lineCls, atStart ? "w-10 flex-none" : "flex-1")} />
 
             {/* Label */}
             <span className="intent-divider-label text-xs opacity-70 whitespace-nowrap">
                 {label}
             </span>
 
-            {/* Right segment */}
-            <span
-                aria-hidden
-                className={cn(lineCls, align === "right" ? "w-10 flex-none" : "flex-1")}
-            />
+            {/* End segment */}
+            <span aria-hidden className={cn(lineCls, atEnd ? "w-10 flex-none" : "flex-1")} />
         </div>
     );
 }
@@ -9,8 +9,11 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentControlProps } from "../lib/intent/resolve";
+import type { ControlSize, IntentComponentInput } from "../lib/intent/types";
+import { getIntentControlProps } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { useControlSize, useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -23,9 +26,7 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-type IndicatorSize = "xs" | "sm" | "md" | "lg";
-
-function sizeClass(size: IndicatorSize) {
+function sizeClass(size: ControlSize) {
     switch (size) {
         case "xs":
             return "ids-indicator-xs";
@@ -33,6 +34,8 @@ function sizeClass(size: IndicatorSize) {
             return "ids-indicator-sm";
         case "lg":
             return "ids-indicator-lg";
+        case "xl":
+            return "ids-indicator-xl";
         default:
             return "ids-indicator-md";
     }
@@ -42,12 +45,12 @@ function sizeClass(size: IndicatorSize) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentIndicatorProps<T extends React.ElementType = "span"> = IntentInput & {
+export type IntentIndicatorProps<T extends React.ElementType = "span"> = IntentComponentInput & {
     as?: T;
     className?: string;
     children?: React.ReactNode;
 
-    size?: IndicatorSize; // default: "md"
+    size?: ControlSize; // default: "md"
     fullWidth?: boolean;
 
     /**
@@ -56,9 +59,14 @@ export type IntentIndicatorProps<T extends React.ElementType = "span"> = IntentI
      */
     dot?: boolean;
 
-    leftIcon?: React.ReactNode;
+    startIcon?: React.ReactNode; // logical: mirrors in rtl
+    endIcon?: React.ReactNode;
+    leftIcon?: React.ReactNode; // physical: stays on the left in rtl
     rightIcon?: React.ReactNode;
 
+    /** Inline direction ("ltr" / "rtl"); defaults to the IntentProvider dir. */
+    dir?: string;
+
     /**
      * Accessibility: default role is "status" (good for small state indicators).
      * You can override if needed ("note", "img", etc.)
@@ -108,7 +116,7 @@ const INTENT_INDICATOR_LOCAL_PROPS_TABLE: DocsPropRow[] = [
             fr: "Taille de l’indicateur (padding, hauteur, typo).",
             en: "Indicator size (padding, height, typography).",
         },
-        type: `"xs" | "sm" | "md" | "lg"`,
+        type: `"xs" | "sm" | "md" | "lg" | "xl"`,
         required: false,
         default: "md",
         fromSystem: false,
@@ -135,11 +143,31 @@ const INTENT_INDICATOR_LOCAL_PROPS_TABLE: DocsPropRow[] = [
         default: "false",
         fromSystem: false,
     },
+    {
+        name: "startIcon",
+        description: {
+            fr: "Icône en début de label (à droite en rtl).",
+            en: "Icon at the start of the label (right in rtl).",
+        },
+        type: "React.ReactNode",
+        required: false,
+        fromSystem: false,
+    },
+    {
+        name: "endIcon",
+        description: {
+            fr: "Icône en fin de label (à gauche en rtl).",
+            en: "Icon at the end of the label (left in rtl).",
+        },
+        type: "React.ReactNode",
+        required: false,
+        fromSystem: false,
+    },
     {
         name: "leftIcon",
         description: {
-            fr: "Icône à gauche du label.",
-            en: "Left icon.",
+            fr: "Icône à gauche du label, y compris en rtl.",
+            en: "Left icon, also in rtl.",
         },
         type: "React.ReactNode",
         required: false,
@@ -148,8 +176,8 @@ const INTENT_INDICATOR_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "rightIcon",
         description: {
-            fr: "Icône à droite du label.",
-            en: "Right icon.",
+            fr: "Icône à droite du label, y compris en rtl.",
+            en: "Right icon, also in rtl.",
         },
         type: "React.ReactNode",
         required: false,
@@ -200,6 +228,8 @@ export const IntentIndicatorIdentity: ComponentIdentity = {
         glowBorderLayer: ".intent-glow-layer.intent-glow-border",
         content: ".intent-control-label (wrapped in z-10)",
         dot: ".intent-indicator-dot",
+        startIcon: ".intent-control-icon-start",
+        endIcon: ".intent-control-icon-end",
         leftIcon: ".intent-control-icon-left",
         rightIcon: ".intent-control-icon-right",
     },
@@ -217,6 +247,12 @@ export const IntentIndicatorIdentity: ComponentIdentity = {
         "ids-indicator-sm",
         "ids-indicator-md",
         "ids-indicator-lg",
+        "ids-indicator-xl",
+        "ids-size-xs",
+        "ids-size-sm",
+        "ids-size-md",
+        "ids-size-lg",
+        "ids-size-xl",
     ],
 };
 
@@ -232,14 +268,17 @@ export function IntentIndicator<T extends React.ElementType = "span">(
         className,
         children,
 
-        size = "md",
+        size: sizeProp,
         fullWidth = false,
 
         dot = false,
+        startIcon,
+        endIcon,
         leftIcon,
         rightIcon,
 
         role = "status",
+        dir,
 
         // ✅ Pull DS props OUT so they never reach the DOM via {...restProps}
         intent,
@@ -248,25 +287,36 @@ export function IntentIndicator<T extends React.ElementType = "span">(
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: disabledProp,
 
         // ✅ Only real DOM props remain here
         ...restProps
     } = props;
 
+    const size = useControlSize(sizeProp);
+    const direction = useIntentDirection(dir);
+
     const disabled = Boolean(disabledProp);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     const controlProps = getIntentControlProps(resolved, className);
 
@@ -284,10 +334,12 @@ export function IntentIndicator<T extends React.ElementType = "span">(
     // - Normal intents: flat/elevated => fill, outlined/elevated => border
     // - glowed: aura exists even in outlined (fill allowed for all except ghost)
     const allowFillGlow = glowAllowed && (isGlowed || v === "flat" || v === "elevated");
-    const allowBorderGlow = glowAllowed && (v === "outlined" || v === "elevated");
+    const allowBorderGlow = glowAllowed && v !== "flat"; // outlined / elevated / solid / glass
 
     const readOpacity = (key: "--intent-glow-fill-opacity" | "--intent-glow-border-opacity") => {
-        const raw = resolved.style?.[key] ?? "0";
+        // static output: the layer inherits the var from the stylesheet (.intent-glow-*)
+        if (!resolved.style) return undefined;
+        const raw = resolved.style[key] ?? "0";
         const n = Number(raw.toString());
         return Number.isFinite(n) ? n : 0;
     };
@@ -303,6 +355,7 @@ export function IntentIndicator<T extends React.ElementType = "span">(
         "relative inline-flex items-center",
         "select-none whitespace-nowrap",
         "rounded-ids-2xl",
+        getControlSizeClassName(size),
         sizeClass(size),
         fullWidth && "w-full",
         disabled && "is-disabled"
@@ -315,6 +368,7 @@ export function IntentIndicator<T extends React.ElementType = "span">(
             className={cn(controlProps.className, rootCls)}
             role={role}
             aria-disabled={disabled || undefined}
+            dir={direction}
             data-intent={resolved.intent}
             data-variant={resolved.variant}
             data-intensity={resolved.intensity}
@@ -348,6 +402,12 @@ export function IntentIndicator<T extends React.ElementType = "span">(
             <span className="relative z-10 inline-flex items-center gap-2">
                 {dot ? <span aria-hidden className="intent-indicator-dot" /> : null}
 
+                {startIcon ? (
+                    <span className="intent-control-icon intent-control-icon-start">
+                        {startIcon}
+                    </span>
+                ) : null}
+
                 {leftIcon ? (
                     <span className="intent-control-icon intent-control-icon-left">{leftIcon}</span>
                 ) : null}
@@ -359,6 +419,9 @@ export function IntentIndicator<T extends React.ElementType = "span">(
                         {rightIcon}
                     </span>
                 ) : null}
+                {endIcon ? (
+                    <span className="intent-control-icon intent-control-icon-end">{endIcon}</span>
+                ) : null}
             </span>
         </Tag>
     );
@@ -9,12 +9,16 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
+import type { ControlSize, IntentComponentInput } from "../lib/intent/types";
 import {
-    resolveIntent,
     getIntentLayoutProps,
     composeIntentControlClassName,
+    getIntentDataAttributes,
 } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+import { getElementDirection, getInlineArrowStep } from "../lib/intent/direction";
+import { useControlSize, useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -58,9 +62,9 @@ export type IntentJourneyStep = {
     onSelect?: (step: IntentJourneyStep) => void;
 };
 
-export type IntentJourneySize = "xs" | "sm" | "md" | "lg";
+export type IntentJourneySize = ControlSize;
 
-export type IntentJourneyProps = IntentInput &
+export type IntentJourneyProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLElement>, "className" | "children"> & {
         className?: string;
 
@@ -110,7 +114,10 @@ const INTENT_JOURNEY_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     },
     {
         name: "orientation",
-        description: { fr: "Orientation du parcours.", en: "Journey orientation." },
+        description: {
+            fr: "Orientation du parcours (en horizontal, flèches gauche/droite inversées en rtl).",
+            en: "Journey orientation (horizontal: left/right arrows mirrored in rtl).",
+        },
         type: `"vertical" | "horizontal"`,
         required: false,
         default: "vertical",
@@ -119,7 +126,7 @@ const INTENT_JOURNEY_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "size",
         description: { fr: "Taille des items.", en: "Item size." },
-        type: `"xs" | "sm" | "md" | "lg"`,
+        type: `"xs" | "sm" | "md" | "lg" | "xl"`,
         required: false,
         default: "md",
         fromSystem: false,
@@ -250,7 +257,7 @@ export function IntentJourney(props: IntentJourneyProps) {
         steps,
 
         orientation = "vertical",
-        size = "md",
+        size: sizeProp,
         compact = false,
 
         activeId: activeIdProp,
@@ -263,6 +270,8 @@ export function IntentJourney(props: IntentJourneyProps) {
 
         showRail = true,
 
+        dir: dirProp,
+
         // DS props (removed from DOM)
         intent,
         variant,
@@ -270,11 +279,18 @@ export function IntentJourney(props: IntentJourneyProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
         ...navProps
     } = props;
 
+    const size = useControlSize(sizeProp);
+    const direction = useIntentDirection(dirProp);
+
     const disabled = Boolean(dsDisabled);
 
     const [activeUncontrolled, setActiveUncontrolled] = React.useState<string | undefined>(
@@ -291,17 +307,21 @@ export function IntentJourney(props: IntentJourneyProps) {
         [isControlled, onActiveChange]
     );
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // Root: vars only
     const layoutProps = getIntentLayoutProps(resolved, className);
@@ -321,6 +341,7 @@ export function IntentJourney(props: IntentJourneyProps) {
         compact && "is-compact",
         interactive && "is-clickable",
         disabled && "is-disabled",
+        getControlSizeClassName(size),
         `ids-journey-${size}`
     );
 
@@ -330,8 +351,8 @@ export function IntentJourney(props: IntentJourneyProps) {
 
         const onKeyDown = (e: KeyboardEvent) => {
             const target = e.target as HTMLElement | null;
-            const inJourney = Boolean(target?.closest?.(".intent-journey"));
-            if (!inJourney) return;
+            const journey = target?.closest?.(".intent-journey");
+            if (!journey) return;
 
             const keys = [
                 "ArrowDown",
@@ -350,13 +371,18 @@ export function IntentJourney(props: IntentJourneyProps) {
             );
 
             const isVertical = orientation === "vertical";
-            const nextKey = isVertical ? "ArrowDown" : "ArrowRight";
-            const prevKey = isVertical ? "ArrowUp" : "ArrowLeft";
 
-            let nextIdx = idx;
+            // Horizontal journeys read right-to-left in rtl
+            const step = isVertical
+                ? e.key === "ArrowDown"
+                    ? 1
+                    : e.key === "ArrowUp"
+                      ? -1
+                      : 0
+                : getInlineArrowStep(e.key, getElementDirection(journey, direction));
+
+            let nextIdx = idx + step;
 
-            if (e.key === nextKey) nextIdx = idx + 1;
-            if (e.key === prevKey) nextIdx = idx - 1;
             if (e.key === "Home") nextIdx = 0;
             if (e.key === "End") nextIdx = stepCount - 1;
 
@@ -407,12 +433,14 @@ export function IntentJourney(props: IntentJourneyProps) {
 
         window.addEventListener("keydown", onKeyDown);
         return () => window.removeEventListener("keydown", onKeyDown);
-    }, [activeId, interactive, orientation, setActive, stepCount, steps]);
+    }, [activeId, direction, interactive, orientation, setActive, stepCount, steps]);
 
     return (
         <nav
             {...navProps}
             aria-label={ariaLabel}
+            dir={direction}
+            {...getIntentDataAttributes(resolved)}
             style={layoutProps.style}
             className={cn(layoutProps.className, rootCls)}
             data-intent={resolved.intent}
@@ -11,13 +11,22 @@
 import * as React from "react";
 
 import type {
+    ControlSize,
     AestheticGlowName,
+    BuiltinAestheticGlowName,
     GlowName,
-    IntentInput,
+    IntentComponentInput,
     DocsPropRow,
     ComponentIdentity,
 } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
+import {
+    getAestheticGlows,
+    getGlowDefinition,
+    getRegistryVersion,
+    isAestheticGlow,
+} from "../lib/intent/registry";
+import { parseToRgb, rgbToCssRgb } from "../lib/colors/themeHelpers";
 
 import { IntentControlField } from "./IntentControlField";
 import { IntentControlToggle } from "./IntentControlToggle";
@@ -35,29 +44,9 @@ export type GlowPickerMode = "toggle" | "select";
 
 export type GlowValue = boolean | GlowName | "true" | "false";
 
-const DEFAULT_AESTHETIC_GLOWS: AestheticGlowName[] = [
-    "aurora",
-    "ember",
-    "cosmic",
-    "mythic",
-    "royal",
-    "mono",
-];
-
-function isGlowName(v: unknown): v is AestheticGlowName {
-    return (
-        v === "aurora" ||
-        v === "ember" ||
-        v === "cosmic" ||
-        v === "mythic" ||
-        v === "royal" ||
-        v === "mono"
-    );
-}
-
 function normalizeGlowValue(v: unknown): GlowValue {
     if (typeof v === "boolean") return v;
-    if (typeof v === "string" && isGlowName(v)) return v;
+    if (isAestheticGlow(v)) return v;
     return false;
 }
 
@@ -75,17 +64,20 @@ function glowLabel(glow: AestheticGlowName) {
             return "Royal";
         case "mono":
             return "Mono";
-        default:
-            return String(glow);
+        default: {
+            const custom = getGlowDefinition(glow);
+            if (custom?.label) return custom.label;
+            return String(glow).charAt(0).toUpperCase() + String(glow).slice(1);
+        }
     }
 }
 
 /**
  * Small swatch "best-effort" (fallback palette)
- * You can later map to real DS glow tokens if you have them.
+ * Registered glows derive their swatch from their layer colors.
  */
 function glowSwatchStyle(glow: AestheticGlowName): React.CSSProperties {
-    const map: Record<AestheticGlowName, string> = {
+    const map: Record<BuiltinAestheticGlowName, string> = {
         aurora: "linear-gradient(135deg, #34d399, #60a5fa, #a78bfa)",
         ember: "linear-gradient(135deg, #fb7185, #f97316, #f59e0b)",
         cosmic: "linear-gradient(135deg, #22d3ee, #60a5fa, #a78bfa)",
@@ -94,8 +86,21 @@ function glowSwatchStyle(glow: AestheticGlowName): React.CSSProperties {
         mono: "linear-gradient(135deg, #94a3b8, #e2e8f0, #64748b)",
     };
 
+    const custom = getGlowDefinition(glow);
+    const stops = custom?.layers
+        .map((layer) => parseToRgb(layer.color))
+        .filter((rgb) => rgb !== null)
+        .map((rgb) => rgbToCssRgb(rgb));
+
+    const background =
+        glow in map
+            ? map[glow as BuiltinAestheticGlowName]
+            : stops && stops.length > 1
+              ? `linear-gradient(135deg, ${stops.join(", ")})`
+              : (stops?.[0] ?? undefined);
+
     return {
-        background: map[glow],
+        ...(background ? { background } : {}),
         boxShadow: "inset 0 0 0 1px rgba(255,255,255,0.14)",
     };
 }
@@ -108,7 +113,7 @@ function GlowSwatch({ glow }: { glow: AestheticGlowName }) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentPickerGlowProps = IntentInput &
+export type IntentPickerGlowProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children" | "onChange"> & {
         className?: string;
 
@@ -126,7 +131,7 @@ export type IntentPickerGlowProps = IntentInput &
         onChange: (value: GlowValue) => void;
 
         /** Aesthetic glow options (select mode) */
-        options?: AestheticGlowName[]; // default: DEFAULT_AESTHETIC_GLOWS
+        options?: AestheticGlowName[]; // default: getAestheticGlows() (built-in + registered)
 
         /** Label row */
         label?: React.ReactNode; // default: "Glow"
@@ -152,7 +157,7 @@ export type IntentPickerGlowProps = IntentInput &
 
         /** Select props (select mode) */
         placeholder?: string; // default: "Select…"
-        size?: "xs" | "sm" | "md" | "lg" | "xl"; // forwarded to IntentControlSelect
+        size?: ControlSize; // forwarded to IntentControlSelect
         fullWidth?: boolean; // forwarded to IntentControlSelect
         clearable?: boolean; // default: false
 
@@ -196,12 +201,12 @@ const INTENT_PICKER_GLOW_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "options",
         description: {
-            fr: "Liste des glows esthétiques (mode select).",
-            en: "Aesthetic glow options (select mode).",
+            fr: "Liste des glows esthétiques (mode select). Par défaut : glows intégrés + enregistrés.",
+            en: "Aesthetic glow options (select mode). Default: built-in + registered glows.",
         },
         type: "GlowName[]",
         required: false,
-        default: "DEFAULT_AESTHETIC_GLOWS",
+        default: "getAestheticGlows()",
         fromSystem: false,
     },
     {
@@ -324,7 +329,7 @@ export function IntentPickerGlow(props: IntentPickerGlowProps) {
         toggleDescription,
 
         placeholder = "Select…",
-        size = "md",
+        size,
         fullWidth = true,
         clearable = false,
 
@@ -337,6 +342,10 @@ export function IntentPickerGlow(props: IntentPickerGlowProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
         ...divProps
@@ -344,11 +353,14 @@ export function IntentPickerGlow(props: IntentPickerGlowProps) {
 
     const fieldId = labelFor ?? React.useId();
 
+    // registerGlow() / unregisterGlow() bump the version: the next render picks them up
+    const registryVersion = getRegistryVersion();
+
     const optionsResolved = React.useMemo(() => {
-        const base = options ?? DEFAULT_AESTHETIC_GLOWS;
+        const base = options ?? getAestheticGlows();
         // unique + stable order
         return Array.from(new Set(base));
-    }, [options]);
+    }, [options, registryVersion]);
 
     // Select options with a swatch + label
     const selectOptions: IntentControlSelectOption[] = React.useMemo(
@@ -367,18 +379,22 @@ export function IntentPickerGlow(props: IntentPickerGlowProps) {
     );
 
     // ✅ exactOptionalPropertyTypes: only spread defined
-    const dsInput: IntentInput = {
+    const dsInput: IntentComponentInput = {
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         ...(dsDisabled !== undefined ? { disabled: dsDisabled } : {}),
     };
 
     // Often we keep the Field chrome neutral-ish
-    const fieldDsInput: IntentInput = {
+    const fieldDsInput: IntentComponentInput = {
         ...(intent !== undefined ? { intent } : {}),
     };
 
@@ -435,7 +451,7 @@ export function IntentPickerGlow(props: IntentPickerGlowProps) {
                             onChange(normalizeGlowValue(next));
                         }}
                         placeholder={placeholder}
-                        size={size}
+                        {...(size !== undefined ? { size } : {})}
                         fullWidth={fullWidth}
                         clearable={clearable}
                         disabled={disabled}
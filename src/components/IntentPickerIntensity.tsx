@@ -0,0 +1,354 @@
+"use client";
+
+// src/components/IntentPickerIntensity.tsx
+// IntentPickerIntensity
+// - Intensity picker with 2 modes:
+//   1) steps (IntentControlSegmented): "soft" | "medium" | "strong"
+//   2) slider (native range): continuous level 0..1, colored by the resolved intent vars
+// - Uses IntentControlField for label/hint/error + intent vars
+// - Intent-first, stable class hooks
+
+import * as React from "react";
+
+import type {
+    ControlSize,
+    Intensity,
+    IntensityStep,
+    IntentComponentInput,
+    DocsPropRow,
+    ComponentIdentity,
+} from "../lib/intent/types";
+import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
+import {
+    getIntentLayoutProps,
+    intensityToLevel,
+    levelToIntensityStep,
+} from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getControlSizeClassName } from "../lib/intent/density";
+
+import { IntentControlField } from "./IntentControlField";
+import { IntentControlSegmented } from "./IntentControlSegmented";
+import { useControlSize, useIntentInput } from "./IntentProvider";
+
+/* ============================================================================
+   🧰 HELPERS
+============================================================================ */
+
+function cn(...classes: Array<string | false | null | undefined>) {
+    return classes.filter(Boolean).join(" ");
+}
+
+export type IntensityPickerMode = "steps" | "slider";
+
+const INTENSITY_STEPS: IntensityStep[] = ["soft", "medium", "strong"];
+
+function stepLabel(step: IntensityStep) {
+    switch (step) {
+        case "soft":
+            return "Soft";
+        case "strong":
+            return "Strong";
+        default:
+            return "Medium";
+    }
+}
+
+function formatLevel(level: number) {
+    return `${Math.round(level * 100)}%`;
+}
+
+/* ============================================================================
+   🧩 TYPES
+============================================================================ */
+
+export type IntentPickerIntensityProps = IntentComponentInput &
+    Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children" | "onChange"> & {
+        className?: string;
+
+        /**
+         * Mode
+         * - "steps": soft/medium/strong via IntentControlSegmented
+         * - "slider": continuous 0..1 via a range input
+         */
+        pickerMode?: IntensityPickerMode; // default: "steps"
+
+        /** Controlled value (named step or 0..1) */
+        value: Intensity;
+
+        /** Change callback (steps => IntensityStep, slider => number) */
+        onChange: (value: Intensity) => void;
+
+        /** Slider granularity (slider mode) */
+        step?: number; // default: 0.05
+
+        /** Label row */
+        label?: React.ReactNode; // default: "Intensity"
+        labelFor?: string;
+        hint?: React.ReactNode;
+        error?: React.ReactNode;
+
+        /** State */
+        disabled?: boolean;
+        invalid?: boolean;
+
+        /** Layout */
+        compact?: boolean;
+        padded?: boolean;
+
+        /** Slots */
+        leading?: React.ReactNode;
+        trailing?: React.ReactNode;
+
+        /** Steps props (steps mode) */
+        size?: ControlSize; // segmented size / slider row height
+        fullWidth?: boolean; // default: true
+
+        /** A11y */
+        ariaLabel?: string; // default: "Intensity"
+    };
+
+/* ============================================================================
+   📋 DOCS EXPORTS
+============================================================================ */
+
+const INTENT_PICKER_INTENSITY_LOCAL_PROPS_TABLE: DocsPropRow[] = [
+    {
+        name: "pickerMode",
+        description: {
+            fr: "Mode du picker: paliers (soft/medium/strong) ou slider continu 0..1.",
+            en: "Picker mode: steps (soft/medium/strong) or continuous 0..1 slider.",
+        },
+        type: `"steps" | "slider"`,
+        required: false,
+        default: "steps",
+        fromSystem: false,
+    },
+    {
+        name: "value",
+        description: {
+            fr: "Valeur: palier nommé ou niveau numérique 0..1.",
+            en: "Value: named step or numeric level 0..1.",
+        },
+        type: "Intensity",
+        required: true,
+        fromSystem: false,
+    },
+    {
+        name: "onChange",
+        description: { fr: "Callback de changement.", en: "Change callback." },
+        type: "(value: Intensity) => void",
+        required: true,
+        fromSystem: false,
+    },
+    {
+        name: "step",
+        description: {
+            fr: "Pas du slider (mode slider).",
+            en: "Slider granularity (slider mode).",
+        },
+        type: "number",
+        required: false,
+        default: "0.05",
+        fromSystem: false,
+    },
+    {
+        name: "size",
+        description: {
+            fr: "Taille du segmented (mode steps) ou hauteur de la ligne du slider.",
+            en: "Segmented size (steps mode) or slider row height.",
+        },
+        type: `"xs" | "sm" | "md" | "lg" | "xl"`,
+        required: false,
+        default: "md",
+        fromSystem: false,
+    },
+    {
+        name: "fullWidth",
+        description: {
+            fr: "Segmented pleine largeur (mode steps).",
+            en: "Full width segmented (steps mode).",
+        },
+        type: "boolean",
+        required: false,
+        default: "true",
+        fromSystem: false,
+    },
+];
+
+export const IntentPickerIntensityPropsTable: DocsPropRow[] = [
+    ...INTENT_PICKER_INTENSITY_LOCAL_PROPS_TABLE,
+    ...SYSTEM_PROPS_TABLE,
+];
+
+export const IntentPickerIntensityIdentity: ComponentIdentity = {
+    name: "IntentPickerIntensity",
+    kind: "control",
+    description: {
+        fr: "Sélecteur d’intensité (paliers soft/medium/strong ou slider continu 0..1), intent-first.",
+        en: "Intensity picker (soft/medium/strong steps or continuous 0..1 slider), intent-first.",
+    },
+    since: "0.3.0",
+    docs: { route: "/playground/components/intent-picker-intensity" },
+    anatomy: {
+        root: "<div>",
+        field: "<IntentControlField>",
+        segment: "<IntentControlSegmented>",
+        input: ".intent-picker-intensity-range",
+        value: ".intent-picker-intensity-value",
+    },
+    classHooks: [
+        "intent-picker-intensity",
+        "intent-picker-intensity-slider",
+        "intent-picker-intensity-range",
+        "intent-picker-intensity-value",
+    ],
+};
+
+/* ============================================================================
+   ✅ MAIN
+============================================================================ */
+
+export function IntentPickerIntensity(props: IntentPickerIntensityProps) {
+    const {
+        className,
+
+        pickerMode = "steps",
+        value,
+        onChange,
+
+        step = 0.05,
+
+        label = "Intensity",
+        labelFor,
+        hint,
+        error,
+
+        disabled = false,
+        invalid = false,
+
+        compact = false,
+        padded = false,
+
+        leading,
+        trailing,
+
+        size,
+        fullWidth = true,
+
+        ariaLabel = "Intensity",
+
+        // DS props
+        intent,
+        variant,
+        tone,
+        glow,
+        intensity,
+        mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
+        disabled: dsDisabled,
+
+        ...divProps
+    } = props;
+
+    const fieldId = labelFor ?? React.useId();
+
+    const level = intensityToLevel(value);
+    const selectedStep = typeof value === "number" ? levelToIntensityStep(level) : value;
+
+    // ✅ exactOptionalPropertyTypes: only spread defined
+    const dsInput: IntentComponentInput = {
+        ...(intent !== undefined ? { intent } : {}),
+        ...(variant !== undefined ? { variant } : {}),
+        ...(tone !== undefined ? { tone } : {}),
+        ...(glow !== undefined ? { glow } : {}),
+        ...(intensity !== undefined ? { intensity } : {}),
+        ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
+        ...(dsDisabled !== undefined ? { disabled: dsDisabled } : {}),
+    };
+
+    // Slider: the native range has no DS chrome, its wrapper carries the intent vars
+    // (accent-color follows --intent-ring) and the size hook
+    const controlSize = useControlSize(size);
+    const sliderResolved = resolveIntentCached(useIntentInput(dsInput));
+    const sliderProps = getIntentLayoutProps(
+        sliderResolved,
+        cn("intent-picker-intensity-slider", getControlSizeClassName(controlSize))
+    );
+
+    // Often we keep the Field chrome neutral-ish
+    const fieldDsInput: IntentComponentInput = {
+        ...(intent !== undefined ? { intent } : {}),
+    };
+
+    return (
+        <IntentControlField
+            {...divProps}
+            {...fieldDsInput}
+            variant="ghost"
+            className={cn("intent-picker-intensity", className)}
+            label={label}
+            labelFor={fieldId}
+            hint={hint}
+            error={error}
+            disabled={disabled}
+            invalid={invalid}
+            compact={compact}
+            padded={padded}
+            leading={leading}
+            trailing={trailing}
+        >
+            <div className="w-full min-w-0">
+                {pickerMode === "slider" ? (
+                    <div {...sliderProps}>
+                        <input
+                            id={fieldId}
+                            type="range"
+                            className="intent-picker-intensity-range"
+                            aria-label={typeof label === "string" ? label : ariaLabel}
+                            min={0}
+                            max={1}
+                            step={step}
+                            value={level}
+                            disabled={disabled}
+                            aria-valuetext={formatLevel(level)}
+                            onChange={(e) => {
+                                if (disabled) return;
+                                onChange(Number(e.currentTarget.value));
+                            }}
+                        />
+                        <span className="intent-picker-intensity-value" aria-hidden>
+                            {formatLevel(level)}
+                        </span>
+                    </div>
+                ) : (
+                    <IntentControlSegmented
+                        ariaLabel={typeof label === "string" ? label : ariaLabel}
+                        options={INTENSITY_STEPS.map((s) => ({
+                            value: s,
+                            label: stepLabel(s),
+                            text: stepLabel(s),
+                        }))}
+                        value={selectedStep}
+                        allowEmpty={false}
+                        onValueChange={(next) => {
+                            if (disabled) return;
+                            if (typeof next === "string") onChange(next as IntensityStep);
+                        }}
+                        {...(size !== undefined ? { size } : {})}
+                        fullWidth={fullWidth}
+                        {...dsInput}
+                        disabled={disabled || Boolean(dsDisabled)}
+                    />
+                )}
+            </div>
+        </IntentControlField>
+    );
+}
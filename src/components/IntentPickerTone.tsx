@@ -10,7 +10,13 @@
 
 import * as React from "react";
 
-import type { ToneName, IntentInput, DocsPropRow, ComponentIdentity } from "../lib/intent/types";
+import type {
+    ControlSize,
+    ToneName,
+    IntentComponentInput,
+    DocsPropRow,
+    ComponentIdentity,
+} from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
 
 import { IntentControlField } from "./IntentControlField";
@@ -123,7 +129,7 @@ function Swatch({ tone }: { tone: ToneValue }) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentPickerToneProps = IntentInput &
+export type IntentPickerToneProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children" | "onChange"> & {
         className?: string;
 
@@ -160,7 +166,7 @@ export type IntentPickerToneProps = IntentInput &
 
         /** Select props */
         placeholder?: string; // default "Select…"
-        size?: "xs" | "sm" | "md" | "lg" | "xl"; // forwarded to IntentControlSelect
+        size?: ControlSize; // forwarded to IntentControlSelect
         fullWidth?: boolean; // forwarded to IntentControlSelect
         clearable?: boolean; // default false
 
@@ -353,7 +359,7 @@ export function IntentPickerTone(props: IntentPickerToneProps) {
         trailing,
 
         placeholder = "Select…",
-        size = "md",
+        size,
         fullWidth = true,
         clearable = false,
 
@@ -366,6 +372,10 @@ export function IntentPickerTone(props: IntentPickerToneProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
         ...divProps
@@ -419,17 +429,21 @@ export function IntentPickerTone(props: IntentPickerToneProps) {
     const selectedTone = normalizeToneValue(String(value));
 
     // ✅ exactOptionalPropertyTypes: do NOT pass undefined as a value
-    const dsInput: IntentInput = {
+    const dsInput: IntentComponentInput = {
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         ...(dsDisabled !== undefined ? { disabled: dsDisabled } : {}),
     };
 
-    const dsInput2: IntentInput = {
+    const dsInput2: IntentComponentInput = {
         ...(intent !== undefined ? { intent } : {}),
         // ...(variant !== undefined ? { variant } : {}),
         // ...(tone !== undefined ? { tone } : {}),
@@ -476,7 +490,7 @@ export function IntentPickerTone(props: IntentPickerToneProps) {
                         onChange(normalizeToneValue(next));
                     }}
                     placeholder={placeholder}
-                    size={size}
+                    {...(size !== undefined ? { size } : {})}
                     fullWidth={true}
                     clearable={clearable}
                     disabled={disabled}
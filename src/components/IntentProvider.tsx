@@ -0,0 +1,312 @@
+"use client";
+
+// src/components/IntentProvider.tsx
+// IntentProvider
+// - Supplies default IntentInput fields (mode, themeColor, intensity, variant, glow…) to every component
+// - Supplies the size / density of every sized control (useControlSize)
+// - Supplies the inline direction (dir) of direction-aware components (useIntentDirection)
+// - Local props always win over context defaults
+// - Nested providers merge over their parent (a subtree can switch mode without prop drilling)
+// - Renders no DOM (pure context)
+
+import * as React from "react";
+
+import type {
+    ControlSize,
+    Density,
+    Direction,
+    IntentComponentInput,
+    IntentInput,
+    IntentName,
+    IntentShorthand,
+    ModeName,
+    ModePreference,
+    ResolvedIntent,
+} from "../lib/intent/types";
+import { mergeIntentInput } from "../lib/intent/resolve";
+import { expandIntentShorthand } from "../lib/intent/shorthand";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { resolveControlSize } from "../lib/intent/density";
+import { toDirection } from "../lib/intent/direction";
+import {
+    SYSTEM_MODE_FALLBACK,
+    getSystemModePreference,
+    subscribeSystemMode,
+} from "../lib/intent/mode";
+
+import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
+import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
+
+/* ============================================================================
+   🧩 TYPES
+============================================================================ */
+
+/**
+ * Defaults a provider can supply.
+ * `disabled` is intentionally excluded: it is a local state, not an ambiance.
+ */
+export type IntentContextValue = Omit<IntentInput, "disabled">;
+
+/** Size defaults of a subtree (kept apart from the intent input). */
+export type IntentDensityContextValue = {
+    size?: ControlSize;
+    density?: Density;
+};
+
+export type IntentProviderProps = Omit<IntentContextValue, "intent"> &
+    IntentDensityContextValue & {
+        /** Intent name or shorthand ("warned/outlined/strong"). */
+        intent?: IntentName | IntentShorthand;
+        /** Inline direction of the subtree (forwarded as `dir` by direction-aware components). */
+        dir?: Direction;
+        children?: React.ReactNode;
+    };
+
+/* ============================================================================
+   🧠 CONTEXT
+============================================================================ */
+
+const IntentContext = React.createContext<IntentContextValue>({});
+
+/** Returns the merged defaults of the closest IntentProvider (empty object if none). */
+export function useIntentContext(): IntentContextValue {
+    return React.useContext(IntentContext);
+}
+
+const IntentDensityContext = React.createContext<IntentDensityContextValue>({});
+
+/** Returns the size / density defaults of the closest IntentProvider (empty object if none). */
+export function useIntentDensity(): IntentDensityContextValue {
+    return React.useContext(IntentDensityContext);
+}
+
+const IntentDirectionContext = React.createContext<Direction | undefined>(undefined);
+
+/**
+ * Direction of a direction-aware component.
+ * A local `dir` ("ltr" / "rtl") wins; otherwise the closest provider `dir`.
+ * undefined (no dir anywhere, or "auto") leaves the direction to the DOM.
+ */
+export function useIntentDirection(dir?: string): Direction | undefined {
+    const ctx = React.useContext(IntentDirectionContext);
+    if (dir === "auto") return undefined;
+    return toDirection(dir) ?? ctx;
+}
+
+/**
+ * Effective size of a sized component.
+ * A local `size` wins; otherwise the provider size (default "md") shifted by its density.
+ */
+export function useControlSize(size?: ControlSize): ControlSize {
+    return resolveControlSize(size, useIntentDensity());
+}
+
+const noopSubscribe = () => () => {};
+const fallbackMode = () => SYSTEM_MODE_FALLBACK;
+
+/**
+ * Live OS preference ("light" | "dark" | "high-contrast"), only subscribed when `active`.
+ * Server snapshot: fallback "dark".
+ */
+function useSystemModePreference(active: boolean): ModeName | "high-contrast" {
+    return React.useSyncExternalStore(
+        active ? subscribeSystemMode : noopSubscribe,
+        active ? getSystemModePreference : fallbackMode,
+        fallbackMode
+    );
+}
+
+/**
+ * Resolved color mode ("light" | "dark").
+ * - local `mode` wins over the provider mode
+ * - "system" tracks prefers-color-scheme and re-renders on change (SSR: fallback "dark")
+ * - high contrast (explicit or from the OS) resolves to the fallback scheme, like the resolver
+ */
+export function useIntentMode(mode?: ModePreference): ModeName {
+    const ctx = useIntentContext();
+    const preference = mode ?? ctx.mode;
+    const isSystem = preference === "system";
+
+    const system = useSystemModePreference(isSystem);
+
+    if (preference === "high-contrast" || system === "high-contrast") return SYSTEM_MODE_FALLBACK;
+    return isSystem ? system : (preference ?? SYSTEM_MODE_FALLBACK);
+}
+
+/**
+ * Merges context defaults with the local intent input of a component.
+ * Local values win; undefined local values fall back to the context.
+ * A shorthand `intent` ("warned/outlined +glow") is expanded first; explicit props win over it.
+ * mode="system" is replaced by the live OS preference (scheme or high contrast).
+ */
+export function useIntentInput(local: IntentComponentInput): IntentInput {
+    const ctx = useIntentContext();
+    const merged = mergeIntentInput(ctx, expandIntentShorthand(local));
+
+    const isSystem = merged.mode === "system";
+    const system = useSystemModePreference(isSystem);
+
+    return isSystem ? { ...merged, mode: system } : merged;
+}
+
+/**
+ * Context-aware, memoized resolveIntent().
+ * Equivalent inputs return the same ResolvedIntent object across renders
+ * (safe as a useMemo / React.memo dependency).
+ */
+export function useResolvedIntent(local: IntentComponentInput = {}): ResolvedIntent {
+    return resolveIntentCached(useIntentInput(local));
+}
+
+/* ============================================================================
+   📋 DOCS EXPORTS
+============================================================================ */
+
+const INTENT_PROVIDER_LOCAL_PROPS_TABLE: DocsPropRow[] = [
+    {
+        name: "children",
+        description: {
+            fr: "Sous-arbre recevant les valeurs par défaut.",
+            en: "Subtree receiving the defaults.",
+        },
+        type: "React.ReactNode",
+        required: false,
+        fromSystem: false,
+    },
+    {
+        name: "size",
+        description: {
+            fr: "Taille par défaut des composants dimensionnés (xs–xl). Une prop size locale prime.",
+            en: "Default size of every sized component (xs–xl). A local size prop wins.",
+        },
+        type: `"xs" | "sm" | "md" | "lg" | "xl"`,
+        required: false,
+        default: "md",
+        fromSystem: false,
+    },
+    {
+        name: "density",
+        description: {
+            fr: "Densité du sous-arbre : compact (un cran plus petit), comfortable, spacious (un cran plus grand).",
+            en: "Subtree density: compact (one step smaller), comfortable, spacious (one step larger).",
+        },
+        type: `"compact" | "comfortable" | "spacious"`,
+        required: false,
+        default: "comfortable",
+        fromSystem: false,
+    },
+    {
+        name: "dir",
+        description: {
+            fr: "Direction du sous-arbre (ltr/rtl), transmise en attribut dir par les composants sensibles à la direction (slots logiques, flèches clavier et glow en miroir). Une prop dir locale prime.",
+            en: "Subtree direction (ltr/rtl), forwarded as the dir attribute by direction-aware components (logical slots, mirrored arrow keys and glow). A local dir prop wins.",
+        },
+        type: `"ltr" | "rtl"`,
+        required: false,
+        default: "— (inherited from the DOM)",
+        fromSystem: false,
+    },
+];
+
+export const IntentProviderPropsTable: DocsPropRow[] = [
+    ...INTENT_PROVIDER_LOCAL_PROPS_TABLE,
+    ...SYSTEM_PROPS_TABLE.filter((row) => row.name !== "disabled"),
+];
+
+export const IntentProviderIdentity: ComponentIdentity = {
+    name: "IntentProvider",
+    kind: "layout",
+    description: {
+        fr: "Contexte fournissant les valeurs intent par défaut (mode, intensité, variant, glow), la taille / densité et la direction (ltr/rtl) à tous les composants. Les props locales priment, les providers imbriqués fusionnent.",
+        en: "Context supplying default intent values (mode, intensity, variant, glow), size / density and direction (ltr/rtl) to every component. Local props win, nested providers merge.",
+    },
+    since: "0.3.0",
+    docs: {
+        route: "/playground/components/IntentProvider",
+    },
+    anatomy: {
+        root: "none (React context only)",
+    },
+    classHooks: [],
+    exports: {
+        component: "IntentProvider",
+        propsTable: "IntentProviderPropsTable",
+        identity: "IntentProviderIdentity",
+    },
+};
+
+/* ============================================================================
+   ✅ MAIN
+============================================================================ */
+
+export function IntentProvider(props: IntentProviderProps) {
+    const {
+        children,
+        mode,
+        themeColor,
+        cssOutput,
+        intent,
+        variant,
+        tone,
+        glow,
+        intensity,
+        glowMotion,
+        elevation,
+        size,
+        density,
+        dir,
+    } = props;
+
+    const parent = useIntentContext();
+    const parentDensity = useIntentDensity();
+    const direction = useIntentDirection(dir);
+
+    const value = React.useMemo<IntentContextValue>(() => {
+        // `disabled` is local state: a "+disabled" shorthand flag is not inherited
+        const { disabled: _disabled, ...defaults } = expandIntentShorthand({
+            ...(mode !== undefined ? { mode } : {}),
+            ...(themeColor !== undefined ? { themeColor } : {}),
+            ...(cssOutput !== undefined ? { cssOutput } : {}),
+            ...(intent !== undefined ? { intent } : {}),
+            ...(variant !== undefined ? { variant } : {}),
+            ...(tone !== undefined ? { tone } : {}),
+            ...(glow !== undefined ? { glow } : {}),
+            ...(intensity !== undefined ? { intensity } : {}),
+            ...(glowMotion !== undefined ? { glowMotion } : {}),
+            ...(elevation !== undefined ? { elevation } : {}),
+        });
+
+        return mergeIntentInput(parent, defaults);
+    }, [
+        parent,
+        mode,
+        themeColor,
+        cssOutput,
+        intent,
+        variant,
+        tone,
+        glow,
+        intensity,
+        glowMotion,
+        elevation,
+    ]);
+
+    const densityValue = React.useMemo<IntentDensityContextValue>(
+        () => ({
+            ...parentDensity,
+            ...(size !== undefined ? { size } : {}),
+            ...(density !== undefined ? { density } : {}),
+        }),
+        [parentDensity, size, density]
+    );
+
+    return (
+        <IntentContext.Provider value={value}>
+            <IntentDensityContext.Provider value={densityValue}>
+                <IntentDirectionContext.Provider value={direction}>
+                    {children}
+                </IntentDirectionContext.Provider>
+            </IntentDensityContext.Provider>
+        </IntentContext.Provider>
+    );
+}
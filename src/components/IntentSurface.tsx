@@ -1,7 +1,11 @@
+"use client";
+
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentSurfaceProps } from "../lib/intent/resolve";
+import type { Elevation, IntentComponentInput } from "../lib/intent/types";
+import { getIntentSurfaceProps, stepNestedElevation } from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -10,11 +14,22 @@ function cn(...classes: Array<string | false | null | undefined>) {
     return classes.filter(Boolean).join(" ");
 }
 
-export type IntentSurfaceComponentProps<T extends React.ElementType = "div"> = IntentInput & {
-    as?: T;
-    className?: string;
-    children?: React.ReactNode;
-} & Omit<React.ComponentPropsWithoutRef<T>, "as" | "className" | "children">;
+export type IntentSurfaceComponentProps<T extends React.ElementType = "div"> =
+    IntentComponentInput & {
+        as?: T;
+        className?: string;
+        children?: React.ReactNode;
+        /** Inline direction ("ltr" / "rtl"); defaults to the IntentProvider dir. */
+        dir?: string;
+    } & Omit<React.ComponentPropsWithoutRef<T>, "as" | "className" | "children">;
+
+/* ============================================================================
+   🪜 ELEVATION CONTEXT
+   - elevation of the closest elevated IntentSurface (null = none)
+   - a nested elevated surface without an elevation (prop or IntentProvider) sits one level above it
+============================================================================ */
+
+const IntentSurfaceElevationContext = React.createContext<Elevation | null>(null);
 
 /* ============================================================================
    📋 DOCS EXPORTS
@@ -73,8 +88,8 @@ export const IntentSurfaceIdentity: ComponentIdentity = {
     name: "IntentSurface",
     kind: "surface",
     description: {
-        fr: "Surface intent-first appliquant les variables CSS et hooks visuels via resolveIntent().",
-        en: "Intent-first surface applying CSS variables and visual hooks via resolveIntent().",
+        fr: "Surface intent-first appliquant les variables CSS et hooks visuels via resolveIntent(). Les surfaces elevated imbriquées montent d’un niveau d’élévation.",
+        en: "Intent-first surface applying CSS variables and visual hooks via resolveIntent(). Nested elevated surfaces step up one elevation level.",
     },
     since: "0.1.0",
     docs: {
@@ -104,12 +119,16 @@ export const IntentSurfaceIdentity: ComponentIdentity = {
 export function IntentSurface<T extends React.ElementType = "div">(
     props: IntentSurfaceComponentProps<T>
 ) {
-    const { as, className, children, ...intentInput } = props;
+    const { as, className, children, dir, ...intentInput } = props;
 
     const Tag = (as ?? "div") as React.ElementType;
 
-    const resolved = resolveIntent(intentInput);
+    const parentElevation = React.useContext(IntentSurfaceElevationContext);
+    const resolved = resolveIntentCached(
+        stepNestedElevation(useIntentInput(intentInput), parentElevation)
+    );
     const surfaceProps = getIntentSurfaceProps(resolved, className);
+    const direction = useIntentDirection(dir);
 
     const hasGlow = Boolean(resolved.glowBackground);
     const variant = resolved.variant;
@@ -118,38 +137,45 @@ export function IntentSurface<T extends React.ElementType = "div">(
     const isGlowed = resolved.intent === "glowed";
 
     const allowFillGlow = glowAllowed && (isGlowed || variant === "flat" || variant === "elevated");
-    const allowBorderGlow = glowAllowed && (variant === "outlined" || variant === "elevated");
+    const allowBorderGlow = glowAllowed && variant !== "flat"; // outlined / elevated / solid / glass
 
     const readOpacity = (key: "--intent-glow-fill-opacity" | "--intent-glow-border-opacity") => {
-        const raw = resolved.style?.[key] ?? "0";
+        // static output: the layer inherits the var from the stylesheet (.intent-glow-*)
+        if (!resolved.style) return undefined;
+        const raw = resolved.style[key] ?? "0";
         const n = Number(raw.toString());
         return Number.isFinite(n) ? n : 0;
     };
 
+    // non-elevated surfaces are transparent to the stepping
+    const elevation = variant === "elevated" ? resolved.elevation : parentElevation;
+
     return (
-        <Tag {...surfaceProps}>
-            {glowAllowed ? (
-                <>
-                    {allowFillGlow ? (
-                        <div
-                            className={cn("intent-glow-layer intent-glow-fill")}
-                            style={{ opacity: readOpacity("--intent-glow-fill-opacity") }}
-                        />
-                    ) : null}
-
-                    {allowBorderGlow ? (
-                        <div
-                            className={cn("intent-glow-layer intent-glow-border")}
-                            style={{
-                                opacity: readOpacity("--intent-glow-border-opacity"),
-                                borderRadius: "inherit",
-                            }}
-                        />
-                    ) : null}
-                </>
-            ) : null}
-
-            <div className="relative z-10">{children}</div>
-        </Tag>
+        <IntentSurfaceElevationContext.Provider value={elevation}>
+            <Tag {...surfaceProps} dir={direction}>
+                {glowAllowed ? (
+                    <>
+                        {allowFillGlow ? (
+                            <div
+                                className={cn("intent-glow-layer intent-glow-fill")}
+                                style={{ opacity: readOpacity("--intent-glow-fill-opacity") }}
+                            />
+                        ) : null}
+
+                        {allowBorderGlow ? (
+                            <div
+                                className={cn("intent-glow-layer intent-glow-border")}
+                                style={{
+                                    opacity: readOpacity("--intent-glow-border-opacity"),
+                                    borderRadius: "inherit",
+                                }}
+                            />
+                        ) : null}
+                    </>
+                ) : null}
+
+                <div className="relative z-10">{children}</div>
+            </Tag>
+        </IntentSurfaceElevationContext.Provider>
     );
 }
@@ -9,8 +9,14 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentLayoutProps, composeIntentClassName } from "../lib/intent/resolve";
+import type { IntentComponentInput, IntentInput } from "../lib/intent/types";
+import {
+    getIntentLayoutProps,
+    composeIntentClassName,
+    getIntentDataAttributes,
+} from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -70,7 +76,7 @@ export type IntentTableRowTone<T> =
     | IntentInput
     | ((row: T, rowIndex: number) => IntentInput | null | undefined);
 
-export type IntentTableProps<T> = IntentInput &
+export type IntentTableProps<T> = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children"> & {
         className?: string;
 
@@ -357,6 +363,10 @@ export function IntentTable<T>(props: IntentTableProps<T>) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
         ...divProps
@@ -364,17 +374,21 @@ export function IntentTable<T>(props: IntentTableProps<T>) {
 
     const disabled = Boolean(dsDisabled);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     // Root: layout vars only (let CSS recipe paint the surface)
     const layoutProps = getIntentLayoutProps(resolved, className);
@@ -455,6 +469,7 @@ export function IntentTable<T>(props: IntentTableProps<T>) {
     return (
         <div
             {...divProps}
+            {...getIntentDataAttributes(resolved)}
             style={layoutProps.style}
             className={cn(layoutProps.className, rootCls, surfaceClass)}
             data-intent={resolved.intent}
@@ -532,7 +547,7 @@ export function IntentTable<T>(props: IntentTableProps<T>) {
 
                                 const perRowIntent = renderRowIntent(row, rowIndex);
                                 const rowResolved = perRowIntent
-                                    ? resolveIntent({ ...intentInput, ...perRowIntent })
+                                    ? resolveIntentCached({ ...intentInput, ...perRowIntent })
                                     : null;
 
                                 return (
@@ -545,6 +560,9 @@ export function IntentTable<T>(props: IntentTableProps<T>) {
                                         )}
                                         data-selected={selected ? "true" : "false"}
                                         data-row-intent={rowResolved?.intent ?? undefined}
+                                        {...(rowResolved
+                                            ? getIntentDataAttributes(rowResolved)
+                                            : {})}
                                         style={rowResolved?.style as any}
                                         onClick={
                                             selectable && !disabled
@@ -8,8 +8,14 @@
 
 import * as React from "react";
 
-import type { IntentInput } from "../lib/intent/types";
-import { resolveIntent, getIntentLayoutProps, composeIntentClassName } from "../lib/intent/resolve";
+import type { IntentComponentInput } from "../lib/intent/types";
+import {
+    getIntentLayoutProps,
+    composeIntentClassName,
+    getIntentDataAttributes,
+} from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { useIntentDirection, useIntentInput } from "./IntentProvider";
 
 import type { DocsPropRow, ComponentIdentity } from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
@@ -26,16 +32,26 @@ function cn(...classes: Array<string | false | null | undefined>) {
    🧩 TYPES
 ============================================================================ */
 
-export type IntentToastPlacement = "top-right" | "top-left" | "bottom-right" | "bottom-left";
-
-export type IntentToastProps = IntentInput &
+/** start / end follow the direction (top-end is top-left in rtl), left / right stay physical. */
+export type IntentToastPlacement =
+    | "top-start"
+    | "top-end"
+    | "bottom-start"
+    | "bottom-end"
+    | "top-right"
+    | "top-left"
+    | "bottom-right"
+    | "bottom-left";
+
+export type IntentToastProps = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children"> & {
         className?: string;
 
         title?: React.ReactNode;
         description?: React.ReactNode;
 
-        leftIcon?: React.ReactNode;
+        startIcon?: React.ReactNode; // logical: mirrors in rtl
+        leftIcon?: React.ReactNode; // physical: stays on the left in rtl
         action?: React.ReactNode;
 
         open?: boolean;
@@ -67,9 +83,19 @@ const INTENT_TOAST_LOCAL_PROPS_TABLE: DocsPropRow[] = [
         required: false,
         fromSystem: false,
     },
+    {
+        name: "startIcon",
+        description: {
+            fr: "Icône en début de toast (à droite en rtl).",
+            en: "Icon at the start of the toast (right in rtl).",
+        },
+        type: "React.ReactNode",
+        required: false,
+        fromSystem: false,
+    },
     {
         name: "leftIcon",
-        description: { fr: "Icône à gauche.", en: "Left icon." },
+        description: { fr: "Icône à gauche, y compris en rtl.", en: "Left icon, also in rtl." },
         type: "React.ReactNode",
         required: false,
         fromSystem: false,
@@ -121,12 +147,12 @@ const INTENT_TOAST_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "placement",
         description: {
-            fr: "Position à l’écran.",
-            en: "Screen placement.",
+            fr: "Position à l’écran : start/end suivent la direction (top-end = en haut à gauche en rtl), left/right restent physiques.",
+            en: "Screen placement: start/end follow the direction (top-end = top left in rtl), left/right stay physical.",
         },
-        type: `"top-right" | "top-left" | "bottom-right" | "bottom-left"`,
+        type: "IntentToastPlacement",
         required: false,
-        default: "top-right",
+        default: "top-end",
         fromSystem: false,
     },
 ];
@@ -167,6 +193,7 @@ export function IntentToast(props: IntentToastProps) {
 
         title,
         description,
+        startIcon,
         leftIcon,
         action,
 
@@ -176,7 +203,9 @@ export function IntentToast(props: IntentToastProps) {
 
         duration = 4000,
         dismissible = true,
-        placement = "top-right",
+        placement = "top-end",
+
+        dir,
 
         // DS props
         intent,
@@ -185,12 +214,17 @@ export function IntentToast(props: IntentToastProps) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
         ...divProps
     } = props;
 
     const disabled = Boolean(dsDisabled);
+    const direction = useIntentDirection(dir);
 
     const [openUncontrolled, setOpenUncontrolled] = React.useState(defaultOpen);
     const isControlled = openProp !== undefined;
@@ -210,17 +244,21 @@ export function IntentToast(props: IntentToastProps) {
         return () => window.clearTimeout(t);
     }, [open, duration, setOpen]);
 
-    const intentInput: IntentInput = {
+    const intentInput = useIntentInput({
         ...(intent ? { intent } : {}),
         ...(variant ? { variant } : {}),
         ...(tone ? { tone } : {}),
         ...(glow ? { glow } : {}),
-        ...(intensity ? { intensity } : {}),
+        ...(intensity !== undefined ? { intensity } : {}),
         ...(mode ? { mode } : {}),
+        ...(themeColor ? { themeColor } : {}),
+        ...(cssOutput ? { cssOutput } : {}),
+        ...(glowMotion ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
 
     const layoutProps = getIntentLayoutProps(resolved, className);
     const surfaceClass = composeIntentClassName(resolved);
@@ -232,13 +270,16 @@ export function IntentToast(props: IntentToastProps) {
             {...divProps}
             role="status"
             aria-live="polite"
+            dir={direction}
+            {...getIntentDataAttributes(resolved)}
             style={layoutProps.style}
             className={cn(layoutProps.className, "intent-toast", `is-${placement}`, surfaceClass)}
             data-intent={resolved.intent}
             data-variant={resolved.variant}
             data-mode={resolved.mode}
         >
-            {leftIcon ? <div className="intent-toast-icon">{leftIcon}</div> : null}
+            {startIcon ? <div className="intent-toast-icon">{startIcon}</div> : null}
+            {leftIcon ? <div className="intent-toast-icon is-left">{leftIcon}</div> : null}
 
             <div className="intent-toast-content">
                 {title ? <div className="intent-toast-title">{title}</div> : null}
@@ -17,9 +17,22 @@
 
 import * as React from "react";
 
-import type { IntentInput, DocsPropRow, ComponentIdentity } from "../lib/intent/types";
+import type {
+    Direction,
+    IntentComponentInput,
+    IntentInput,
+    DocsPropRow,
+    ComponentIdentity,
+} from "../lib/intent/types";
 import { SYSTEM_PROPS_TABLE } from "../lib/intent/props";
-import { resolveIntent, getIntentLayoutProps, composeIntentClassName } from "../lib/intent/resolve";
+import {
+    getIntentLayoutProps,
+    composeIntentClassName,
+    getIntentDataAttributes,
+} from "../lib/intent/resolve";
+import { resolveIntentCached } from "../lib/intent/cache";
+import { getElementDirection, getInlineEdges, mirrorInlineX } from "../lib/intent/direction";
+import { useIntentDirection, useIntentInput } from "./IntentProvider";
 
 /* ============================================================================
    🧰 HELPERS
@@ -133,7 +146,16 @@ export type IntentTreeToolbarAction =
     | "collapse_all"
     | "toggle_grid";
 
-export type IntentTreeToolbarPosition = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+/** start / end follow the direction, left / right stay physical. */
+export type IntentTreeToolbarPosition =
+    | "top-start"
+    | "top-end"
+    | "bottom-start"
+    | "bottom-end"
+    | "top-left"
+    | "top-right"
+    | "bottom-left"
+    | "bottom-right";
 
 export type IntentTreeOrientation = "vertical" | "horizontal";
 export type IntentTreeLinkStyle = "curve" | "elbow" | "straight";
@@ -187,7 +209,7 @@ export type IntentTreeComputedNode<T> = {
 
 export type IntentTreeLayoutMode = "auto" | "custom";
 
-export type IntentTreeProps<T> = IntentInput &
+export type IntentTreeProps<T> = IntentComponentInput &
     Omit<React.HTMLAttributes<HTMLDivElement>, "className" | "children" | "onChange"> & {
         className?: string;
 
@@ -296,7 +318,7 @@ export type IntentTreeProps<T> = IntentInput &
         /** Toolbar */
         toolbar?: boolean; // default true
         toolbarActions?: IntentTreeToolbarAction[]; // default set
-        toolbarPosition?: IntentTreeToolbarPosition; // default "top-left"
+        toolbarPosition?: IntentTreeToolbarPosition; // default "top-start"
 
         /** Node meta accessors */
         getTone?: (node: T) => string | null | undefined;
@@ -362,8 +384,8 @@ const INTENT_TREE_LOCAL_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "orientation",
         description: {
-            fr: "Orientation: vertical/horizontal.",
-            en: "Orientation: vertical/horizontal.",
+            fr: "Orientation: vertical/horizontal. En rtl, la disposition auto est en miroir (horizontal : racine à droite).",
+            en: "Orientation: vertical/horizontal. In rtl the auto layout is mirrored (horizontal: root on the right).",
         },
         type: `"vertical" | "horizontal"`,
         required: false,
@@ -783,6 +805,7 @@ function computeAutoLayout<T>(args: {
     orderById: Map<string, number>;
     childrenById: Map<string, string[]>;
     orientation: IntentTreeOrientation;
+    direction: Direction;
     nodeWidth: number;
     nodeHeight: number;
     levelGap: number;
@@ -793,6 +816,7 @@ function computeAutoLayout<T>(args: {
         orderById,
         childrenById,
         orientation,
+        direction,
         nodeWidth,
         nodeHeight,
         levelGap,
@@ -831,7 +855,8 @@ function computeAutoLayout<T>(args: {
             data: n.data,
             depth: n.depth,
             order,
-            x,
+            // rtl: mirror around x = 0 (depth grows leftward, siblings read right-to-left)
+            x: mirrorInlineX(x, nodeWidth, direction),
             y,
             childrenIds: childrenById.get(n.id) ?? [],
         });
@@ -1002,7 +1027,7 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
             "collapse_all",
             "toggle_grid",
         ],
-        toolbarPosition = "top-left",
+        toolbarPosition = "top-start",
 
         getTone,
         getDates,
@@ -1017,24 +1042,39 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
         glow,
         intensity,
         mode,
+        themeColor,
+        cssOutput,
+        glowMotion,
+        elevation,
         disabled: dsDisabled,
 
+        dir: dirProp,
+
         ...divProps
     } = props;
 
     const disabled = Boolean(dsDisabled);
 
-    const intentInput: IntentInput = {
+    // Explicit / provider direction, else the inherited DOM direction (read after mount)
+    const explicitDirection = useIntentDirection(dirProp);
+    const [domDirection, setDomDirection] = React.useState<Direction>("ltr");
+    const direction = explicitDirection ?? domDirection;
+
+    const intentInput = useIntentInput({
         ...(intent !== undefined ? { intent } : {}),
         ...(variant !== undefined ? { variant } : {}),
         ...(tone !== undefined ? { tone } : {}),
         ...(glow !== undefined ? { glow } : {}),
         ...(intensity !== undefined ? { intensity } : {}),
         ...(mode !== undefined ? { mode } : {}),
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        ...(cssOutput !== undefined ? { cssOutput } : {}),
+        ...(glowMotion !== undefined ? { glowMotion } : {}),
+        ...(elevation !== undefined ? { elevation } : {}),
         disabled,
-    };
+    });
 
-    const resolved = resolveIntent(intentInput);
+    const resolved = resolveIntentCached(intentInput);
     const layoutProps = getIntentLayoutProps(resolved, className);
     const surfaceClass = composeIntentClassName(resolved);
 
@@ -1102,6 +1142,7 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
             orderById,
             childrenById,
             orientation,
+            direction,
             nodeWidth,
             nodeHeight,
             levelGap,
@@ -1112,6 +1153,7 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
         layout,
         getNodePosition,
         orientation,
+        direction,
         nodeWidth,
         nodeHeight,
         levelGap,
@@ -1238,6 +1280,10 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
     const rootRef = React.useRef<HTMLDivElement | null>(null);
     const svgRef = React.useRef<SVGSVGElement | null>(null);
 
+    React.useLayoutEffect(() => {
+        if (!explicitDirection) setDomDirection(getElementDirection(rootRef.current));
+    }, [explicitDirection]);
+
     const [svgSize, setSvgSize] = React.useState<{ w: number; h: number }>({ w: 1, h: 1 });
 
     React.useLayoutEffect(() => {
@@ -1804,6 +1850,8 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
         return (
             <div
                 {...divProps}
+                dir={explicitDirection}
+                {...getIntentDataAttributes(resolved)}
                 style={layoutProps.style}
                 className={cn(layoutProps.className, rootCls, className)}
                 data-intent={resolved.intent}
@@ -1965,6 +2013,8 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
         <div
             {...divProps}
             ref={rootRef}
+            dir={explicitDirection}
+            {...getIntentDataAttributes(resolved)}
             style={layoutProps.style}
             className={cn(layoutProps.className, rootCls, className)}
             data-intent={resolved.intent}
@@ -2192,13 +2242,14 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
                             const tx = target.x + nodeWidth / 2;
                             const ty = target.y;
 
+                            // horizontal: parent inline end → child inline start
                             const a =
                                 orientation === "vertical"
                                     ? { sx, sy, tx, ty }
                                     : {
-                                          sx: source.x + nodeWidth,
+                                          sx: getInlineEdges(source.x, nodeWidth, direction).end,
                                           sy: source.y + nodeHeight / 2,
-                                          tx: target.x,
+                                          tx: getInlineEdges(target.x, nodeWidth, direction).start,
                                           ty: target.y + nodeHeight / 2,
                                       };
 
@@ -2248,7 +2299,7 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
 
                             const perNodeIntent = resolveNodeIntent(n.data);
                             const nodeResolved = perNodeIntent
-                                ? resolveIntent({ ...intentInput, ...perNodeIntent })
+                                ? resolveIntentCached({ ...intentInput, ...perNodeIntent })
                                 : null;
 
                             const ctx: IntentTreeNodeRenderContext<T> = {
@@ -2282,6 +2333,7 @@ export function IntentTree<T>(props: IntentTreeProps<T>) {
                                     data-node-selected={isSelected ? "true" : "false"}
                                     data-node-collapsed={isCollapsed ? "true" : "false"}
                                     data-node-intent={nodeResolved?.intent ?? undefined}
+                                    {...(nodeResolved ? getIntentDataAttributes(nodeResolved) : {})}
                                     style={nodeResolved?.style as any}
                                     onClick={() => (selectable ? ctx.select() : undefined)}
                                 >
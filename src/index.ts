@@ -4,7 +4,43 @@ export const INTENT_DESIGN_SYSTEM_VERSION = "0.1.0";
 export * from "./lib/intent/types";
 export * from "./lib/intent/mapping";
 export * from "./lib/intent/resolve";
+export * from "./lib/intent/registry";
+export * from "./lib/intent/mode";
+export * from "./lib/intent/density";
+export * from "./lib/intent/direction";
+export * from "./lib/intent/cache";
+export * from "./lib/intent/contrast";
+export * from "./lib/intent/distinguish";
+export * from "./lib/intent/static";
+export * from "./lib/intent/parse";
+export * from "./lib/intent/shorthand";
 
+export { getThemeCssVars, getThemeRgb } from "./lib/colors/themeHelpers";
+export type {
+    ColorMixSpace,
+    ColorVisionDeficiency,
+    HueInterpolation,
+    Lab,
+    Lch,
+    Oklab,
+    Oklch,
+    Rgba,
+} from "./lib/colors/colorHelpers";
+export {
+    COLOR_VISION_DEFICIENCIES,
+    cssColorToRgba,
+    deltaEOK,
+    evaluateColorMix,
+    mixColors,
+    simulateColorVision,
+} from "./lib/colors/colorHelpers";
+export * from "./lib/colors/toneRamp";
+
+export * from "./lib/tokens/model";
+export * from "./lib/tokens/dtcg";
+export * from "./lib/tokens/css";
+
+export * from "./components/IntentProvider";
 export * from "./components/IntentSurface";
 export * from "./components/IntentControlButton";
 export * from "./components/IntentControlLink";
@@ -24,4 +60,5 @@ export * from "./components/IntentCodeViewer";
 export * from "./components/IntentTable";
 export * from "./components/IntentPickerTone";
 export * from "./components/IntentPickerGlow";
+export * from "./components/IntentPickerIntensity";
 export * from "./components/IntentTree";
@@ -27,6 +27,26 @@ import {
     toCssRgba,
     toCssHsl,
     toCssHsla,
+    toCssOklab,
+    toCssOklch,
+    toCssLab,
+    toCssLch,
+    rgbToOklab,
+    oklabToRgb,
+    rgbToOklch,
+    oklchToRgb,
+    oklabToOklch,
+    oklchToOklab,
+    rgbToLab,
+    labToRgb,
+    rgbToLch,
+    lchToRgb,
+    mixColors,
+    evaluateColorMix,
+    simulateColorVision,
+    simulateDeuteranopia,
+    deltaEOK,
+    COLOR_VISION_DEFICIENCIES,
 } from "../colorHelpers";
 
 /* ============================================================================
@@ -178,6 +198,12 @@ describe("colorHelpers: css parsing", () => {
         expectNumberClose(rgba!.a, 1, 1e-6);
     });
 
+    it("cssColorToRgba: oklch()", () => {
+        expectRgbClose(cssColorToRgba("oklch(0.628 0.2577 29.23)")!, { r: 255, g: 0, b: 0 }, 2);
+        expect(cssColorToRgba("oklch(100% 0 0)")).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+        expectNumberClose(cssColorToRgba("oklch(62.8% 0.26 29deg / 50%)")!.a, 0.5, 1e-6);
+    });
+
     it("cssColorToHex: converts rgb/hsl to hex", () => {
         expect(cssColorToHex("rgb(255 204 0)")).toBe("#ffcc00");
         expect(cssColorToHex("hsl(48 100% 50%)")).toBe("#ffcc00");
@@ -196,6 +222,214 @@ describe("colorHelpers: css parsing", () => {
     });
 });
 
+/* ============================================================================
+   MODERN COLOR SPACES
+============================================================================ */
+
+const ROUND_TRIP_HEX = [
+    "#000000",
+    "#ffffff",
+    "#ff0000",
+    "#00ff88",
+    "#3b82f6",
+    "#f59e0b",
+    "#6b7280",
+];
+
+describe("colorHelpers: oklab / oklch / lab / lch", () => {
+    it("rgb -> oklab / lab / lch: reference values (sRGB red)", () => {
+        const red = { r: 255, g: 0, b: 0 };
+
+        const oklab = rgbToOklab(red);
+        expectNumberClose(oklab.l, 0.628, 1e-3);
+        expectNumberClose(oklab.a, 0.2249, 1e-3);
+        expectNumberClose(oklab.b, 0.1258, 1e-3);
+
+        const lab = rgbToLab(red);
+        expectNumberClose(lab.l, 54.29, 0.05);
+        expectNumberClose(lab.a, 80.82, 0.1);
+        expectNumberClose(lab.b, 69.88, 0.1);
+
+        const lch = rgbToLch(red);
+        expectNumberClose(lch.c, 106.84, 0.1);
+        expectNumberClose(lch.h, 40.85, 0.1);
+    });
+
+    it("round-trips rgb through every space", () => {
+        for (const hex of ROUND_TRIP_HEX) {
+            const rgb = hexToRgb(hex)!;
+
+            expectRgbClose(oklabToRgb(rgbToOklab(rgb)), rgb, 1);
+            expectRgbClose(oklchToRgb(rgbToOklch(rgb)), rgb, 1);
+            expectRgbClose(labToRgb(rgbToLab(rgb)), rgb, 1);
+            expectRgbClose(lchToRgb(rgbToLch(rgb)), rgb, 1);
+        }
+    });
+
+    it("oklab <-> oklch", () => {
+        const oklch = oklabToOklch({ l: 0.7, a: 0.1, b: 0.1 });
+        expectNumberClose(oklch.c, Math.SQRT2 * 0.1, 1e-6);
+        expectNumberClose(oklch.h, 45, 1e-6);
+
+        const oklab = oklchToOklab(oklch);
+        expectNumberClose(oklab.a, 0.1, 1e-6);
+        expectNumberClose(oklab.b, 0.1, 1e-6);
+    });
+
+    it("grays have chroma ~0 and hue 0", () => {
+        const lch = rgbToLch({ r: 128, g: 128, b: 128 });
+        expectNumberClose(lch.c, 0, 0.015);
+        expect(lch.h).toBe(0);
+        expect(rgbToOklch({ r: 128, g: 128, b: 128 }).h).toBe(0);
+    });
+
+    it("parseCssColor: oklab() / lab() / lch() (numbers, percentages, none, alpha)", () => {
+        expect(parseCssColor("oklab(0.5 0.1 -0.1)")).toEqual({
+            kind: "oklab",
+            value: { l: 0.5, a: 0.1, b: -0.1 },
+            alpha: 1,
+        });
+        expect(parseCssColor("oklab(50% 25% -25% / 0.5)")).toEqual({
+            kind: "oklab",
+            value: { l: 0.5, a: 0.1, b: -0.1 },
+            alpha: 0.5,
+        });
+        expect(parseCssColor("lab(50% 40% none)")).toEqual({
+            kind: "lab",
+            value: { l: 50, a: 50, b: 0 },
+            alpha: 1,
+        });
+        expect(parseCssColor("LCH(60 50% 120deg / 25%)")).toEqual({
+            kind: "lch",
+            value: { l: 60, c: 75, h: 120 },
+            alpha: 0.25,
+        });
+        expect(parseCssColor("oklch(0.7 none none)")).toEqual({
+            kind: "oklch",
+            value: { l: 0.7, c: 0, h: 0 },
+            alpha: 1,
+        });
+        expect(parseCssColor("lab(50 wat 0)")).toBe(null);
+    });
+
+    it("cssColorToRgba: real token values", () => {
+        // --ids-color-amber-500 / red-500 in tokens.css
+        expectRgbClose(cssColorToRgba("oklch(0.769 0.188 70.08)")!, { r: 254, g: 154, b: 0 }, 2);
+        expectRgbClose(cssColorToRgba("oklch(0.637 0.237 25.331)")!, { r: 251, g: 44, b: 54 }, 2);
+        expectRgbClose(cssColorToRgba("lab(54.29 80.82 69.88)")!, { r: 255, g: 0, b: 0 }, 1);
+        expectRgbClose(cssColorToRgba("lch(54.29 106.84 40.85)")!, { r: 255, g: 0, b: 0 }, 1);
+        expectRgbClose(cssColorToRgba("oklab(0.628 0.2249 0.1258)")!, { r: 255, g: 0, b: 0 }, 1);
+        expect(cssColorToRgba("transparent")).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+    });
+
+    it("toCss* output parses back to the same color", () => {
+        // serialized with 3-4 decimals: allow one extra step of rounding drift
+        for (const hex of ROUND_TRIP_HEX) {
+            const rgb = hexToRgb(hex)!;
+
+            expectRgbClose(cssColorToRgba(toCssOklab(rgbToOklab(rgb)))!, rgb, 2);
+            expectRgbClose(cssColorToRgba(toCssOklch(rgbToOklch(rgb)))!, rgb, 2);
+            expectRgbClose(cssColorToRgba(toCssLab(rgbToLab(rgb)))!, rgb, 2);
+            expectRgbClose(cssColorToRgba(toCssLch(rgbToLch(rgb)))!, rgb, 2);
+        }
+    });
+});
+
+/* ============================================================================
+   COLOR-MIX()
+============================================================================ */
+
+describe("colorHelpers: color-mix()", () => {
+    it("srgb: 50/50 by default", () => {
+        expect(evaluateColorMix("color-mix(in srgb, red, blue)")).toBeNull(); // named colors unsupported
+        expect(evaluateColorMix("color-mix(in srgb, #ff0000, #0000ff)")).toEqual({
+            r: 128,
+            g: 0,
+            b: 128,
+            a: 1,
+        });
+    });
+
+    it("percentages: complement, scale-down, alpha multiplier", () => {
+        const a = evaluateColorMix("color-mix(in srgb, #ff0000 25%, #0000ff)")!;
+        expect(a).toMatchObject({ r: 64, g: 0, b: 191 });
+
+        const b = evaluateColorMix("color-mix(in srgb, 75% #0000ff, #ff0000)")!;
+        expect(b).toEqual(a);
+
+        const c = evaluateColorMix("color-mix(in srgb, #ff0000 150%, #0000ff)");
+        expect(c).toBeNull();
+
+        const d = evaluateColorMix("color-mix(in srgb, #ff0000 80%, #0000ff 80%)")!;
+        expect(d).toEqual({ r: 128, g: 0, b: 128, a: 1 });
+
+        const e = evaluateColorMix("color-mix(in srgb, #ff0000 30%, #0000ff 30%)")!;
+        expect(e).toMatchObject({ r: 128, g: 0, b: 128 });
+        expectNumberClose(e.a, 0.6, 1e-6);
+    });
+
+    it("mixing with transparent keeps the color (premultiplied alpha)", () => {
+        const mixed = evaluateColorMix("color-mix(in oklab, #f59e0b 12%, transparent)")!;
+        expectRgbClose(mixed, { r: 245, g: 158, b: 11 }, 1);
+        expectNumberClose(mixed.a, 0.12, 1e-6);
+    });
+
+    it("polar spaces: hue interpolation + missing hues", () => {
+        const shorter = evaluateColorMix("color-mix(in oklch, #ff0000, #0000ff)")!;
+        const longer = evaluateColorMix("color-mix(in oklch longer hue, #ff0000, #0000ff)")!;
+        expect(shorter.b).toBeGreaterThan(shorter.g); // through magenta
+        expect(longer.g).toBeGreaterThan(longer.b); // through green
+
+        // white has no hue: the mix stays on red's hue
+        const pink = evaluateColorMix("color-mix(in oklch, #ffffff, #ff0000)")!;
+        expectNumberClose(rgbToOklch(pink).h, rgbToOklch({ r: 255, g: 0, b: 0 }).h, 3);
+    });
+
+    it("mixColors matches color-mix()", () => {
+        const a = { r: 59, g: 130, b: 246, a: 1 };
+        const b = { r: 245, g: 158, b: 11, a: 1 };
+
+        for (const space of [
+            "srgb",
+            "srgb-linear",
+            "hsl",
+            "oklab",
+            "oklch",
+            "lab",
+            "lch",
+        ] as const) {
+            expect(mixColors(a, b, 0.3, space)).toEqual(
+                evaluateColorMix(`color-mix(in ${space}, #3b82f6 70%, #f59e0b)`)
+            );
+        }
+        expect(mixColors(a, b, 0, "oklab")).toEqual(a);
+    });
+
+    it("nested color-mix() and custom resolvers (var() -> token values)", () => {
+        expect(
+            evaluateColorMix("color-mix(in srgb, color-mix(in srgb, #ff0000, #0000ff), #ffffff 0%)")
+        ).toEqual({ r: 128, g: 0, b: 128, a: 1 });
+
+        const tokens: Record<string, string> = { "var(--brand)": "oklch(0.628 0.2577 29.23)" };
+        const resolve = (value: string) => cssColorToRgba(tokens[value] ?? value);
+
+        const mixed = evaluateColorMix(
+            "color-mix(in oklab, var(--brand) 50%, transparent)",
+            resolve
+        )!;
+        expectRgbClose(mixed, { r: 255, g: 0, b: 0 }, 2);
+        expectNumberClose(mixed.a, 0.5, 1e-6);
+    });
+
+    it("cssColorToRgba evaluates color-mix(); unsupported input returns null", () => {
+        expect(cssColorToRgba("color-mix(in oklab, #000000, #ffffff)")).not.toBeNull();
+        expect(cssColorToRgba("color-mix(in xyz, #000000, #ffffff)")).toBeNull();
+        expect(cssColorToRgba("color-mix(in srgb, #000000)")).toBeNull();
+        expect(cssColorToRgba("color-mix(in srgb, var(--x), #ffffff)")).toBeNull();
+        expect(cssColorToRgba("color-mix(in srgb, #000 0%, #fff 0%)")).toBeNull();
+    });
+});
+
 /* ============================================================================
    OPERATIONS
 ============================================================================ */
@@ -252,3 +486,38 @@ describe("colorHelpers: css output formatting", () => {
         expect(toCssHsla({ h: 48, s: 100, l: 50, a: 0.5 })).toBe("hsl(48 100% 50% / 0.5)");
     });
 });
+
+/* ============================================================================
+   COLOR VISION DEFICIENCY
+============================================================================ */
+
+describe("colorHelpers: color vision deficiency", () => {
+    it("grays are unaffected", () => {
+        for (const deficiency of COLOR_VISION_DEFICIENCIES) {
+            for (const v of [0, 128, 255]) {
+                const gray = { r: v, g: v, b: v };
+                expectRgbClose(simulateColorVision(gray, deficiency), gray, 1);
+            }
+        }
+    });
+
+    it("severity 0 is normal vision", () => {
+        const rgb = { r: 244, g: 63, b: 94 };
+        expect(simulateColorVision(rgb, "protanopia", 0)).toEqual(rgb);
+    });
+
+    it("red / green collapse under deuteranopia", () => {
+        const emerald = { r: 16, g: 185, b: 129 };
+        const rose = { r: 244, g: 63, b: 94 };
+
+        expect(deltaEOK(emerald, rose)).toBeGreaterThan(0.3);
+        expect(deltaEOK(simulateDeuteranopia(emerald), simulateDeuteranopia(rose))).toBeLessThan(
+            0.1
+        );
+    });
+
+    it("deltaEOK: identity and black / white", () => {
+        expect(deltaEOK({ r: 10, g: 20, b: 30 }, { r: 10, g: 20, b: 30 })).toBe(0);
+        expectNumberClose(deltaEOK({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 }), 1, 1e-3);
+    });
+});
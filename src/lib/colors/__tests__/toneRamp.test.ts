@@ -0,0 +1,54 @@
+// src/lib/colors/__tests__/toneRamp.test.ts
+// Vitest tests for the tone ramp generator
+// - Ramps stay close to the hand-written tokens.css families
+
+import { describe, expect, it } from "vitest";
+
+import { isOklchInSrgbGamut } from "../colorHelpers";
+import { PALETTE_STEPS, generateToneRamp, getToneRampCssVars } from "../toneRamp";
+
+/* ============================================================================
+   GENERATOR
+============================================================================ */
+
+describe("toneRamp: generateToneRamp", () => {
+    it("keeps the seed as the 500", () => {
+        const ramp = generateToneRamp("oklch(0.637 0.237 25.331)");
+        expect(ramp?.[500]).toEqual({ l: 0.637, c: 0.237, h: 25.331 });
+    });
+
+    it("is monotonic in lightness and stays in sRGB", () => {
+        const ramp = generateToneRamp("#d4a017");
+        expect(ramp).not.toBe(null);
+
+        const ls = PALETTE_STEPS.map((step) => ramp![step].l);
+        expect([...ls].sort((a, b) => b - a)).toEqual(ls);
+
+        for (const step of PALETTE_STEPS) expect(isOklchInSrgbGamut(ramp![step])).toBe(true);
+    });
+
+    it("approximates a built-in family (blue)", () => {
+        // tokens.css: blue-100 / blue-800 lightness
+        const ramp = generateToneRamp("oklch(0.623 0.214 259.815)")!;
+        expect(Math.abs(ramp[100].l - 0.932)).toBeLessThan(0.03);
+        expect(Math.abs(ramp[800].l - 0.424)).toBeLessThan(0.03);
+    });
+
+    it("returns null for an invalid seed", () => {
+        expect(generateToneRamp("nope")).toBe(null);
+    });
+});
+
+/* ============================================================================
+   CSS VARS
+============================================================================ */
+
+describe("toneRamp: getToneRampCssVars", () => {
+    it("emits --ids-color-<name>-<step> for every step", () => {
+        const vars = getToneRampCssVars("brand", "#d4a017");
+
+        expect(Object.keys(vars)).toHaveLength(PALETTE_STEPS.length);
+        expect(vars["--ids-color-brand-50"]).toMatch(/^oklch\([\d.]+ [\d.]+ [\d.]+\)$/);
+        expect(vars["--ids-color-brand-950"]).toBeDefined();
+    });
+});
@@ -1,6 +1,8 @@
 // src/lib/colors/colorHelpers.ts
 // Color helpers
-// - Conversions: hex <-> rgb, hsl <-> rgb, css -> rgb
+// - Conversions: hex <-> rgb, hsl <-> rgb, oklab / oklch / lab / lch <-> rgb, css -> rgb
+// - color-mix() evaluation (srgb, srgb-linear, hsl, oklab, oklch, lab, lch)
+// - Color vision deficiency simulation (protanopia, deuteranopia, tritanopia), ΔE OK
 // - Utils: clamp, mix, withAlpha, luminance, contrast, readableText, toCss()
 // - No dependencies
 
@@ -12,12 +14,25 @@ export type Rgb = { r: number; g: number; b: number };
 export type Rgba = { r: number; g: number; b: number; a: number };
 export type Hsl = { h: number; s: number; l: number }; // h: 0..360, s/l: 0..100
 export type Hsla = { h: number; s: number; l: number; a: number };
+export type Oklch = { l: number; c: number; h: number }; // l: 0..1, c: 0..~0.4, h: 0..360
+export type Oklab = { l: number; a: number; b: number }; // l: 0..1, a/b: ~-0.4..0.4
+export type Lab = { l: number; a: number; b: number }; // CIE D50, l: 0..100, a/b: ~-125..125
+export type Lch = { l: number; c: number; h: number }; // CIE D50, l: 0..100, c: 0..~150, h: 0..360
+
+/** Interpolation spaces supported by color-mix() evaluation */
+export type ColorMixSpace = "srgb" | "srgb-linear" | "hsl" | "oklab" | "oklch" | "lab" | "lch";
+
+export type HueInterpolation = "shorter" | "longer" | "increasing" | "decreasing";
 
 export type ParsedColor =
     | { kind: "rgb"; value: Rgb }
     | { kind: "rgba"; value: Rgba }
     | { kind: "hsl"; value: Hsl }
     | { kind: "hsla"; value: Hsla }
+    | { kind: "oklch"; value: Oklch; alpha: number }
+    | { kind: "oklab"; value: Oklab; alpha: number }
+    | { kind: "lab"; value: Lab; alpha: number }
+    | { kind: "lch"; value: Lch; alpha: number }
     | { kind: "hex"; value: string };
 
 /* ============================================================================
@@ -238,6 +253,184 @@ export function rgbaToHsla(rgba: Rgba): Hsla {
     return { ...hsl, a: round(clamp01(rgba.a), 4) };
 }
 
+/* ============================================================================
+   RGB <-> OKLAB / OKLCH / LAB / LCH
+   - Internal math on linear sRGB floats (0..1, unclamped), CSS Color 4 matrices
+   - CIE Lab / LCH are D50 (Bradford-adapted from sRGB's D65)
+============================================================================ */
+
+type Vec3 = [number, number, number];
+
+function srgbToLinear(v: number) {
+    const c = clamp(v, 0, 255) / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function linearToSrgb(c: number) {
+    const v = c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055;
+    return clamp(Math.round(v * 255), 0, 255);
+}
+
+function rgbToLinear(rgb: Rgb): Vec3 {
+    return [srgbToLinear(rgb.r), srgbToLinear(rgb.g), srgbToLinear(rgb.b)];
+}
+
+/** linear sRGB -> rgb (0..255), clipped to the sRGB gamut */
+function linearToRgb([r, g, b]: Vec3): Rgb {
+    return { r: linearToSrgb(r), g: linearToSrgb(g), b: linearToSrgb(b) };
+}
+
+function multiply(m: readonly Vec3[], [x, y, z]: Vec3): Vec3 {
+    const row = (i: number) => {
+        const [a = 0, b = 0, c = 0] = m[i] ?? [];
+        return a * x + b * y + c * z;
+    };
+    return [row(0), row(1), row(2)];
+}
+
+function linearToOklab(v: Vec3): Vec3 {
+    const [r, g, b] = v;
+
+    const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+    const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+    const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+    return [
+        0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+        1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+        0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    ];
+}
+
+function oklabToLinear([L, a, b]: Vec3): Vec3 {
+    const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+    const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+    const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+    return [
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+    ];
+}
+
+// linear sRGB -> XYZ (D65) -> XYZ (D50, Bradford), and back
+const LINEAR_TO_XYZ_D50: Vec3[] = [
+    [0.4360657428, 0.3851514688, 0.1430784544],
+    [0.2224931918, 0.7168870538, 0.0606197905],
+    [0.0139239045, 0.0970812857, 0.7140993584],
+];
+
+const XYZ_D50_TO_LINEAR: Vec3[] = [
+    [3.1341357599, -1.617385677, -0.4906624203],
+    [-0.9787954559, 1.9162541886, 0.0334429841],
+    [0.071955413, -0.2289766748, 1.405386011],
+];
+
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+function linearToLab(v: Vec3): Vec3 {
+    const xyz = multiply(LINEAR_TO_XYZ_D50, v);
+    const [fx, fy, fz] = xyz.map((n, i) => {
+        const t = n / (D50_WHITE[i] ?? 1);
+        return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+    }) as Vec3;
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function labToLinear([L, a, b]: Vec3): Vec3 {
+    const fy = (L + 16) / 116;
+    const fx = a / 500 + fy;
+    const fz = fy - b / 200;
+
+    const x = fx ** 3 > LAB_EPSILON ? fx ** 3 : (116 * fx - 16) / LAB_KAPPA;
+    const y = L > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : L / LAB_KAPPA;
+    const z = fz ** 3 > LAB_EPSILON ? fz ** 3 : (116 * fz - 16) / LAB_KAPPA;
+
+    return multiply(XYZ_D50_TO_LINEAR, [x * D50_WHITE[0], y, z * D50_WHITE[2]]);
+}
+
+/** (l, a, b) -> (l, c, h). Hue is 0 below `achromatic` chroma. */
+function toPolar([l, a, b]: Vec3, achromatic: number): Vec3 {
+    const c = Math.hypot(a, b);
+    const h = c < achromatic ? 0 : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+    return [l, c, h];
+}
+
+function fromPolar([l, c, h]: Vec3): Vec3 {
+    const hr = (h * Math.PI) / 180;
+    return [l, c * Math.cos(hr), c * Math.sin(hr)];
+}
+
+// Chroma below which the hue is meaningless (grays)
+const OKLCH_ACHROMATIC = 1e-4;
+const LCH_ACHROMATIC = 0.015;
+
+/** rgb (0..255) -> oklab (l 0..1, a/b ~-0.4..0.4) */
+export function rgbToOklab(rgb: Rgb): Oklab {
+    const [l, a, b] = linearToOklab(rgbToLinear(rgb));
+    return { l: round(l, 4), a: round(a, 4), b: round(b, 4) };
+}
+
+/** oklab -> rgb (0..255), clipped to the sRGB gamut */
+export function oklabToRgb(oklab: Oklab): Rgb {
+    return linearToRgb(oklabToLinear([oklab.l, oklab.a, oklab.b]));
+}
+
+export function oklabToOklch(oklab: Oklab): Oklch {
+    const [l, c, h] = toPolar([oklab.l, oklab.a, oklab.b], OKLCH_ACHROMATIC);
+    return { l, c, h };
+}
+
+export function oklchToOklab(oklch: Oklch): Oklab {
+    const [l, a, b] = fromPolar([oklch.l, oklch.c, oklch.h]);
+    return { l, a, b };
+}
+
+/** oklch (l 0..1, c, h 0..360) -> rgb (0..255), clipped to the sRGB gamut */
+export function oklchToRgb(oklch: Oklch): Rgb {
+    return linearToRgb(oklabToLinear(fromPolar([oklch.l, oklch.c, oklch.h])));
+}
+
+/** rgb (0..255) -> oklch (l 0..1, c, h 0..360) */
+export function rgbToOklch(rgb: Rgb): Oklch {
+    const [l, c, h] = toPolar(linearToOklab(rgbToLinear(rgb)), OKLCH_ACHROMATIC);
+    return { l: round(l, 4), c: round(c, 4), h: round(h, 2) };
+}
+
+/** True when the oklch color is displayable in sRGB without clipping */
+export function isOklchInSrgbGamut(oklch: Oklch, epsilon = 1e-4): boolean {
+    return oklabToLinear(fromPolar([oklch.l, oklch.c, oklch.h])).every(
+        (v) => v >= -epsilon && v <= 1 + epsilon
+    );
+}
+
+/** rgb (0..255) -> CIE lab (l 0..100, a/b ~-125..125, D50) */
+export function rgbToLab(rgb: Rgb): Lab {
+    const [l, a, b] = linearToLab(rgbToLinear(rgb));
+    return { l: round(l, 3), a: round(a, 3), b: round(b, 3) };
+}
+
+/** CIE lab -> rgb (0..255), clipped to the sRGB gamut */
+export function labToRgb(lab: Lab): Rgb {
+    return linearToRgb(labToLinear([lab.l, lab.a, lab.b]));
+}
+
+/** rgb (0..255) -> CIE lch (l 0..100, c 0..~150, h 0..360, D50) */
+export function rgbToLch(rgb: Rgb): Lch {
+    const [l, c, h] = toPolar(linearToLab(rgbToLinear(rgb)), LCH_ACHROMATIC);
+    return { l: round(l, 3), c: round(c, 3), h: round(h, 2) };
+}
+
+/** CIE lch -> rgb (0..255), clipped to the sRGB gamut */
+export function lchToRgb(lch: Lch): Rgb {
+    return linearToRgb(labToLinear(fromPolar([lch.l, lch.c, lch.h])));
+}
+
 /* ============================================================================
    CSS STRING PARSING (best-effort)
 ============================================================================ */
@@ -267,6 +460,9 @@ function splitCssArgs(args: string): string[] {
  * - #rgb/#rgba/#rrggbb/#rrggbbaa
  * - rgb(), rgba() (comma or space-separated)
  * - hsl(), hsla()
+ * - oklab(), oklch(), lab(), lch() ("none" components read as 0)
+ * - transparent
+ * color-mix() is evaluated by cssColorToRgba() / evaluateColorMix().
  */
 export function parseCssColor(input: string): ParsedColor | null {
     const s = input.trim();
@@ -276,7 +472,11 @@ export function parseCssColor(input: string): ParsedColor | null {
         return h ? { kind: "hex", value: h } : null;
     }
 
-    const m = s.match(/^(rgb|rgba|hsl|hsla)\((.*)\)$/i);
+    if (s.toLowerCase() === "transparent") {
+        return { kind: "rgba", value: { r: 0, g: 0, b: 0, a: 0 } };
+    }
+
+    const m = s.match(/^(rgb|rgba|hsl|hsla|oklab|oklch|lab|lch)\((.*)\)$/i);
     if (!m) return null;
 
     const fnRaw = m[1];
@@ -345,11 +545,66 @@ export function parseCssColor(input: string): ParsedColor | null {
         return a === 1 ? { kind: "hsl", value: base } : { kind: "hsla", value: { ...base, a } };
     }
 
+    if ((fn === "oklab" || fn === "oklch" || fn === "lab" || fn === "lch") && main.length >= 3) {
+        const [xS, yS, zS] = main;
+        if (!xS || !yS || !zS) return null;
+
+        // "none" = missing component, treated as 0
+        const component = (x: string, percentScale: number) => {
+            if (x.toLowerCase() === "none") return 0;
+            const p = parseNumberOrPercent(x);
+            if (!p) return null;
+            return p.isPercent ? (p.value / 100) * percentScale : p.value;
+        };
+
+        const hue = (x: string) =>
+            x.toLowerCase() === "none" ? 0 : Number(x.replace(/deg$/i, ""));
+
+        let a = 1;
+        if (alphaPart !== undefined && alphaPart.toLowerCase() !== "none") {
+            const a0 = parseNumberOrPercent(alphaPart);
+            if (!a0) return null;
+            a = a0.isPercent ? clamp01(a0.value / 100) : clamp01(a0.value);
+        }
+
+        // CSS Color 4 percentage references:
+        // oklab / oklch: L 100% = 1, a/b 100% = 0.4, C 100% = 0.4
+        // lab / lch: L 100% = 100, a/b 100% = 125, C 100% = 150
+        const oklabLike = fn === "oklab" || fn === "oklch";
+        const l = component(xS, oklabLike ? 1 : 100);
+        if (l === null) return null;
+
+        const maxL = oklabLike ? 1 : 100;
+        const L = clamp(l, 0, maxL);
+
+        if (fn === "oklab" || fn === "lab") {
+            const a0 = component(yS, fn === "oklab" ? 0.4 : 125);
+            const b0 = component(zS, fn === "oklab" ? 0.4 : 125);
+            if (a0 === null || b0 === null) return null;
+
+            const value = { l: L, a: a0, b: b0 };
+            return fn === "oklab"
+                ? { kind: "oklab", value, alpha: a }
+                : { kind: "lab", value, alpha: a };
+        }
+
+        const c0 = component(yS, fn === "oklch" ? 0.4 : 150);
+        const h = hue(zS);
+        if (c0 === null || !Number.isFinite(h)) return null;
+
+        const value = { l: L, c: Math.max(0, c0), h };
+        return fn === "oklch"
+            ? { kind: "oklch", value, alpha: a }
+            : { kind: "lch", value, alpha: a };
+    }
+
     return null;
 }
 
-/** Convert any supported CSS color string to RGBA (best-effort) */
+/** Convert any supported CSS color string (including color-mix()) to RGBA (best-effort) */
 export function cssColorToRgba(input: string): Rgba | null {
+    if (/^color-mix\(/i.test(input.trim())) return evaluateColorMix(input);
+
     const parsed = parseCssColor(input);
     if (!parsed) return null;
 
@@ -358,10 +613,220 @@ export function cssColorToRgba(input: string): Rgba | null {
     if (parsed.kind === "rgba") return parsed.value;
     if (parsed.kind === "hsl") return { ...hslToRgb(parsed.value), a: 1 };
     if (parsed.kind === "hsla") return hslaToRgba(parsed.value);
+    if (parsed.kind === "oklch") return { ...oklchToRgb(parsed.value), a: parsed.alpha };
+    if (parsed.kind === "oklab") return { ...oklabToRgb(parsed.value), a: parsed.alpha };
+    if (parsed.kind === "lab") return { ...labToRgb(parsed.value), a: parsed.alpha };
+    if (parsed.kind === "lch") return { ...lchToRgb(parsed.value), a: parsed.alpha };
 
     return null;
 }
 
+/* ============================================================================
+   COLOR-MIX()
+   - CSS Color 5 semantics: premultiplied alpha, percentage normalization,
+     missing hues (grays, transparent) take the other color's hue
+============================================================================ */
+
+type MixSpace = {
+    /** Index of the hue component (polar spaces) */
+    hue?: number;
+    /** Below this chroma / saturation the hue is missing */
+    achromatic?: number;
+    from: (rgb: Rgb) => Vec3;
+    to: (v: Vec3) => Rgb;
+};
+
+const MIX_SPACES: Record<ColorMixSpace, MixSpace> = {
+    srgb: {
+        from: (rgb) => [rgb.r / 255, rgb.g / 255, rgb.b / 255],
+        to: ([r, g, b]) => ({
+            r: clamp(Math.round(r * 255), 0, 255),
+            g: clamp(Math.round(g * 255), 0, 255),
+            b: clamp(Math.round(b * 255), 0, 255),
+        }),
+    },
+    "srgb-linear": { from: rgbToLinear, to: linearToRgb },
+    hsl: {
+        hue: 0,
+        achromatic: 1e-3,
+        from: (rgb) => {
+            const { h, s, l } = rgbToHsl(rgb);
+            return [h, s, l];
+        },
+        to: ([h, s, l]) => hslToRgb({ h, s, l }),
+    },
+    oklab: {
+        from: (rgb) => linearToOklab(rgbToLinear(rgb)),
+        to: (v) => linearToRgb(oklabToLinear(v)),
+    },
+    oklch: {
+        hue: 2,
+        achromatic: OKLCH_ACHROMATIC,
+        from: (rgb) => toPolar(linearToOklab(rgbToLinear(rgb)), OKLCH_ACHROMATIC),
+        to: (v) => linearToRgb(oklabToLinear(fromPolar(v))),
+    },
+    lab: { from: (rgb) => linearToLab(rgbToLinear(rgb)), to: (v) => linearToRgb(labToLinear(v)) },
+    lch: {
+        hue: 2,
+        achromatic: LCH_ACHROMATIC,
+        from: (rgb) => toPolar(linearToLab(rgbToLinear(rgb)), LCH_ACHROMATIC),
+        to: (v) => linearToRgb(labToLinear(fromPolar(v))),
+    },
+};
+
+export function isColorMixSpace(space: string): space is ColorMixSpace {
+    return Object.prototype.hasOwnProperty.call(MIX_SPACES, space);
+}
+
+/** Hue pair adjusted for the interpolation method (CSS Color 4 §12.4) */
+function fixupHues(h1: number, h2: number, method: HueInterpolation): [number, number] {
+    const d = h2 - h1;
+
+    if (method === "shorter") {
+        if (d > 180) return [h1 + 360, h2];
+        if (d < -180) return [h1, h2 + 360];
+    } else if (method === "longer") {
+        if (d > 0 && d < 180) return [h1 + 360, h2];
+        if (d > -180 && d <= 0) return [h1, h2 + 360];
+    } else if (method === "increasing") {
+        if (d < 0) return [h1, h2 + 360];
+    } else if (d > 0) {
+        return [h1 + 360, h2];
+    }
+
+    return [h1, h2];
+}
+
+/**
+ * Interpolates two colors in `space` (premultiplied alpha), t = 0 → a, t = 1 → b.
+ * Same result as `color-mix(in <space>, a (1 - t) * 100%, b t * 100%)`.
+ */
+export function mixColors(
+    a: Rgba,
+    b: Rgba,
+    t: number,
+    space: ColorMixSpace = "oklab",
+    hue: HueInterpolation = "shorter"
+): Rgba {
+    const k = clamp01(t);
+    const def = MIX_SPACES[space];
+
+    const ca = def.from(a);
+    const cb = def.from(b);
+    const aa = clamp01(a.a);
+    const ab = clamp01(b.a);
+
+    if (def.hue !== undefined) {
+        // component 1 is chroma (lch / oklch) or saturation (hsl)
+        const missing = (c: Vec3, alpha: number) => alpha === 0 || c[1] < (def.achromatic ?? 0);
+
+        const ma = missing(ca, aa);
+        const mb = missing(cb, ab);
+        if (ma && !mb) ca[def.hue] = cb[def.hue] ?? 0;
+        if (mb && !ma) cb[def.hue] = ca[def.hue] ?? 0;
+
+        const [h1, h2] = fixupHues(ca[def.hue] ?? 0, cb[def.hue] ?? 0, hue);
+        ca[def.hue] = h1;
+        cb[def.hue] = h2;
+    }
+
+    const alpha = aa + (ab - aa) * k;
+
+    const out = ca.map((x, i) => {
+        const y = cb[i] ?? 0;
+        if (i === def.hue) return (((x + (y - x) * k) % 360) + 360) % 360;
+
+        const mixed = x * aa + (y * ab - x * aa) * k;
+        return alpha === 0 ? mixed : mixed / alpha;
+    }) as Vec3;
+
+    return { ...def.to(out), a: round(alpha, 4) };
+}
+
+/** Splits on commas outside parentheses */
+function splitTopLevel(input: string): string[] {
+    const out: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (ch === "(") depth++;
+        else if (ch === ")") depth--;
+        else if (ch === "," && depth === 0) {
+            out.push(input.slice(start, i).trim());
+            start = i + 1;
+        }
+    }
+
+    out.push(input.slice(start).trim());
+    return out;
+}
+
+/** "<color> [<percentage>]" or "<percentage> <color>" */
+function parseMixStop(stop: string): { color: string; percent?: number } | null {
+    const trailing = stop.match(/^(.*\S)\s+(-?\d*\.?\d+)%$/);
+    const leading = stop.match(/^(-?\d*\.?\d+)%\s+(.*)$/);
+
+    const color = trailing?.[1] ?? leading?.[2] ?? stop;
+    const raw = trailing?.[2] ?? leading?.[1];
+    if (!color) return null;
+    if (raw === undefined) return { color };
+
+    const percent = Number(raw);
+    if (!Number.isFinite(percent) || percent < 0 || percent > 100) return null;
+
+    return { color, percent };
+}
+
+/**
+ * Evaluates `color-mix(in <space> [<hue> hue], <color> [<p>%], <color> [<p>%])`.
+ * Colors are read with `resolveColor` (default: cssColorToRgba), so a caller can
+ * evaluate var() references against real token values; nested color-mix() is supported.
+ * Returns null for unsupported spaces or unresolvable colors.
+ *
+ * @example
+ * evaluateColorMix("color-mix(in oklab, #f59e0b 20%, transparent)");
+ * // { r: 245, g: 158, b: 11, a: 0.2 }
+ */
+export function evaluateColorMix(
+    input: string,
+    resolveColor: (value: string) => Rgba | null = cssColorToRgba
+): Rgba | null {
+    const m = input
+        .trim()
+        .match(
+            /^color-mix\(\s*in\s+([a-z-]+)(?:\s+(shorter|longer|increasing|decreasing)\s+hue)?\s*,(.*)\)$/is
+        );
+    if (!m?.[1] || m[3] === undefined) return null;
+
+    const space = m[1].toLowerCase();
+    if (!isColorMixSpace(space)) return null;
+
+    const stops = splitTopLevel(m[3]).map(parseMixStop);
+    const [s1, s2] = stops;
+    if (stops.length !== 2 || !s1 || !s2) return null;
+
+    const read = (color: string) =>
+        /^color-mix\(/i.test(color) ? evaluateColorMix(color, resolveColor) : resolveColor(color);
+
+    const c1 = read(s1.color);
+    const c2 = read(s2.color);
+    if (!c1 || !c2) return null;
+
+    // Percentage normalization: omitted = complement, sum > 100 scales down,
+    // sum < 100 also scales the result alpha
+    const p1 = s1.percent ?? (s2.percent !== undefined ? 100 - s2.percent : 50);
+    const p2 = s2.percent ?? 100 - p1;
+    const sum = p1 + p2;
+    if (sum <= 0) return null;
+
+    const hue = (m[2]?.toLowerCase() ?? "shorter") as HueInterpolation;
+    const mixed = mixColors(c1, c2, p2 / sum, space, hue);
+
+    return sum < 100 ? { ...mixed, a: round(mixed.a * (sum / 100), 4) } : mixed;
+}
+
 /* ============================================================================
    OUTPUT HELPERS
 ============================================================================ */
@@ -396,6 +861,34 @@ export function toCssHsla(hsla: Hsla) {
     return `hsl(${h} ${s}% ${l}% / ${a})`;
 }
 
+export function toCssOklch(oklch: Oklch) {
+    const l = round(clamp01(oklch.l), 3);
+    const c = round(Math.max(0, oklch.c), 3);
+    const h = round(((oklch.h % 360) + 360) % 360, 3);
+    return `oklch(${l} ${c} ${h})`;
+}
+
+export function toCssOklab(oklab: Oklab) {
+    const l = round(clamp01(oklab.l), 3);
+    const a = round(oklab.a, 4);
+    const b = round(oklab.b, 4);
+    return `oklab(${l} ${a} ${b})`;
+}
+
+export function toCssLab(lab: Lab) {
+    const l = round(clamp(lab.l, 0, 100), 3);
+    const a = round(lab.a, 3);
+    const b = round(lab.b, 3);
+    return `lab(${l} ${a} ${b})`;
+}
+
+export function toCssLch(lch: Lch) {
+    const l = round(clamp(lch.l, 0, 100), 3);
+    const c = round(Math.max(0, lch.c), 3);
+    const h = round(((lch.h % 360) + 360) % 360, 3);
+    return `lch(${l} ${c} ${h})`;
+}
+
 /* ============================================================================
    COLOR OPS
 ============================================================================ */
@@ -418,6 +911,32 @@ export function mixRgb(a: Rgb, b: Rgb, t: number): Rgb {
     };
 }
 
+/**
+ * Palette step (50..950) estimated from a 500 base by mixing toward white / black.
+ * Approximates the Tailwind ramps closely enough for tints, rings and text.
+ */
+export const PALETTE_STEP_MIX: Record<number, { to: "white" | "black"; amount: number }> = {
+    50: { to: "white", amount: 0.92 },
+    100: { to: "white", amount: 0.85 },
+    200: { to: "white", amount: 0.72 },
+    300: { to: "white", amount: 0.52 },
+    400: { to: "white", amount: 0.28 },
+    500: { to: "white", amount: 0 },
+    600: { to: "black", amount: 0.14 },
+    700: { to: "black", amount: 0.3 },
+    800: { to: "black", amount: 0.45 },
+    900: { to: "black", amount: 0.58 },
+    950: { to: "black", amount: 0.75 },
+};
+
+export function paletteStepRgb(base: Rgb, step: number): Rgb | null {
+    const mix = PALETTE_STEP_MIX[step];
+    if (!mix) return null;
+
+    const to = mix.to === "white" ? { r: 255, g: 255, b: 255 } : { r: 0, g: 0, b: 0 };
+    return mixRgb(base, to, mix.amount);
+}
+
 /** Relative luminance (sRGB) per WCAG */
 export function relativeLuminance(rgb: Rgb): number {
     const srgb = [rgb.r, rgb.g, rgb.b].map((v) => clamp(v, 0, 255) / 255);
@@ -448,6 +967,62 @@ export function readableTextColor(bg: Rgb, opts?: { light?: Rgb; dark?: Rgb }) {
     return cLight >= cDark ? light : dark;
 }
 
+/* ============================================================================
+   COLOR VISION DEFICIENCY
+   - Machado, Oliveira & Fernandes (2009) matrices, applied on linear sRGB
+   - Perceptual distance: ΔE OK (Euclidean distance in OKLab)
+============================================================================ */
+
+export type ColorVisionDeficiency = "protanopia" | "deuteranopia" | "tritanopia";
+
+export const COLOR_VISION_DEFICIENCIES: ColorVisionDeficiency[] = [
+    "protanopia",
+    "deuteranopia",
+    "tritanopia",
+];
+
+// Severity 1 (dichromacy)
+const CVD_MATRICES: Record<ColorVisionDeficiency, Vec3[]> = {
+    protanopia: [
+        [0.152286, 1.052583, -0.204868],
+        [0.114503, 0.786281, 0.099216],
+        [-0.003882, -0.048116, 1.051998],
+    ],
+    deuteranopia: [
+        [0.367322, 0.860646, -0.227968],
+        [0.280085, 0.672501, 0.047413],
+        [-0.01182, 0.04294, 0.968881],
+    ],
+    tritanopia: [
+        [1.255528, -0.076749, -0.178779],
+        [-0.078411, 0.930809, 0.147602],
+        [0.004733, 0.691367, 0.3039],
+    ],
+};
+
+/**
+ * How `rgb` appears with a color vision deficiency.
+ * severity 0..1 (1 = dichromacy, lower values blend toward normal vision).
+ */
+export function simulateColorVision(
+    rgb: Rgb,
+    deficiency: ColorVisionDeficiency,
+    severity = 1
+): Rgb {
+    const k = clamp01(severity);
+    const v = rgbToLinear(rgb);
+    const sim = multiply(CVD_MATRICES[deficiency], v);
+
+    return linearToRgb(v.map((x, i) => x + ((sim[i] ?? x) - x) * k) as Vec3);
+}
+
+/** Perceptual distance (ΔE OK, 0..~1). ~0.02 is barely noticeable side by side. */
+export function deltaEOK(a: Rgb, b: Rgb): number {
+    const [l1, a1, b1] = linearToOklab(rgbToLinear(a));
+    const [l2, a2, b2] = linearToOklab(rgbToLinear(b));
+    return round(Math.hypot(l1 - l2, a1 - a2, b1 - b2), 4);
+}
+
 /* ============================================================================
    CONVENIENCE WRAPPERS
 ============================================================================ */
@@ -468,3 +1043,15 @@ export function cssColorToHex(input: string, opts?: { withAlpha?: boolean }): st
     const hexOpts = opts?.withAlpha === undefined ? undefined : { withAlpha: opts.withAlpha };
     return rgbaToHex(rgba, hexOpts);
 }
+
+export function simulateProtanopia(rgb: Rgb): Rgb {
+    return simulateColorVision(rgb, "protanopia");
+}
+
+export function simulateDeuteranopia(rgb: Rgb): Rgb {
+    return simulateColorVision(rgb, "deuteranopia");
+}
+
+export function simulateTritanopia(rgb: Rgb): Rgb {
+    return simulateColorVision(rgb, "tritanopia");
+}
@@ -2,6 +2,7 @@
 // themeHelpers
 // - Helpers for theme-driven color variables
 // - Works with DEFAULT_THEME_COLOR from src/lib/intent/mapping.ts
+// - Every helper accepts an optional runtime theme color (per tenant / brand)
 // - Provides glow rgba pair (2 radials) like other intents
 
 import { DEFAULT_THEME_COLOR } from "../intent/mapping";
@@ -121,6 +122,15 @@ export function getDefaultThemeRgb(): Rgb {
     return { r: 59, g: 130, b: 246 };
 }
 
+/**
+ * Returns the theme rgb for a runtime theme color.
+ * Falls back to DEFAULT_THEME_COLOR when missing or unparsable.
+ */
+export function getThemeRgb(themeColor?: string): Rgb {
+    const parsed = themeColor ? parseToRgb(themeColor) : null;
+    return parsed ?? getDefaultThemeRgb();
+}
+
 /**
  * Convenience: base theme token string "R G B"
  */
@@ -143,19 +153,21 @@ export function getDefaultThemeToken(): string {
  * You can tune the alphas and mix amounts if needed.
  */
 export function getThemeGlowRgbaPair(opts?: {
+    themeColor?: string; // default DEFAULT_THEME_COLOR
     primaryAlpha?: number; // default 0.28 (like empower/warn/threat first layer)
     secondaryAlpha?: number; // default 0.22 (like second layer)
     secondaryMixTo?: "slate" | "white" | "black"; // default "slate"
     secondaryMixAmount?: number; // default 0.38
 }): [string, string] {
     const {
+        themeColor,
         primaryAlpha = 0.28,
         secondaryAlpha = 0.22,
         secondaryMixTo = "slate",
         secondaryMixAmount = 0.38,
     } = opts ?? {};
 
-    const base = getDefaultThemeRgb();
+    const base = getThemeRgb(themeColor);
 
     // "slate" anchor approximates Tailwind slate-400-ish used by informed's second layer vibe
     const slateAnchor: Rgb = { r: 148, g: 163, b: 184 };
@@ -180,6 +192,7 @@ export function getThemeGlowRgbaPair(opts?: {
 export function getThemeGlowBackgroundCss(
     radial: (size: string, at: string, color: string, stop: string) => string,
     opts?: {
+        themeColor?: string; // default DEFAULT_THEME_COLOR
         primaryRgba?: string;
         secondaryRgba?: string;
         stop1?: string; // default "74%"
@@ -190,7 +203,9 @@ export function getThemeGlowBackgroundCss(
         at2?: string; // default "85% 30%"
     }
 ): string {
-    const [c1, c2] = getThemeGlowRgbaPair();
+    const [c1, c2] = getThemeGlowRgbaPair(
+        opts?.themeColor !== undefined ? { themeColor: opts.themeColor } : undefined
+    );
     const {
         primaryRgba = c1,
         secondaryRgba = c2,
@@ -218,11 +233,12 @@ export function getThemeGlowBackgroundCss(
 export function getThemeCssVars(opts?: {
     themeColor?: string; // accept same formats as parseToRgb
 }): Record<string, string> {
-    const themeRgb = parseToRgb(opts?.themeColor ?? DEFAULT_THEME_COLOR) ?? getDefaultThemeRgb();
+    const themeRgb = getThemeRgb(opts?.themeColor);
 
-    const [glow1, glow2] = getThemeGlowRgbaPair();
+    const [glow1, glow2] = getThemeGlowRgbaPair({ themeColor: rgbToString(themeRgb) });
 
     return {
+        "--ids-color-theme": rgbToString(themeRgb),
         "--ids-theme": rgbToString(themeRgb),
         "--ids-theme-rgb": rgbToCssRgb(themeRgb),
         "--ids-theme-glow-1": glow1,
@@ -230,7 +246,7 @@ export function getThemeCssVars(opts?: {
     };
 }
 
-/** Convenience: returns "rgb(r,g,b)" for DEFAULT_THEME_COLOR */
-export function getDefaultThemeCssRgb(): string {
-    return rgbToCssRgb(getDefaultThemeRgb());
+/** Convenience: returns "rgb(r,g,b)" for DEFAULT_THEME_COLOR (or a runtime theme color) */
+export function getDefaultThemeCssRgb(themeColor?: string): string {
+    return rgbToCssRgb(getThemeRgb(themeColor));
 }
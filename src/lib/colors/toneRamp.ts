@@ -0,0 +1,155 @@
+// src/lib/colors/toneRamp.ts
+// Tone ramp generator
+// - generateToneRamp(seed): 50..950 OKLCH ramp, the seed being the 500 step
+// - Lightness / chroma curves averaged from the built-in tokens.css ramps
+// - getToneRampCssVars(name, seed): matching --ids-color-<name>-<step> variables
+
+import {
+    type Oklch,
+    type Rgb,
+    clamp01,
+    isOklchInSrgbGamut,
+    parseCssColor,
+    rgbToOklch,
+    round,
+    toCssOklch,
+    cssColorToRgba,
+} from "./colorHelpers";
+
+/* ============================================================================
+   TYPES
+============================================================================ */
+
+export const PALETTE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type PaletteStep = (typeof PALETTE_STEPS)[number];
+
+export type ToneRamp = Record<PaletteStep, Oklch>;
+
+/* ============================================================================
+   REFERENCE CURVES (chromatic families of tokens.css)
+============================================================================ */
+
+/** Average lightness per step. */
+const REF_LIGHTNESS: Record<PaletteStep, number> = {
+    50: 0.977,
+    100: 0.95,
+    200: 0.905,
+    300: 0.84,
+    400: 0.754,
+    500: 0.683,
+    600: 0.598,
+    700: 0.515,
+    800: 0.446,
+    900: 0.395,
+    950: 0.278,
+};
+
+/** Average chroma per step, relative to the 500. */
+const REF_CHROMA: Record<PaletteStep, number> = {
+    50: 0.087,
+    100: 0.208,
+    200: 0.399,
+    300: 0.659,
+    400: 0.904,
+    500: 1,
+    600: 0.982,
+    700: 0.861,
+    800: 0.708,
+    900: 0.568,
+    950: 0.401,
+};
+
+/* ============================================================================
+   HELPERS
+============================================================================ */
+
+function seedToOklch(seed: string | Rgb | Oklch): Oklch | null {
+    if (typeof seed !== "string") return "c" in seed ? seed : rgbToOklch(seed);
+
+    // oklch() seeds are kept as-is (no sRGB round-trip)
+    const parsed = parseCssColor(seed);
+    if (parsed?.kind === "oklch") return parsed.value;
+
+    const rgba = cssColorToRgba(seed);
+    return rgba ? rgbToOklch(rgba) : null;
+}
+
+/**
+ * Seed lightness is kept at 500; other steps keep the reference spacing,
+ * scaled toward white (lighter steps) or black (darker steps).
+ */
+function stepLightness(seedL: number, step: PaletteStep) {
+    const ref = REF_LIGHTNESS[step];
+    const ref500 = REF_LIGHTNESS[500];
+
+    if (ref >= ref500) return 1 - ((1 - seedL) * (1 - ref)) / (1 - ref500);
+    return (seedL * ref) / ref500;
+}
+
+/** Largest chroma <= c that stays inside sRGB (binary search). */
+function fitChroma(l: number, c: number, h: number) {
+    if (isOklchInSrgbGamut({ l, c, h })) return c;
+
+    let lo = 0;
+    let hi = c;
+    for (let i = 0; i < 20; i++) {
+        const mid = (lo + hi) / 2;
+        if (isOklchInSrgbGamut({ l, c: mid, h })) lo = mid;
+        else hi = mid;
+    }
+    return lo;
+}
+
+/* ============================================================================
+   GENERATOR
+============================================================================ */
+
+/**
+ * Perceptually even 50..950 ramp from one seed color (used as the 500).
+ * Hue is kept, lightness / chroma follow the built-in families, every step is
+ * mapped into sRGB. Returns null for an unparseable seed.
+ *
+ * @example
+ * generateToneRamp("#d4a017")?.[700]; // { l: 0.52, c: 0.1, h: 80.1 }
+ */
+export function generateToneRamp(seed: string | Rgb | Oklch): ToneRamp | null {
+    const base = seedToOklch(seed);
+    if (!base) return null;
+
+    const seedL = clamp01(base.l);
+    const out = {} as ToneRamp;
+
+    for (const step of PALETTE_STEPS) {
+        const l = round(clamp01(stepLightness(seedL, step)), 3);
+        const h = round(base.h, 3);
+        const c = fitChroma(l, base.c * REF_CHROMA[step], h);
+
+        // floor (not round) so the serialized chroma stays in gamut
+        out[step] = { l, c: Math.floor(c * 1000 + 1e-9) / 1000, h };
+    }
+
+    return out;
+}
+
+/**
+ * `--ids-color-<name>-<step>` variables for a generated ramp
+ * (same shape as the built-in families: spread on :root or emit in a stylesheet).
+ *
+ * @example
+ * getToneRampCssVars("brand", "#d4a017");
+ * // { "--ids-color-brand-50": "oklch(0.98 0.01 80.1)", … "--ids-color-brand-950": … }
+ */
+export function getToneRampCssVars(
+    name: string,
+    seed: string | Rgb | Oklch
+): Record<string, string> {
+    const ramp = generateToneRamp(seed);
+    if (!ramp) return {};
+
+    const out: Record<string, string> = {};
+    for (const step of PALETTE_STEPS) {
+        out[`--ids-color-${name}-${step}`] = toCssOklch(ramp[step]);
+    }
+    return out;
+}
@@ -0,0 +1,27 @@
+// src/lib/intent/__tests__/density.test.ts
+// Vitest tests for the shared size / density scale
+// - Provider density shifts the default size; a local size wins
+
+import { describe, expect, it } from "vitest";
+
+import { getControlSizeClassName, resolveControlSize, shiftControlSize } from "../density";
+
+/* ============================================================================
+   SIZE / DENSITY
+============================================================================ */
+
+describe("density: size and density", () => {
+    it("density shifts the default size, clamped to the scale", () => {
+        expect(resolveControlSize()).toBe("md");
+        expect(resolveControlSize(undefined, { density: "compact" })).toBe("sm");
+        expect(resolveControlSize(undefined, { density: "spacious" })).toBe("lg");
+        expect(resolveControlSize(undefined, { size: "xl", density: "spacious" })).toBe("xl");
+        expect(resolveControlSize(undefined, { size: "xs", density: "compact" })).toBe("xs");
+        expect(shiftControlSize("sm", 2)).toBe("lg");
+    });
+
+    it("an explicit size wins over the provider", () => {
+        expect(resolveControlSize("lg", { size: "xs", density: "compact" })).toBe("lg");
+        expect(getControlSizeClassName("xl")).toBe("ids-size-xl");
+    });
+});
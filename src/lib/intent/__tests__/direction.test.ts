@@ -0,0 +1,119 @@
+// src/lib/intent/__tests__/direction.test.ts
+// Vitest tests for the inline direction helpers
+// - Keyboard arrows read in reading order, SVG coordinates mirror around x = 0 in rtl
+// - start / end placements are logical in CSS, left / right stay physical
+
+import { describe, expect, it } from "vitest";
+
+import {
+    getElementDirection,
+    getInlineArrowStep,
+    getInlineEdges,
+    mirrorInlineX,
+    toDirection,
+} from "../direction";
+
+import toastCss from "../../../../styles/intent/IntentToast.css?raw";
+import dividerCss from "../../../../styles/intent/IntentDivider.css?raw";
+
+// Declarations of a rule, e.g. cssRule(toastCss, ".intent-toast.is-top-end")
+function cssRule(css: string, selector: string) {
+    const start = css.indexOf(`${selector} {`);
+    return start < 0 ? "" : css.slice(start, css.indexOf("}", start));
+}
+
+/* ============================================================================
+   DIRECTION
+============================================================================ */
+
+describe("direction: dir values", () => {
+    it("narrows native dir values", () => {
+        expect(toDirection("rtl")).toBe("rtl");
+        expect(toDirection("ltr")).toBe("ltr");
+        expect(toDirection("auto")).toBe(undefined);
+        expect(toDirection(undefined)).toBe(undefined);
+    });
+
+    it("mirrors horizontal arrow keys in rtl", () => {
+        expect(getInlineArrowStep("ArrowRight", "ltr")).toBe(1);
+        expect(getInlineArrowStep("ArrowLeft", "ltr")).toBe(-1);
+        expect(getInlineArrowStep("ArrowRight", "rtl")).toBe(-1);
+        expect(getInlineArrowStep("ArrowLeft", "rtl")).toBe(1);
+        expect(getInlineArrowStep("ArrowDown", "rtl")).toBe(0);
+    });
+
+    it("an explicit dir wins, ltr without an element", () => {
+        expect(getElementDirection(null, "rtl")).toBe("rtl");
+        expect(getElementDirection(null)).toBe("ltr");
+    });
+});
+
+/* ============================================================================
+   COORDINATES (IntentTree auto layout + links)
+============================================================================ */
+
+describe("direction: coordinates", () => {
+    const width = 200;
+
+    it("mirrors a box around x = 0 in rtl", () => {
+        expect(mirrorInlineX(0, width, "ltr")).toBe(0);
+        expect(mirrorInlineX(240, width, "ltr")).toBe(240);
+
+        // root at [-200, 0], the next level grows leftward
+        expect(mirrorInlineX(0, width, "rtl")).toBe(-200);
+        expect(mirrorInlineX(240, width, "rtl")).toBe(-440);
+    });
+
+    it("keeps the gaps between mirrored boxes", () => {
+        const [a = 0, b = 0, c = 0] = [0, 240, 480].map((x) => mirrorInlineX(x, width, "rtl"));
+
+        expect(a - b).toBe(240);
+        expect(b - c).toBe(240);
+    });
+
+    it("links run from the parent's inline end to the child's inline start", () => {
+        expect(getInlineEdges(0, width, "ltr")).toEqual({ start: 0, end: 200 });
+        expect(getInlineEdges(-200, width, "rtl")).toEqual({ start: 0, end: -200 });
+
+        // horizontal tree, parent at depth 0 and child at depth 1 (levelGap 40)
+        const parent = mirrorInlineX(0, width, "rtl");
+        const child = mirrorInlineX(240, width, "rtl");
+
+        const sx = getInlineEdges(parent, width, "rtl").end;
+        const tx = getInlineEdges(child, width, "rtl").start;
+
+        expect(sx).toBe(-200); // left edge of the parent
+        expect(tx).toBe(-240); // right edge of the child
+        expect(sx - tx).toBe(40);
+    });
+});
+
+/* ============================================================================
+   PLACEMENTS (CSS)
+============================================================================ */
+
+describe("direction: placements", () => {
+    it("toast start / end placements are logical, left / right physical", () => {
+        expect(cssRule(toastCss, ".intent-toast.is-top-start")).toContain("inset-inline-start:");
+        expect(cssRule(toastCss, ".intent-toast.is-top-end")).toContain("inset-inline-end:");
+        expect(cssRule(toastCss, ".intent-toast.is-bottom-start")).toContain("inset-inline-start:");
+        expect(cssRule(toastCss, ".intent-toast.is-bottom-end")).toContain("inset-inline-end:");
+
+        for (const side of ["left", "right"]) {
+            for (const edge of ["top", "bottom"]) {
+                const rule = cssRule(toastCss, `.intent-toast.is-${edge}-${side}`);
+                expect(rule).toContain(`\n    ${side}:`);
+                expect(rule).not.toContain("inset-inline");
+            }
+        }
+    });
+
+    it("divider left / right labels keep their side in rtl", () => {
+        expect(
+            cssRule(
+                dividerCss,
+                ".intent-control.intent-divider.has-label.is-align-physical:dir(rtl)"
+            )
+        ).toContain("flex-direction: row-reverse;");
+    });
+});
@@ -0,0 +1,1152 @@
+// src/lib/intent/__tests__/resolve.test.ts
+// Vitest tests for the intent resolver
+// - Focus on normalization rules + emitted CSS variables
+
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { GlowName, IntentInput, IntentName, IntentShorthand } from "../types";
+import {
+    auditIntentContrastMatrix,
+    composeIntentClassName,
+    getIntentControlProps,
+    mergeIntentInput,
+    resolveIntent,
+    resolveIntentWithWarnings,
+    stepNestedElevation,
+} from "../resolve";
+import {
+    clearIntentCache,
+    getIntentCacheKey,
+    getIntentCacheStats,
+    resolveIntentCached,
+    setIntentCacheSize,
+    DEFAULT_INTENT_CACHE_SIZE,
+} from "../cache";
+import { auditResolvedContrast, evaluateIntentColor } from "../contrast";
+import { checkIntentDistinguishability } from "../distinguish";
+import {
+    generateIntentStylesheet,
+    generateIntentUtilities,
+    getIntentUtilityClassName,
+} from "../static";
+import { parseIntentInput } from "../parse";
+import { expandIntentShorthand, formatIntentShorthand, parseIntentShorthand } from "../shorthand";
+import { getSystemMode, subscribeSystemMode } from "../mode";
+import { registerGlow, registerIntent, unregisterGlow, unregisterIntent } from "../registry";
+
+/* ============================================================================
+   MERGE (provider defaults ← local props)
+============================================================================ */
+
+describe("resolve: mergeIntentInput", () => {
+    it("local values override base values", () => {
+        const merged = mergeIntentInput(
+            { mode: "light", intensity: "soft" },
+            { mode: "dark", intent: "warned" }
+        );
+        expect(merged).toEqual({ mode: "dark", intensity: "soft", intent: "warned" });
+    });
+
+    it("undefined local values never erase base values", () => {
+        const local = { mode: undefined } as unknown as { mode: "dark" };
+        expect(mergeIntentInput({ mode: "light" }, local)).toEqual({ mode: "light" });
+    });
+
+    it("merged defaults flow through resolveIntent", () => {
+        const resolved = resolveIntent(mergeIntentInput({ mode: "light" }, {}));
+        expect(resolved.mode).toBe("light");
+    });
+});
+
+/* ============================================================================
+   CUSTOM INTENTS (registry)
+============================================================================ */
+
+describe("resolve: custom intents", () => {
+    afterEach(() => unregisterIntent("pending"));
+
+    it("resolves a registered intent like a semantic one", () => {
+        registerIntent("pending", { color: "148 163 184", textFamily: "slate", glow: "info" });
+
+        const resolved = resolveIntent({ intent: "pending" as IntentName, glow: true });
+
+        expect(resolved.toneEffective).toBe("pending");
+        expect(resolved.glowKey).toBe("info");
+        expect(resolved.style?.["--intent-bg"]).toBe("rgb(var(--ids-pending, 148 163 184))");
+        expect(resolved.style?.["--intent-text"]).toBe("var(--ids-color-slate-200)");
+    });
+
+    it("refuses built-in names", () => {
+        expect(() => registerIntent("warned", { color: "0 0 0", textFamily: "slate" })).toThrow();
+    });
+
+    it("warns on unknown intents", () => {
+        const { warnings } = resolveIntentWithWarnings({ intent: "nope" as IntentName });
+        expect(warnings.map((w) => w.code)).toContain("intent_unknown");
+    });
+});
+
+/* ============================================================================
+   CUSTOM GLOWS (registry)
+============================================================================ */
+
+describe("resolve: custom glows", () => {
+    afterEach(() => unregisterGlow("nebula"));
+
+    it("builds the gradient recipe and tints text with textTone", () => {
+        registerGlow("nebula", {
+            textTone: "indigo",
+            layers: [
+                { type: "radial", color: "99 102 241", alpha: 0.3 },
+                { type: "conic", color: "#d946ef", alpha: 0.2, from: "90deg" },
+            ],
+        });
+
+        const resolved = resolveIntent({ intent: "glowed", glow: "nebula" as GlowName });
+
+        expect(resolved.glowKey).toBe("nebula");
+        expect(resolved.glowBackground).toBe(
+            "radial-gradient(190% 150% at 15% 20%, rgba(99,102,241,0.3) 0%, rgba(99,102,241,0.04) 74%)," +
+                "conic-gradient(from 90deg at 50% 50%, rgba(217,70,239,0.2) 0%, rgba(217,70,239,0.04) 100%)"
+        );
+        expect(resolved.style?.["--intent-text"]).toBe("var(--ids-color-indigo-200)");
+    });
+
+    it("warns on unknown aesthetic glows", () => {
+        const { glowKey, warnings } = resolveIntentWithWarnings({
+            intent: "glowed",
+            glow: "nebula" as GlowName,
+        });
+        expect(glowKey).toBe("aurora");
+        expect(warnings.map((w) => w.code)).toContain("glow_unknown");
+    });
+});
+
+/* ============================================================================
+   RUNTIME THEME COLOR
+============================================================================ */
+
+describe("resolve: themeColor", () => {
+    it("themed intent follows the runtime theme color", () => {
+        const resolved = resolveIntent({ intent: "themed", themeColor: "#0ea5e9" });
+        expect(resolved.style?.["--intent-bg"]).toBe("rgb(14, 165, 233)");
+    });
+
+    it("theme glow is recomputed from the runtime theme color", () => {
+        const base = resolveIntent({ intent: "themed", glow: true });
+        const tenant = resolveIntent({ intent: "themed", glow: true, themeColor: "14 165 233" });
+
+        expect(tenant.glowKey).toBe("theme");
+        expect(tenant.glowBackground).not.toBe(base.glowBackground);
+        expect(tenant.glowBackground).toContain("rgba(14,165,233,0.28)");
+    });
+
+    it("falls back to DEFAULT_THEME_COLOR when unparsable", () => {
+        const a = resolveIntent({ intent: "themed" });
+        const b = resolveIntent({ intent: "themed", themeColor: "nope" });
+        expect(b.style).toEqual(a.style);
+    });
+});
+
+/* ============================================================================
+   NUMERIC INTENSITY
+============================================================================ */
+
+describe("resolve: numeric intensity", () => {
+    it("named steps are aliases of 0 / 0.5 / 1", () => {
+        for (const [step, level] of [
+            ["soft", 0],
+            ["medium", 0.5],
+            ["strong", 1],
+        ] as const) {
+            const named = resolveIntent({ intent: "warned", glow: true, intensity: step });
+            const numeric = resolveIntent({ intent: "warned", glow: true, intensity: level });
+            expect(numeric.style).toEqual(named.style);
+            expect(named.intensityLevel).toBe(level);
+        }
+    });
+
+    it("interpolates opacity curves between anchors", () => {
+        const resolved = resolveIntent({ intent: "warned", glow: true, intensity: 0.25 });
+        expect(resolved.style?.["--intent-bg-opacity"]).toBe("0.13");
+        expect(resolved.style?.["--intent-glow-fill-opacity"]).toBe("0.75");
+        expect(resolved.style?.["--intent-glow-border-opacity"]).toBe("0.84");
+    });
+
+    it("clamps out-of-range levels", () => {
+        expect(resolveIntent({ intensity: 3 }).intensityLevel).toBe(1);
+        expect(resolveIntent({ intensity: -1 }).intensityLevel).toBe(0);
+    });
+});
+
+/* ============================================================================
+   CONTRAST AUDIT
+============================================================================ */
+
+describe("resolve: contrast audit", () => {
+    it("built-in combinations pass AA on the default backdrops", () => {
+        expect(auditIntentContrastMatrix()).toEqual([]);
+    });
+
+    it("emits low_contrast_text with the measured ratio and target", () => {
+        const { warnings } = resolveIntentWithWarnings(
+            { mode: "dark", intent: "toned", tone: "blue", variant: "flat" },
+            { contrast: { backdrop: { r: 255, g: 255, b: 255 } } }
+        );
+
+        const warning = warnings.find((w) => w.code === "low_contrast_text");
+        expect(warning?.contrast?.level).toBe("AA");
+        expect(warning?.contrast?.target).toBe(4.5);
+        expect(warning?.contrast?.ratio).toBeLessThan(4.5);
+    });
+
+    it('evaluates the HSL channels of tone="black"', () => {
+        expect(evaluateIntentColor("0 0% 100%")).toEqual({ r: 255, g: 255, b: 255 });
+
+        for (const mode of ["light", "dark"] as const) {
+            const report = auditResolvedContrast(
+                resolveIntent({ intent: "toned", tone: "black", variant: "flat", mode })
+            );
+            expect(report?.background).toEqual({ r: 0, g: 0, b: 0 });
+            expect(report?.ratio).toBe(21);
+        }
+
+        // unfilled in light: the paper backdrop shows, the ink turns black
+        const outlined = resolveIntent({
+            intent: "toned",
+            tone: "black",
+            variant: "outlined",
+            mode: "light",
+        });
+        expect(outlined.style?.["--intent-text"]).toBe("0 0% 0%");
+    });
+
+    it("AAA is stricter than AA", () => {
+        const aaa = auditIntentContrastMatrix({ level: "AAA" });
+        expect(aaa.length).toBeGreaterThan(0);
+        expect(aaa.every(({ report }) => report.ratio < 7)).toBe(true);
+    });
+
+    it("can be disabled", () => {
+        const { warnings } = resolveIntentWithWarnings(
+            { mode: "dark", intent: "toned", tone: "blue", variant: "flat" },
+            { contrast: false }
+        );
+        expect(warnings).toEqual([]);
+    });
+
+    it("evaluates oklch tokens and color-mix() state colors", () => {
+        // excerpt of styles/tokens.css
+        const tokens: Record<string, string> = {
+            "--ids-color-amber-500": "oklch(0.769 0.188 70.08)",
+            "--ids-warned": "245 158 11",
+        };
+        const resolveVar = (name: string) => tokens[name];
+
+        // real token value vs the built-in estimate (TONE_TO_RGB)
+        expect(evaluateIntentColor("var(--ids-color-amber-500)", resolveVar)).toEqual({
+            r: 254,
+            g: 154,
+            b: 0,
+        });
+        expect(evaluateIntentColor("var(--ids-color-amber-500)")).toEqual({
+            r: 245,
+            g: 158,
+            b: 11,
+        });
+
+        // unresolved vars fall back to the estimates
+        expect(
+            evaluateIntentColor(
+                "color-mix(in oklab, rgb(var(--ids-warned)) 50%, rgb(var(--ids-paper)))",
+                resolveVar
+            )
+        ).toEqual({ r: 252, g: 208, b: 157 });
+
+        const hover = resolveIntent({ intent: "warned" }).style?.["--intent-bg-hover"] ?? "";
+        expect(hover).toMatch(/^color-mix\(/);
+        expect(evaluateIntentColor(hover)).not.toBeNull();
+    });
+});
+
+/* ============================================================================
+   DISTINGUISHABILITY (color vision deficiency)
+============================================================================ */
+
+describe("resolve: intent distinguishability", () => {
+    it("compares every semantic pair under each vision type", () => {
+        const report = checkIntentDistinguishability();
+
+        expect(Object.keys(report.colors)).toEqual([
+            "informed",
+            "empowered",
+            "warned",
+            "threatened",
+            "themed",
+        ]);
+        expect(report.pairs).toHaveLength(10 * 4);
+        expect(
+            report.pairs.filter((p) => p.vision === "normal").every((p) => p.distinguishable)
+        ).toBe(true);
+    });
+
+    it("warns when empowered / threatened collapse under deuteranopia", () => {
+        const report = checkIntentDistinguishability({ visions: ["deuteranopia"] });
+        const warning = report.warnings.find(
+            (w) => w.distinguishability?.intents.join("/") === "empowered/threatened"
+        );
+
+        expect(report.passes).toBe(false);
+        expect(warning?.code).toBe("intents_indistinguishable");
+        expect(warning?.distinguishability?.vision).toBe("deuteranopia");
+        expect(warning?.distinguishability?.distance).toBeLessThan(0.1);
+    });
+
+    it("threshold, intents and custom intents are configurable", () => {
+        expect(
+            checkIntentDistinguishability({ intents: ["informed", "warned"] }).pairs
+        ).toHaveLength(4);
+        expect(checkIntentDistinguishability({ threshold: 0 }).passes).toBe(true);
+
+        registerIntent("brand", { color: "16 185 129", textFamily: "emerald" });
+        try {
+            const report = checkIntentDistinguishability({ visions: ["normal"] });
+            const pair = report.pairs.find((p) => p.intents.join("/") === "empowered/brand");
+            expect(pair?.distinguishable).toBe(false);
+        } finally {
+            unregisterIntent("brand");
+        }
+    });
+});
+
+/* ============================================================================
+   CACHE (memoized resolver)
+============================================================================ */
+
+describe("resolve: cache", () => {
+    afterEach(() => {
+        setIntentCacheSize(DEFAULT_INTENT_CACHE_SIZE);
+        clearIntentCache();
+        unregisterIntent("cached");
+    });
+
+    it("returns the same object for equivalent inputs", () => {
+        const a = resolveIntentCached({ intent: "warned", variant: "outlined" });
+        const b = resolveIntentCached({ variant: "outlined", intent: "warned", mode: "dark" });
+
+        expect(b).toBe(a);
+        expect(a).toEqual(resolveIntent({ intent: "warned", variant: "outlined" }));
+        expect(Object.isFrozen(a.style)).toBe(true);
+    });
+
+    it("ignores tone unless intent is toned", () => {
+        expect(resolveIntentCached({ intent: "warned", tone: "rose" })).toBe(
+            resolveIntentCached({ intent: "warned" })
+        );
+        expect(resolveIntentCached({ intent: "toned", tone: "rose" })).not.toBe(
+            resolveIntentCached({ intent: "toned", tone: "sky" })
+        );
+    });
+
+    it("keeps derived props identity-stable", () => {
+        const resolved = resolveIntentCached({ intent: "empowered" });
+        expect(getIntentControlProps(resolved, "x")).toBe(getIntentControlProps(resolved, "x"));
+    });
+
+    it("evicts least recently used entries beyond the bound", () => {
+        setIntentCacheSize(2);
+        const soft = resolveIntentCached({ intensity: "soft" });
+        resolveIntentCached({ intensity: "medium" });
+        resolveIntentCached({ intensity: "soft" }); // refresh
+        resolveIntentCached({ intensity: "strong" }); // evicts medium
+
+        expect(getIntentCacheStats().size).toBe(2);
+        expect(resolveIntentCached({ intensity: "soft" })).toBe(soft);
+    });
+
+    it("invalidates when the registry changes", () => {
+        registerIntent("cached", { color: "#22c55e", textFamily: "green" });
+        const before = resolveIntentCached({ intent: "cached" as IntentName });
+
+        registerIntent("cached", { color: "#ef4444", textFamily: "red" });
+        const after = resolveIntentCached({ intent: "cached" as IntentName });
+
+        expect(after).not.toBe(before);
+        expect(after.style?.["--intent-text"]).not.toBe(before.style?.["--intent-text"]);
+    });
+});
+
+/* ============================================================================
+   STATIC CSS OUTPUT (data attributes + generated stylesheet)
+============================================================================ */
+
+describe("resolve: static css output", () => {
+    // Minimal cascade: matching rules by attribute selectors (+ :not([attr])), most specific wins.
+    function cascade(css: string, attributes: Record<string, string>) {
+        const out: Record<string, { value: string; specificity: number }> = {};
+
+        for (const [, selector = "", body = ""] of css.matchAll(/([^{}]+)\{([^}]*)\}/g)) {
+            const negated = Array.from(
+                selector.matchAll(/:not\(\[([\w-]+)\]\)/g),
+                ([, n = ""]) => n
+            );
+            const parts = Array.from(
+                selector.replace(/:not\([^)]*\)/g, "").matchAll(/\[([\w-]+)(?:="([^"]*)")?\]/g)
+            );
+            if (parts.length === 0) continue;
+
+            const matches =
+                parts.every(([, name = "", value]) =>
+                    value === undefined ? name in attributes : attributes[name] === value
+                ) && !negated.some((name) => name in attributes);
+            if (!matches) continue;
+
+            for (const [, name = "", value = ""] of body.matchAll(/(--[\w-]+):\s*([^;]+);/g)) {
+                const prev = out[name];
+                const specificity = parts.length + negated.length;
+                if (!prev || specificity >= prev.specificity) {
+                    out[name] = { value, specificity };
+                }
+            }
+        }
+
+        return Object.fromEntries(Object.entries(out).map(([k, v]) => [k, v.value]));
+    }
+
+    it("emits attributes instead of inline style", () => {
+        const resolved = resolveIntent({ intent: "toned", tone: "rose", cssOutput: "static" });
+
+        expect(resolved.style).toBeUndefined();
+        expect(resolved.attributes).toMatchObject({
+            "data-intent": "toned",
+            "data-tone": "rose",
+            "data-intensity": "medium",
+            "data-mode": "dark",
+        });
+        expect(getIntentControlProps(resolved)).toMatchObject({ "data-tone": "rose" });
+    });
+
+    it("snaps numeric intensity to the nearest step", () => {
+        const resolved = resolveIntent({ intensity: 0.9, cssOutput: "static" });
+        expect(resolved.intensity).toBe("strong");
+        expect(resolved.attributes["data-intensity"]).toBe("strong");
+    });
+
+    it("stylesheet reproduces the inline variables", () => {
+        const css = generateIntentStylesheet();
+        const inputs: IntentInput[] = [
+            { intent: "warned", variant: "outlined", intensity: "soft", mode: "light" },
+            { intent: "empowered", glow: true, variant: "elevated", intensity: "strong" },
+            { intent: "toned", tone: "emerald", variant: "flat", mode: "light" },
+            { intent: "glowed", glow: "aurora", variant: "ghost" },
+            { intent: "glowed", glow: "ember", glowMotion: "shimmer" },
+            { intent: "threatened", elevation: 4, mode: "light" },
+            { intent: "informed", variant: "elevated", elevation: 0 },
+            { intent: "warned", variant: "solid", mode: "light" },
+            { intent: "glowed", glow: "cosmic", variant: "glass", intensity: "strong" },
+        ];
+
+        for (const input of inputs) {
+            const inline = resolveIntent(input);
+            const stat = resolveIntent({ ...input, cssOutput: "static" });
+            const expected = Object.fromEntries(
+                Object.entries(inline.style ?? {}).map(([k, v]) => [k, v === "" ? "initial" : v])
+            );
+
+            expect(cascade(css, stat.attributes)).toEqual(expected);
+        }
+    });
+
+    it("keys the elevation shadow on mode / elevation only", () => {
+        const css = generateIntentStylesheet();
+        const selectors = Array.from(
+            css.matchAll(/([^{}]+)\{[^}]*--intent-elev-shadow:/g),
+            ([, selector = ""]) => selector.trim()
+        );
+
+        expect(selectors.length).toBeGreaterThan(0);
+        for (const selector of selectors) expect(selector).not.toMatch(/data-(intent|tone|glow)=/);
+    });
+});
+
+/* ============================================================================
+   TAILWIND UTILITIES (class-only markup)
+============================================================================ */
+
+describe("resolve: intent utilities", () => {
+    // Applies a utility rule to a class list ("&.a:not(.b, .c)" nested selectors).
+    function applyUtilities(classNames: string) {
+        const classes = new Set(classNames.split(" "));
+        const utilities = generateIntentUtilities();
+        const out: Record<string, string> = {};
+
+        for (const className of classes) {
+            const rule = utilities[`.${className}`];
+            if (!rule) continue;
+
+            for (const [key, value] of Object.entries(rule)) {
+                if (typeof value === "string") {
+                    out[key] = value;
+                    continue;
+                }
+
+                const negated = Array.from(key.matchAll(/:not\(([^)]*)\)/g), ([, list = ""]) =>
+                    list.split(",").map((c) => c.trim().slice(1))
+                ).flat();
+                const required = Array.from(
+                    key.replace(/:not\([^)]*\)/g, "").matchAll(/\.([\w-]+)/g),
+                    ([, c = ""]) => c
+                );
+
+                if (required.every((c) => classes.has(c)) && !negated.some((c) => classes.has(c))) {
+                    Object.assign(out, value);
+                }
+            }
+        }
+
+        return out;
+    }
+
+    it("builds the class list from an IntentInput", () => {
+        const className = getIntentUtilityClassName({
+            intent: "warned",
+            variant: "outlined",
+            intensity: 0.9,
+            glow: true,
+        });
+
+        expect(className.split(" ")).toEqual(
+            expect.arrayContaining([
+                "intent-surface",
+                "has-intent-glow",
+                "intent-warned",
+                "intent-glow",
+                "intent-variant-outlined",
+                "intent-strong",
+                "intent-mode-dark",
+            ])
+        );
+        expect(getIntentUtilityClassName({ intent: "toned", tone: "rose" })).toContain(
+            "intent-tone-rose"
+        );
+        expect(getIntentUtilityClassName({ intent: "glowed", glow: "aurora" })).toContain(
+            "intent-glow-aurora"
+        );
+    });
+
+    it("utilities reproduce the inline variables", () => {
+        const inputs: IntentInput[] = [
+            { intent: "warned", variant: "outlined", intensity: "soft", mode: "light" },
+            { intent: "empowered", glow: true, variant: "elevated", intensity: "strong" },
+            { intent: "informed", variant: "flat" },
+            { intent: "toned", tone: "emerald", variant: "flat", mode: "light" },
+            { intent: "glowed", glow: "aurora", variant: "ghost" },
+            { intent: "warned", glow: true, glowMotion: "pulse" },
+            { intent: "threatened", elevation: 4, mode: "light" },
+            { intent: "informed", variant: "elevated", elevation: 0 },
+            { intent: "toned", tone: "sky", variant: "solid" },
+            { intent: "empowered", variant: "glass", mode: "light" },
+        ];
+
+        for (const input of inputs) {
+            const expected = Object.fromEntries(
+                Object.entries(resolveIntent(input).style ?? {}).map(([k, v]) => [
+                    k,
+                    v === "" ? "initial" : v,
+                ])
+            );
+
+            expect(applyUtilities(getIntentUtilityClassName(input))).toEqual(expected);
+        }
+    });
+
+    it("bare subject classes use the resolver defaults", () => {
+        const { style = {} } = resolveIntent({ intent: "threatened" });
+
+        expect(applyUtilities("intent-threatened")).toEqual({
+            ...style,
+            "--intent-glow-bg": "initial",
+        });
+    });
+});
+
+/* ============================================================================
+   SYSTEM MODE (prefers-color-scheme)
+============================================================================ */
+
+describe("resolve: system mode", () => {
+    function stubColorScheme(initial: "light" | "dark") {
+        let scheme = initial;
+        const listeners = new Set<() => void>();
+
+        vi.stubGlobal("window", {
+            matchMedia: (query: string) => ({
+                matches: query.includes(scheme),
+                addEventListener: (_: string, cb: () => void) => listeners.add(cb),
+                removeEventListener: (_: string, cb: () => void) => listeners.delete(cb),
+            }),
+        });
+
+        return (next: "light" | "dark") => {
+            scheme = next;
+            listeners.forEach((cb) => cb());
+        };
+    }
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        clearIntentCache();
+    });
+
+    it("falls back to dark without matchMedia (SSR)", () => {
+        expect(getSystemMode()).toBe("dark");
+        expect(resolveIntent({ mode: "system" }).mode).toBe("dark");
+    });
+
+    it("follows prefers-color-scheme and notifies subscribers", () => {
+        const setScheme = stubColorScheme("light");
+        const onChange = vi.fn();
+        const unsubscribe = subscribeSystemMode(onChange);
+
+        expect(resolveIntentCached({ mode: "system" })).toBe(
+            resolveIntentCached({ mode: "light" })
+        );
+
+        setScheme("dark");
+        expect(onChange).toHaveBeenCalledTimes(1);
+        expect(resolveIntentCached({ mode: "system" }).mode).toBe("dark");
+        expect(resolveIntent({ mode: "system" }).style?.["--intent-text"]).toBe(
+            resolveIntent({ mode: "dark" }).style?.["--intent-text"]
+        );
+
+        unsubscribe();
+    });
+});
+
+/* ============================================================================
+   HIGH CONTRAST (forced-colors / prefers-contrast: more)
+============================================================================ */
+
+describe("resolve: high contrast", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        clearIntentCache();
+    });
+
+    it("uses opaque system colors and suppresses glow", () => {
+        const resolved = resolveIntent({ intent: "warned", glow: true, mode: "high-contrast" });
+
+        expect(resolved.highContrast).toBe(true);
+        expect(resolved.glowBackground).toBeNull();
+        expect(resolved.classes.contrast).toBe("intent-high-contrast");
+        expect(resolved.style).toMatchObject({
+            "--intent-bg": "Canvas",
+            "--intent-bg-opacity": "1",
+            "--intent-text": "CanvasText",
+            "--intent-ring-opacity": "1",
+            "--intent-glow-fill-opacity": "0",
+        });
+    });
+
+    it("is auto-detected by mode=system", () => {
+        vi.stubGlobal("window", {
+            matchMedia: (query: string) => ({ matches: query === "(forced-colors: active)" }),
+        });
+
+        expect(resolveIntent({ mode: "system" }).highContrast).toBe(true);
+        expect(resolveIntentCached({ mode: "system" })).not.toBe(
+            resolveIntentCached({ mode: "dark" })
+        );
+    });
+
+    it("explicit high-contrast does not read the OS scheme (same on server and client)", () => {
+        const matchMedia = vi.fn((query: string) => ({ matches: query.includes("light") }));
+        vi.stubGlobal("window", { matchMedia });
+
+        expect(resolveIntent({ mode: "high-contrast" }).mode).toBe("dark");
+        expect(getIntentCacheKey({ mode: "high-contrast" })).toMatch(/^dark\|hc\|/);
+        expect(matchMedia).not.toHaveBeenCalled();
+    });
+
+    it("static stylesheet carries a high-contrast block", () => {
+        const css = generateIntentStylesheet({ intents: ["informed"], tones: [] });
+        expect(css).toContain(`[data-contrast="more"]`);
+        expect(css).toContain("--intent-bg: Canvas !important;");
+    });
+});
+
+/* ============================================================================
+   INTERACTION STATES
+============================================================================ */
+
+describe("resolve: interaction states", () => {
+    const STATE_VARS = [
+        "--intent-bg-hover",
+        "--intent-bg-pressed",
+        "--intent-bg-selected",
+        "--intent-text-selected",
+        "--intent-ring-hover",
+        "--intent-ring-focus",
+    ];
+
+    const percentOf = (value: string | undefined) =>
+        Number(value?.match(/ ([\d.]+)%, transparent\)$/)?.[1]);
+
+    it("emits every state var, derived from bg / ring", () => {
+        const style = resolveIntent({ intent: "warned" }).style ?? {};
+
+        for (const name of STATE_VARS) expect(style[name]).toBeTruthy();
+        expect(style["--intent-bg-hover"]).toContain(style["--intent-bg"]);
+        expect(style["--intent-ring-focus"]).toContain(style["--intent-ring"]);
+        expect(style["--intent-text-selected"]).toBe(style["--intent-text"]);
+    });
+
+    it("scales with intensity", () => {
+        const soft = resolveIntent({ intent: "informed", intensity: "soft" }).style ?? {};
+        const strong = resolveIntent({ intent: "informed", intensity: "strong" }).style ?? {};
+
+        for (const name of ["--intent-bg-hover", "--intent-bg-selected", "--intent-ring-focus"]) {
+            expect(percentOf(strong[name])).toBeGreaterThan(percentOf(soft[name]));
+        }
+        expect(percentOf(soft["--intent-bg-pressed"])).toBeGreaterThan(
+            percentOf(soft["--intent-bg-hover"])
+        );
+    });
+
+    it("maps to system colors in high contrast", () => {
+        expect(resolveIntent({ mode: "high-contrast" }).style).toMatchObject({
+            "--intent-bg-selected": "Highlight",
+            "--intent-text-selected": "HighlightText",
+            "--intent-ring-focus": "Highlight",
+        });
+    });
+});
+
+/* ============================================================================
+   RUNTIME PARSING (untrusted JSON)
+============================================================================ */
+
+describe("resolve: parseIntentInput", () => {
+    it("accepts a valid input and drops unknown keys", () => {
+        const parsed = parseIntentInput({
+            intent: "toned",
+            tone: "emerald",
+            variant: "outlined",
+            intensity: 0.7,
+            extra: "ignored",
+        });
+
+        expect(parsed.ok).toBe(true);
+        expect(parsed.value).toEqual({
+            intent: "toned",
+            tone: "emerald",
+            variant: "outlined",
+            intensity: 0.7,
+        });
+    });
+
+    it("reports field-level errors", () => {
+        const parsed = parseIntentInput({
+            intent: "nope",
+            tone: "sparkly",
+            variant: 3,
+            intensity: 2,
+            themeColor: "not-a-color",
+        });
+
+        expect(parsed.ok).toBe(false);
+        expect(parsed.errors.map((e) => [e.field, e.code])).toEqual([
+            ["variant", "invalid_type"],
+            ["intensity", "invalid_value"],
+            ["themeColor", "invalid_value"],
+            ["intent", "intent_unknown"],
+            ["tone", "tone_unknown"],
+        ]);
+    });
+
+    it("rejects glow keys invalid for the intent", () => {
+        expect(parseIntentInput({ intent: "glowed", glow: "warn" }).errors[0]?.code).toBe(
+            "glow_intent_key_forbidden"
+        );
+        expect(parseIntentInput({ intent: "glowed", glow: "sparkle" }).errors[0]?.code).toBe(
+            "glow_unknown"
+        );
+        expect(parseIntentInput({ intent: "warned", glow: "sparkle" }).errors[0]?.field).toBe(
+            "glow"
+        );
+    });
+
+    it("keeps ignored combinations as warnings", () => {
+        const parsed = parseIntentInput({ intent: "warned", tone: "emerald" });
+
+        expect(parsed.ok).toBe(true);
+        expect(parsed.warnings.map((w) => w.code)).toEqual(["tone_ignored"]);
+    });
+
+    it("rejects non-objects", () => {
+        expect(parseIntentInput("warned").errors).toEqual([
+            { field: null, code: "invalid_type", message: 'Expected an object, got "warned".' },
+        ]);
+    });
+});
+
+/* ============================================================================
+   SHORTHAND
+============================================================================ */
+
+describe("resolve: intent shorthand", () => {
+    it("parses variant / intensity / mode segments and flags", () => {
+        expect(parseIntentShorthand("warned/outlined/strong +glow").value).toEqual({
+            intent: "warned",
+            variant: "outlined",
+            intensity: "strong",
+            glow: true,
+        });
+        expect(parseIntentShorthand("toned:emerald/flat").value).toEqual({
+            intent: "toned",
+            tone: "emerald",
+            variant: "flat",
+        });
+        expect(parseIntentShorthand("glowed:ember/0.7/light +disabled").value).toEqual({
+            intent: "glowed",
+            glow: "ember",
+            intensity: 0.7,
+            mode: "light",
+            disabled: true,
+        });
+    });
+
+    it("round-trips through the canonical form", () => {
+        for (const shorthand of [
+            "warned/outlined/strong +glow",
+            "toned:emerald/flat",
+            "glowed:aurora/ghost/0.25/system",
+            "threatened/dark +glow +disabled",
+        ]) {
+            const parsed = parseIntentShorthand(shorthand);
+            expect(parsed.ok).toBe(true);
+            expect(formatIntentShorthand(parsed.value ?? {})).toBe(shorthand);
+        }
+
+        // "/" inside a color's parentheses is not a segment separator
+        for (const shorthand of [
+            "toned:rgb(10 20 30 / 0.5)/outlined",
+            "toned:oklch(0.65 0.18 250 / 50%)/flat/strong",
+        ]) {
+            const parsed = parseIntentShorthand(shorthand);
+            expect(parsed.ok).toBe(true);
+            expect(formatIntentShorthand(parsed.value ?? {})).toBe(shorthand);
+        }
+        expect(parseIntentShorthand("toned:rgb(10 20 30 / 0.5)").value).toEqual({
+            intent: "toned",
+            tone: "rgb(10 20 30 / 0.5)",
+        });
+
+        // small numbers are written out without exponent, so they parse back
+        for (const intensity of [1e-7, 1.5e-7, 0.000001, 0.25]) {
+            const shorthand = formatIntentShorthand({ intent: "warned", intensity });
+            expect(shorthand).not.toMatch(/\de/);
+            expect(parseIntentShorthand(shorthand).value).toEqual({ intent: "warned", intensity });
+        }
+
+        // segment order / spacing normalize to the canonical form
+        const loose = parseIntentShorthand("warned/strong/outlined+glow").value ?? {};
+        expect(formatIntentShorthand(loose)).toBe("warned/outlined/strong +glow");
+    });
+
+    it("reports syntax and value errors", () => {
+        expect(parseIntentShorthand("warned/shiny").errors[0]?.field).toBeNull();
+        expect(parseIntentShorthand("warned:emerald").ok).toBe(false);
+        expect(parseIntentShorthand("warned/flat/ghost").ok).toBe(false);
+        expect(parseIntentShorthand("toned:sparkly").errors.map((e) => e.code)).toEqual([
+            "tone_unknown",
+        ]);
+    });
+
+    it("expands for components, explicit props win", () => {
+        expect(
+            expandIntentShorthand({ intent: "warned/outlined/strong", variant: "flat" })
+        ).toEqual({ intent: "warned", variant: "flat", intensity: "strong" });
+        expect(expandIntentShorthand({ intent: "warned" })).toEqual({ intent: "warned" });
+    });
+
+    it("keeps the valid segments of an invalid shorthand instead of throwing", () => {
+        expect(expandIntentShorthand({ intent: "warned/shiny/outlined" })).toEqual({
+            intent: "warned",
+            variant: "outlined",
+        });
+        expect(expandIntentShorthand({ intent: "toned:sparkly/flat" })).toEqual({
+            intent: "toned",
+            variant: "flat",
+        });
+        // unknown intent names are kept: the resolver falls back like for a plain intent
+        expect(expandIntentShorthand({ intent: "nope/ghost" as IntentShorthand })).toEqual({
+            intent: "nope",
+            variant: "ghost",
+        });
+    });
+
+    it("reports the dropped shorthand parts as warnings", () => {
+        const codes = (intent: IntentShorthand) =>
+            resolveIntentWithWarnings({ intent }, { contrast: false }).warnings.map((w) => [
+                w.code,
+                w.field,
+            ]);
+
+        expect(codes("warned/shiny/outlined")).toEqual([["shorthand_invalid", "intent"]]);
+        expect(codes("toned:sparkly/flat")).toEqual([["shorthand_invalid", "tone"]]);
+        expect(codes("nope/ghost" as IntentShorthand)).toEqual([["intent_unknown", "intent"]]);
+        expect(codes("warned/outlined +glow")).toEqual([]);
+
+        const resolved = resolveIntentWithWarnings({ intent: "warned/shiny/outlined" });
+        expect(resolved.variant).toBe("outlined");
+        expect(resolved.warnings[0]?.message).toContain('"shiny"');
+    });
+});
+
+/* ============================================================================
+   CUSTOM TONE COLORS
+============================================================================ */
+
+describe("resolve: custom tone colors", () => {
+    it("derives palette-like steps from any CSS color", () => {
+        for (const tone of ["#1e90ff", "rgb(30 144 255)", "rgba(30, 144, 255, 1)", "30 144 255"]) {
+            const resolved = resolveIntent({ intent: "toned", tone, mode: "dark" });
+
+            expect(resolved.toneEffective).toBe("#1e90ff");
+            expect(resolved.style?.["--intent-bg"]).toBe("rgb(30, 144, 255)");
+        }
+
+        expect(resolveIntent({ intent: "toned", tone: "hsl(210 100% 56%)" }).toneEffective).toMatch(
+            /^#[0-9a-f]{6}$/
+        );
+
+        const dark = resolveIntent({ intent: "toned", tone: "oklch(0.65 0.18 250)", mode: "dark" });
+        const light = resolveIntent({
+            intent: "toned",
+            tone: "oklch(0.65 0.18 250)",
+            mode: "light",
+        });
+
+        // text: 200 in dark (lighter than the base), 800 in light (darker)
+        expect(dark.style?.["--intent-text"]).not.toBe(light.style?.["--intent-text"]);
+        expect(resolveIntentWithWarnings({ intent: "toned", tone: "#1e90ff" }).warnings).toEqual(
+            []
+        );
+    });
+
+    it("keeps vars inline in static output and flags invalid colors", () => {
+        const resolved = resolveIntent({ intent: "toned", tone: "#d4a017", cssOutput: "static" });
+
+        expect(resolved.style?.["--intent-bg"]).toBeDefined();
+        expect(resolved.attributes["data-tone"]).toBeUndefined();
+
+        const { warnings } = resolveIntentWithWarnings({ intent: "toned", tone: "#zzz" });
+        expect(warnings.map((w) => w.code)).toContain("tone_unknown");
+    });
+});
+
+/* ============================================================================
+   GLOW MOTION
+============================================================================ */
+
+describe("resolve: glow motion", () => {
+    it("emits animation vars backed by the motion tokens", () => {
+        const resolved = resolveIntent({ intent: "glowed", glow: "aurora", glowMotion: "pulse" });
+
+        expect(resolved.glowMotion).toBe("pulse");
+        expect(resolved.classes.motion).toBe("has-intent-motion");
+        expect(resolved.style).toMatchObject({
+            "--intent-glow-motion": "ids-glow-pulse",
+            "--intent-glow-motion-duration": "var(--ids-motion-duration-pulse, 2400ms)",
+        });
+        expect(composeIntentClassName(resolved)).toContain("has-intent-motion");
+        expect(
+            resolveIntent({
+                intent: "warned",
+                glow: true,
+                glowMotion: "breathe",
+                cssOutput: "static",
+            }).attributes["data-glow-motion"]
+        ).toBe("breathe");
+    });
+
+    it("is none without a glow layer, with a warning", () => {
+        const { warnings, ...resolved } = resolveIntentWithWarnings({
+            intent: "warned",
+            glowMotion: "shimmer",
+        });
+
+        expect(resolved.glowMotion).toBe("none");
+        expect(resolved.style?.["--intent-glow-motion"]).toBe("none");
+        expect(composeIntentClassName(resolved)).not.toContain("has-intent-motion");
+        expect(warnings.map((w) => w.code)).toEqual(["glow_motion_ignored"]);
+    });
+
+    it("is validated by the parser and expressed as a shorthand flag", () => {
+        expect(parseIntentInput({ glowMotion: "wobble" }).errors.map((e) => e.field)).toEqual([
+            "glowMotion",
+        ]);
+        expect(parseIntentShorthand("glowed:ember/strong +pulse").value).toEqual({
+            intent: "glowed",
+            glow: "ember",
+            intensity: "strong",
+            glowMotion: "pulse",
+        });
+        expect(formatIntentShorthand({ intent: "warned", glow: true, glowMotion: "breathe" })).toBe(
+            "warned +glow +breathe"
+        );
+        expect(parseIntentShorthand("warned +glow +wobble").ok).toBe(false);
+        expect(
+            getIntentUtilityClassName({ intent: "warned", glow: true, glowMotion: "pulse" })
+        ).toContain("intent-motion-pulse");
+    });
+});
+
+/* ============================================================================
+   ELEVATION
+============================================================================ */
+
+describe("resolve: elevation", () => {
+    it("resolves shadow and tint vars per mode and level", () => {
+        const dark = resolveIntent({ elevation: 3 });
+        const light = resolveIntent({ elevation: 3, mode: "light" });
+
+        expect(dark.elevation).toBe(3);
+        expect(dark.style?.["--intent-elev-shadow"]).toMatch(
+            /^var\(--ids-elevation-shadow-dark-3, /
+        );
+        expect(dark.style?.["--intent-elev-tint"]).toBe(
+            "rgb(var(--ids-paper) / var(--ids-elevation-tint-dark-3, 0.05))"
+        );
+        expect(light.style?.["--intent-elev-shadow"]).toMatch(
+            /^var\(--ids-elevation-shadow-light-3, /
+        );
+        expect(resolveIntent({ elevation: 3, cssOutput: "static" }).attributes).toMatchObject({
+            "data-elevation": "3",
+        });
+    });
+
+    it("defaults to 1 on elevated, 0 (no shadow, no tint) elsewhere", () => {
+        const elevated = resolveIntent();
+        const flat = resolveIntent({ variant: "flat", cssOutput: "static" });
+
+        expect(elevated.elevation).toBe(1);
+        expect(elevated.classes.shadow).toBe("intent-shadow-soft");
+        expect(flat.elevation).toBe(0);
+        expect(flat.attributes["data-elevation"]).toBeUndefined();
+        expect(resolveIntent({ variant: "flat" }).style).toMatchObject({
+            "--intent-elev-shadow": "none",
+            "--intent-elev-tint": "transparent",
+        });
+        expect(resolveIntent({ elevation: 0 }).classes.shadow).toBe("");
+    });
+
+    it("is dropped in high contrast", () => {
+        expect(resolveIntent({ elevation: 5, mode: "high-contrast" }).style).toMatchObject({
+            "--intent-elev-shadow": "none",
+            "--intent-elev-tint": "transparent",
+        });
+    });
+
+    it("steps nested elevated surfaces unless the merged input sets an elevation", () => {
+        const local = { variant: "elevated" } as const;
+
+        expect(stepNestedElevation(local, 2).elevation).toBe(3);
+        expect(stepNestedElevation(local, 5).elevation).toBe(5);
+        expect(stepNestedElevation(local, null)).toBe(local);
+        expect(stepNestedElevation({ variant: "flat" }, 2).elevation).toBeUndefined();
+
+        // a nested IntentProvider elevation wins over the stepping, like a prop
+        const provided = mergeIntentInput({ elevation: 4 }, local);
+        expect(stepNestedElevation(provided, 1).elevation).toBe(4);
+        expect(stepNestedElevation({ ...local, elevation: 0 }, 3).elevation).toBe(0);
+    });
+
+    it("warns outside elevated, validates in the parser, keys the cache", () => {
+        const { warnings } = resolveIntentWithWarnings({ variant: "outlined", elevation: 2 });
+
+        expect(warnings.map((w) => w.code)).toEqual(["elevation_ignored"]);
+        expect(parseIntentInput({ elevation: 2 }).value).toEqual({ elevation: 2 });
+        expect(parseIntentInput({ elevation: 2.5 }).errors.map((e) => e.code)).toEqual([
+            "invalid_value",
+        ]);
+        expect(parseIntentInput({ elevation: "2" }).errors.map((e) => e.code)).toEqual([
+            "invalid_type",
+        ]);
+        expect(getIntentCacheKey({ elevation: 2 })).not.toBe(getIntentCacheKey({}));
+        expect(getIntentCacheKey({ variant: "flat", elevation: 2 })).toBe(
+            getIntentCacheKey({ variant: "flat" })
+        );
+        expect(getIntentUtilityClassName({ elevation: 4 })).toContain("intent-elevation-4");
+    });
+});
+
+/* ============================================================================
+   SOLID / GLASS VARIANTS
+============================================================================ */
+
+describe("resolve: solid and glass variants", () => {
+    it("solid paints an opaque fill with readable ink", () => {
+        const warned = resolveIntent({ intent: "warned", variant: "solid" });
+        const threatened = resolveIntent({ intent: "threatened", variant: "solid" });
+
+        expect(warned.classes.surface).toBe("intent-bg");
+        expect(warned.classes.border).toBe("");
+        expect(warned.style).toMatchObject({
+            "--intent-bg-opacity": "1",
+            "--intent-text": "rgb(0, 0, 0)",
+        });
+        // literal fill, not the themable token: the ink was picked against this exact color
+        expect(warned.style?.["--intent-bg"]).toMatch(/^rgb\(\d+, \d+, \d+\)$/);
+        expect(threatened.style?.["--intent-text"]).toBe("rgb(0, 0, 0)");
+        expect(
+            resolveIntent({ intent: "toned", tone: "#1e3a8a", variant: "solid" }).style
+        ).toMatchObject({
+            "--intent-text": "rgb(255, 255, 255)",
+        });
+    });
+
+    it("solid gives glowed a glow-tone fill", () => {
+        const resolved = resolveIntent({ intent: "glowed", glow: "royal", variant: "solid" });
+
+        expect(resolved.classes.surface).toBe("intent-bg");
+        expect(resolved.style?.["--intent-bg"]).toBe("rgb(168, 85, 247)");
+        expect(resolved.style?.["--intent-bg-opacity"]).toBe("1");
+    });
+
+    it("glass is translucent paper with a border glow", () => {
+        const dark = resolveIntent({ intent: "informed", variant: "glass" });
+        const light = resolveIntent({ intent: "informed", variant: "glass", mode: "light" });
+
+        expect(dark.classes.surface).toBe("intent-bg intent-glass");
+        expect(dark.style?.["--intent-bg"]).toBe("rgb(var(--ids-paper))");
+        expect(Number(dark.style?.["--intent-bg-opacity"])).toBeLessThan(0.2);
+        expect(Number(light.style?.["--intent-bg-opacity"])).toBeGreaterThan(0.5);
+        expect(dark.style?.["--intent-glass-edge"]).toMatch(/^0 0 0 1px color-mix\(/);
+        expect(
+            resolveIntent({ variant: "glass", mode: "high-contrast" }).style?.[
+                "--intent-glass-edge"
+            ]
+        ).toBe("none");
+
+        // the edge only follows the ring + intensity, the elevation shadow only mode + level
+        expect(resolveIntent({ intent: "informed", variant: "flat" }).style).toMatchObject({
+            "--intent-glass-edge": dark.style?.["--intent-glass-edge"],
+            "--intent-elev-shadow": dark.style?.["--intent-elev-shadow"],
+        });
+        expect(
+            resolveIntent({ intent: "warned", variant: "glass" }).style?.["--intent-elev-shadow"]
+        ).toBe(dark.style?.["--intent-elev-shadow"]);
+    });
+
+    it("are accepted by the parser and the shorthand", () => {
+        expect(parseIntentInput({ variant: "glass" }).ok).toBe(true);
+        expect(parseIntentShorthand("warned/solid/strong").value).toEqual({
+            intent: "warned",
+            variant: "solid",
+            intensity: "strong",
+        });
+        expect(getIntentUtilityClassName({ variant: "solid" })).toContain("intent-variant-solid");
+    });
+});
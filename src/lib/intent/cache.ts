@@ -0,0 +1,140 @@
+/* ============================================================================
+   src/lib/intent/cache.ts
+   Intent Design System – Memoized resolver
+   - Normalized-key LRU cache in front of resolveIntent()
+   - Same normalized input => same (frozen) ResolvedIntent object
+   - Invalidated whenever the intent / glow registry changes
+============================================================================ */
+
+import type { IntentInput, ResolvedIntent } from "./types";
+
+import { DEFAULT_ELEVATION, DEFAULT_INTENT, DEFAULT_VARIANT, DEFAULT_TONE } from "./mapping";
+import { getRegistryVersion } from "./registry";
+import { isHighContrastMode, resolveModePreference } from "./mode";
+import { resolveIntent } from "./resolve";
+
+/* ============================================================================
+   🗂 Store
+============================================================================ */
+
+export const DEFAULT_INTENT_CACHE_SIZE = 512;
+
+let MAX_SIZE = DEFAULT_INTENT_CACHE_SIZE;
+let CACHE_VERSION = getRegistryVersion();
+
+// Map keeps insertion order: first key = least recently used.
+const CACHE = new Map<string, ResolvedIntent>();
+
+const STATS = { hits: 0, misses: 0 };
+
+export type IntentCacheStats = {
+    size: number;
+    maxSize: number;
+    hits: number;
+    misses: number;
+};
+
+/* ============================================================================
+   🔑 Key normalization
+============================================================================ */
+
+/**
+ * Stable cache key for an IntentInput.
+ * - Only resolver-relevant fields are read (native props / children are ignored)
+ * - Defaults are applied, so `{}` and `{ mode: "dark" }` share an entry
+ * - mode="system" is keyed on the current OS scheme / contrast
+ * - `tone` only counts for intent="toned", `elevation` for variant="elevated"
+ */
+export function getIntentCacheKey(input: IntentInput = {}): string {
+    const intent = input.intent ?? DEFAULT_INTENT;
+    const variant = input.variant ?? DEFAULT_VARIANT;
+
+    return [
+        resolveModePreference(input.mode),
+        isHighContrastMode(input.mode) ? "hc" : "",
+        intent,
+        variant,
+        variant === "elevated" ? String(input.elevation ?? DEFAULT_ELEVATION) : "",
+        intent === "toned" ? (input.tone ?? DEFAULT_TONE) : "",
+        String(input.glow ?? false),
+        input.glowMotion ?? "none",
+        String(input.intensity ?? "medium"),
+        input.disabled ? "1" : "0",
+        input.themeColor ?? "",
+        input.cssOutput ?? "inline",
+    ].join("|");
+}
+
+/* ============================================================================
+   🧠 Cached resolver
+============================================================================ */
+
+function freezeResolved(resolved: ResolvedIntent): ResolvedIntent {
+    Object.freeze(resolved.classes);
+    if (resolved.style) Object.freeze(resolved.style);
+    return Object.freeze(resolved);
+}
+
+/**
+ * Memoized resolveIntent().
+ * Returns the same frozen object for equivalent inputs, so it can be used
+ * as a React dependency (useMemo / React.memo) without extra work.
+ */
+export function resolveIntentCached(input: IntentInput = {}): ResolvedIntent {
+    const version = getRegistryVersion();
+    if (version !== CACHE_VERSION) {
+        CACHE.clear();
+        CACHE_VERSION = version;
+    }
+
+    const key = getIntentCacheKey(input);
+    const hit = CACHE.get(key);
+
+    if (hit) {
+        STATS.hits++;
+        // refresh recency
+        CACHE.delete(key);
+        CACHE.set(key, hit);
+        return hit;
+    }
+
+    STATS.misses++;
+
+    const resolved = freezeResolved(resolveIntent(input));
+    if (MAX_SIZE <= 0) return resolved;
+
+    CACHE.set(key, resolved);
+
+    while (CACHE.size > MAX_SIZE) {
+        const oldest = CACHE.keys().next().value;
+        if (oldest === undefined) break;
+        CACHE.delete(oldest);
+    }
+
+    return resolved;
+}
+
+/* ============================================================================
+   🧰 Controls
+============================================================================ */
+
+/** Sets the LRU capacity (0 disables caching). Evicts immediately if needed. */
+export function setIntentCacheSize(size: number) {
+    MAX_SIZE = Math.max(0, Math.floor(size));
+
+    while (CACHE.size > MAX_SIZE) {
+        const oldest = CACHE.keys().next().value;
+        if (oldest === undefined) break;
+        CACHE.delete(oldest);
+    }
+}
+
+export function clearIntentCache() {
+    CACHE.clear();
+    STATS.hits = 0;
+    STATS.misses = 0;
+}
+
+export function getIntentCacheStats(): IntentCacheStats {
+    return { size: CACHE.size, maxSize: MAX_SIZE, hits: STATS.hits, misses: STATS.misses };
+}
@@ -0,0 +1,206 @@
+/* ============================================================================
+   src/lib/intent/contrast.ts
+   Intent Design System – WCAG contrast audit
+   - Evaluates the CSS values emitted by resolveIntent() into sRGB (best-effort)
+   - Token values come from built-in estimates, or from a var() resolver
+     (e.g. getComputedStyle) to audit the real tokens.css values
+   - Composites --intent-bg over the paper backdrop, then measures --intent-text
+============================================================================ */
+
+import type { ModeName, ResolvedIntent, ToneName } from "./types";
+
+import { TONE_TO_RGB, TONE_INK_RGB, SEMANTIC_TO_TW_FAMILY } from "./mapping";
+import { isSemanticIntent } from "./registry";
+import { parseToRgb } from "../colors/themeHelpers";
+import {
+    type Rgb,
+    type Rgba,
+    contrastRatio,
+    cssColorToRgba,
+    evaluateColorMix,
+    mixRgb,
+    paletteStepRgb,
+    round,
+} from "../colors/colorHelpers";
+
+/* ============================================================================
+   🧩 Types
+============================================================================ */
+
+export type ContrastLevel = "AA" | "AAA";
+
+/** Returns the value of a custom property (`--ids-color-red-500` → `oklch(…)`), if known. */
+export type CssVarResolver = (name: string) => string | null | undefined;
+
+export type IntentContrastOptions = {
+    /** WCAG target level (normal text). Default: "AA". */
+    level?: ContrastLevel;
+
+    /** Backdrop under the surface. Default: paper (light) / ink (dark). */
+    backdrop?: Rgb;
+
+    /**
+     * Reads token values instead of the built-in estimates, e.g.
+     * `(name) => getComputedStyle(document.documentElement).getPropertyValue(name)`.
+     * Unresolved vars fall back to the estimates.
+     */
+    resolveVar?: CssVarResolver;
+};
+
+export type IntentContrastReport = {
+    foreground: Rgb;
+    background: Rgb;
+    ratio: number;
+    level: ContrastLevel;
+    target: number;
+    passes: boolean;
+};
+
+/* ============================================================================
+   📏 Targets + backdrops
+============================================================================ */
+
+/** WCAG 2.x minimum ratios for normal-size text. */
+export const CONTRAST_TARGETS: Record<ContrastLevel, number> = {
+    AA: 4.5,
+    AAA: 7,
+};
+
+const PAPER_RGB: Rgb = { r: 255, g: 255, b: 255 }; // mirrors --ids-paper
+const INK_RGB: Rgb = parseToRgb(TONE_INK_RGB) ?? { r: 17, g: 24, b: 39 }; // mirrors --ids-ink
+
+export function getDefaultBackdrop(mode: ModeName): Rgb {
+    return mode === "light" ? PAPER_RGB : INK_RGB;
+}
+
+/* ============================================================================
+   🎨 Palette estimation
+   - Tone tokens are OKLCH in tokens.css; here steps are estimated from the
+     500 value (TONE_TO_RGB) by mixing toward white / black.
+   - Pass `resolveVar` to evaluate the real token values instead.
+============================================================================ */
+
+/** Estimated sRGB for a palette step (`--ids-color-<family>-<step>`). */
+export function estimatePaletteRgb(family: string, step: number): Rgb | null {
+    const base = parseToRgb(TONE_TO_RGB[family as ToneName] ?? "");
+    return base ? paletteStepRgb(base, step) : null;
+}
+
+/* ============================================================================
+   🧮 CSS value evaluation
+============================================================================ */
+
+// Innermost var() (its fallback has no nested parentheses)
+const VAR_RE = /var\(\s*(--[\w-]+)\s*(?:,\s*([^()]*))?\)/;
+const MAX_VAR_DEPTH = 32;
+
+/** Substitutes every var() with its resolved value (or fallback). Null if one is unknown. */
+function substituteVars(value: string, resolveVar: CssVarResolver): string | null {
+    let out = value;
+
+    for (let i = 0; i < MAX_VAR_DEPTH; i++) {
+        const m = out.match(VAR_RE);
+        if (!m?.[1]) return out;
+
+        const resolved = resolveVar(m[1])?.trim() || m[2]?.trim();
+        if (!resolved) return null;
+
+        out = out.replace(m[0], resolved);
+    }
+
+    return null;
+}
+
+function toRgb(rgba: Rgba | null): Rgb | null {
+    return rgba ? { r: rgba.r, g: rgba.g, b: rgba.b } : null;
+}
+
+/**
+ * Evaluates a CSS color value emitted by the resolver.
+ * Supports:
+ * - var(--ids-color-<family>-<step>)
+ * - rgb(var(--ids-<semantic>)) / rgb(var(--token, R G B))
+ * - rgb(r, g, b) / "R G B" / #hex / hsl() / oklch() / oklab() / lab() / lch()
+ * - "H S% L%" HSL channels (tone="black")
+ * - color-mix() over any of the above (alpha is dropped)
+ * With `resolveVar`, var() references are read from it first (real token values).
+ * Returns null when the value cannot be evaluated statically.
+ */
+export function evaluateIntentColor(value: string, resolveVar?: CssVarResolver): Rgb | null {
+    const v = value.trim();
+
+    if (resolveVar && v.includes("var(")) {
+        const substituted = substituteVars(v, resolveVar);
+        const rgb = substituted !== null ? toRgb(cssColorToRgba(substituted)) : null;
+        if (rgb) return rgb;
+    }
+
+    if (/^color-mix\(/i.test(v)) {
+        return toRgb(
+            evaluateColorMix(v, (color) => {
+                const rgba = cssColorToRgba(color);
+                if (rgba) return rgba;
+
+                const rgb = evaluateIntentColor(color, resolveVar);
+                return rgb ? { ...rgb, a: 1 } : null;
+            })
+        );
+    }
+
+    const palette = v.match(/^var\(--ids-color-([a-z]+)-(\d+)\)$/);
+    if (palette?.[1] && palette[2]) return estimatePaletteRgb(palette[1], Number(palette[2]));
+
+    const token = v.match(/^rgb\(var\(--ids-([a-z-]+)(?:,\s*([^)]+))?\)\)$/);
+    if (token?.[1]) {
+        if (token[2]) return parseToRgb(token[2]);
+        if (token[1] === "paper") return PAPER_RGB;
+        if (token[1] === "ink") return INK_RGB;
+        if (isSemanticIntent(token[1])) {
+            return parseToRgb(TONE_TO_RGB[SEMANTIC_TO_TW_FAMILY[token[1]]]);
+        }
+        return null;
+    }
+
+    if (v.includes("var(")) return null;
+
+    const hsl = v.match(/^(-?[\d.]+)(?:deg)?\s+([\d.]+%)\s+([\d.]+%)$/);
+    if (hsl) return toRgb(cssColorToRgba(`hsl(${hsl[1]} ${hsl[2]} ${hsl[3]})`));
+
+    return toRgb(cssColorToRgba(v)) ?? parseToRgb(v);
+}
+
+/* ============================================================================
+   🔎 Audit
+============================================================================ */
+
+/**
+ * Measures --intent-text against the effective surface color:
+ * --intent-bg composited at --intent-bg-opacity over the backdrop
+ * (only when the variant paints a fill).
+ */
+export function auditResolvedContrast(
+    resolved: ResolvedIntent,
+    opts?: IntentContrastOptions
+): IntentContrastReport | null {
+    const style = resolved.style ?? {};
+    const level = opts?.level ?? "AA";
+    const target = CONTRAST_TARGETS[level];
+    const backdrop = opts?.backdrop ?? getDefaultBackdrop(resolved.mode);
+
+    const foreground = evaluateIntentColor(style["--intent-text"] ?? "", opts?.resolveVar);
+    if (!foreground) return null;
+
+    let background = backdrop;
+
+    if (resolved.classes.surface.includes("intent-bg")) {
+        const fill = evaluateIntentColor(style["--intent-bg"] ?? "", opts?.resolveVar);
+        if (!fill) return null;
+
+        const opacity = Number(style["--intent-bg-opacity"] ?? "1");
+        background = mixRgb(backdrop, fill, Number.isFinite(opacity) ? opacity : 1);
+    }
+
+    const ratio = round(contrastRatio(foreground, background), 2);
+
+    return { foreground, background, ratio, level, target, passes: ratio >= target };
+}
@@ -0,0 +1,57 @@
+/* ============================================================================
+   src/lib/intent/density.ts
+   Intent Design System – Size scale + density
+   - Every sized component shares one xs–xl scale (tokens: --ids-size-<step>-*)
+   - The ids-size-<step> hook maps a step to --ids-control-h / -px / -fs / -lh / -gap
+   - density shifts the default step of a subtree: compact (-1), comfortable, spacious (+1)
+============================================================================ */
+
+import type { ControlSize, Density } from "./types";
+
+import { CONTROL_SIZES, DEFAULT_CONTROL_SIZE, DEFAULT_DENSITY } from "./mapping";
+
+/* ============================================================================
+   🧭 Density
+============================================================================ */
+
+export const DENSITY_SIZE_SHIFT: Record<Density, number> = {
+    compact: -1,
+    comfortable: 0,
+    spacious: 1,
+};
+
+/** Moves a size along the scale, clamped to xs / xl. */
+export function shiftControlSize(size: ControlSize, steps: number): ControlSize {
+    const index = CONTROL_SIZES.indexOf(size) + Math.round(steps);
+    const clamped = Math.min(CONTROL_SIZES.length - 1, Math.max(0, index));
+    return CONTROL_SIZES[clamped] ?? DEFAULT_CONTROL_SIZE;
+}
+
+/**
+ * Effective size of a component.
+ * - an explicit local `size` is used as-is
+ * - otherwise the provider size (default "md") shifted by the density
+ *
+ * @example
+ * resolveControlSize(undefined, { density: "compact" }); // "sm"
+ * resolveControlSize("lg", { density: "compact" }); // "lg"
+ * resolveControlSize(undefined, { size: "lg", density: "spacious" }); // "xl"
+ */
+export function resolveControlSize(
+    size?: ControlSize,
+    defaults: { size?: ControlSize; density?: Density } = {}
+): ControlSize {
+    if (size) return size;
+
+    const base = defaults.size ?? DEFAULT_CONTROL_SIZE;
+    return shiftControlSize(base, DENSITY_SIZE_SHIFT[defaults.density ?? DEFAULT_DENSITY]);
+}
+
+/* ============================================================================
+   🪝 Class hooks
+============================================================================ */
+
+/** Shared size hook ("ids-size-md"), sets the --ids-control-* vars (05-size.css). */
+export function getControlSizeClassName(size: ControlSize): string {
+    return `ids-size-${size}`;
+}
@@ -0,0 +1,80 @@
+/* ============================================================================
+   src/lib/intent/direction.ts
+   Intent Design System – Inline direction (ltr / rtl)
+   - dir comes from the component prop, then IntentProvider, then the DOM (inherited dir)
+   - Keyboard handlers read arrows in reading order: ArrowRight is "previous" in rtl
+   - Layout mirroring is CSS (logical properties, :dir(rtl)), not resolver output;
+     SVG layouts (IntentTree) mirror their coordinates with the helpers below
+============================================================================ */
+
+import type { Direction } from "./types";
+
+import { DIRECTIONS } from "./mapping";
+
+/* ============================================================================
+   🧭 Direction
+============================================================================ */
+
+/** Narrows a native `dir` value; "auto" / unknown values return undefined (inherit). */
+export function toDirection(dir?: string | null): Direction | undefined {
+    return (DIRECTIONS as Array<string | null | undefined>).includes(dir)
+        ? (dir as Direction)
+        : undefined;
+}
+
+/**
+ * Effective direction of an element.
+ * - an explicit `dir` (prop / provider) wins
+ * - otherwise the computed CSS direction (inherited from any ancestor dir attribute)
+ * - "ltr" outside the browser
+ */
+export function getElementDirection(el?: Element | null, dir?: Direction): Direction {
+    if (dir) return dir;
+    if (!el || typeof window === "undefined") return "ltr";
+    return window.getComputedStyle(el).direction === "rtl" ? "rtl" : "ltr";
+}
+
+/* ============================================================================
+   ⌨️ Keyboard
+============================================================================ */
+
+/**
+ * Step of a horizontal arrow key in reading order: +1 next, -1 previous, 0 other keys.
+ *
+ * @example
+ * getInlineArrowStep("ArrowRight", "ltr"); // 1
+ * getInlineArrowStep("ArrowRight", "rtl"); // -1
+ */
+export function getInlineArrowStep(key: string, dir: Direction): -1 | 0 | 1 {
+    const step = key === "ArrowRight" ? 1 : key === "ArrowLeft" ? -1 : 0;
+    return dir === "rtl" && step !== 0 ? (-step as -1 | 1) : step;
+}
+
+/* ============================================================================
+   📐 Coordinates (SVG: no logical properties)
+============================================================================ */
+
+/**
+ * x of a box mirrored around x = 0 in rtl (the box keeps its width).
+ *
+ * @example
+ * mirrorInlineX(40, 100, "ltr"); // 40
+ * mirrorInlineX(40, 100, "rtl"); // -140
+ */
+export function mirrorInlineX(x: number, width: number, dir: Direction): number {
+    return dir === "rtl" ? -x - width : x;
+}
+
+/**
+ * Inline start / end edges of a box in reading order (start is the right edge in rtl).
+ *
+ * @example
+ * getInlineEdges(0, 100, "rtl"); // { start: 100, end: 0 }
+ */
+export function getInlineEdges(
+    x: number,
+    width: number,
+    dir: Direction
+): { start: number; end: number } {
+    return dir === "rtl" ? { start: x + width, end: x } : { start: x, end: x + width };
+}
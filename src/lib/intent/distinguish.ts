@@ -0,0 +1,164 @@
+/* ============================================================================
+   src/lib/intent/distinguish.ts
+   Intent Design System – Intent distinguishability check
+   - Compares every pair of semantic intents under normal vision and simulated
+     protanopia / deuteranopia / tritanopia (ΔE OK in OKLab)
+   - Warns when two intents collapse to similar colors
+============================================================================ */
+
+import type { IntentName, IntentWarning, ModeName } from "./types";
+
+import { getKnownIntents } from "./registry";
+import { resolveIntent } from "./resolve";
+import { type CssVarResolver, evaluateIntentColor } from "./contrast";
+import {
+    type ColorVisionDeficiency,
+    type Rgb,
+    COLOR_VISION_DEFICIENCIES,
+    deltaEOK,
+    rgbToHex,
+    simulateColorVision,
+} from "../colors/colorHelpers";
+
+/* ============================================================================
+   🧩 Types
+============================================================================ */
+
+export type IntentColorVision = "normal" | ColorVisionDeficiency;
+
+export type IntentDistinguishabilityOptions = {
+    /** Default: semantic + registered intents (toned / glowed have no fixed color). */
+    intents?: IntentName[];
+
+    /** Default: normal + every deficiency. */
+    visions?: IntentColorVision[];
+
+    /** Minimum ΔE OK between two intents. Default: MIN_INTENT_DISTANCE. */
+    threshold?: number;
+
+    /** Default: "dark". */
+    mode?: ModeName;
+
+    /** Theme color for intent="themed". Default: DEFAULT_THEME_COLOR. */
+    themeColor?: string;
+
+    /** Reads token values instead of the built-in estimates (see IntentContrastOptions). */
+    resolveVar?: CssVarResolver;
+};
+
+export type IntentDistinguishabilityPair = {
+    intents: [IntentName, IntentName];
+    vision: IntentColorVision;
+    /** Simulated colors (#rrggbb). */
+    colors: [string, string];
+    distance: number;
+    distinguishable: boolean;
+};
+
+export type IntentDistinguishabilityReport = {
+    threshold: number;
+    /** Base color per intent (#rrggbb); intents that cannot be evaluated are left out. */
+    colors: Partial<Record<IntentName, string>>;
+    pairs: IntentDistinguishabilityPair[];
+    warnings: IntentWarning[];
+    passes: boolean;
+};
+
+/* ============================================================================
+   📏 Threshold
+============================================================================ */
+
+/**
+ * Minimum ΔE OK for two intents to read as different at a glance
+ * (~0.02 is the just-noticeable difference side by side).
+ */
+export const MIN_INTENT_DISTANCE = 0.1;
+
+/* ============================================================================
+   🧰 Helpers
+============================================================================ */
+
+function simulate(rgb: Rgb, vision: IntentColorVision) {
+    return vision === "normal" ? rgb : simulateColorVision(rgb, vision);
+}
+
+function intentColor(intent: IntentName, opts?: IntentDistinguishabilityOptions): Rgb | null {
+    const resolved = resolveIntent({
+        intent,
+        mode: opts?.mode ?? "dark",
+        variant: "flat",
+        ...(opts?.themeColor !== undefined ? { themeColor: opts.themeColor } : {}),
+    });
+
+    return evaluateIntentColor(resolved.style?.["--intent-bg"] ?? "", opts?.resolveVar);
+}
+
+/* ============================================================================
+   🔎 Check
+============================================================================ */
+
+/**
+ * Pairwise report of intent colors under each vision type.
+ * One `intents_indistinguishable` warning per pair / vision below the threshold.
+ *
+ * @example
+ * const report = checkIntentDistinguishability();
+ * report.warnings.map((w) => w.message);
+ * // [..., "empowered / threatened are hard to tell apart under deuteranopia (ΔE OK 0.0561 < 0.1). …", ...]
+ */
+export function checkIntentDistinguishability(
+    opts?: IntentDistinguishabilityOptions
+): IntentDistinguishabilityReport {
+    const threshold = opts?.threshold ?? MIN_INTENT_DISTANCE;
+    const visions = opts?.visions ?? ["normal", ...COLOR_VISION_DEFICIENCIES];
+    const intents =
+        opts?.intents ?? getKnownIntents().filter((i) => i !== "toned" && i !== "glowed");
+
+    const colors: Partial<Record<IntentName, string>> = {};
+    const entries: Array<[IntentName, Rgb]> = [];
+
+    for (const intent of intents) {
+        const rgb = intentColor(intent, opts);
+        if (!rgb) continue;
+
+        colors[intent] = rgbToHex(rgb);
+        entries.push([intent, rgb]);
+    }
+
+    const pairs: IntentDistinguishabilityPair[] = [];
+    const warnings: IntentWarning[] = [];
+
+    for (const vision of visions) {
+        for (let i = 0; i < entries.length; i++) {
+            for (let j = i + 1; j < entries.length; j++) {
+                const [a, rgbA] = entries[i] as [IntentName, Rgb];
+                const [b, rgbB] = entries[j] as [IntentName, Rgb];
+
+                const simA = simulate(rgbA, vision);
+                const simB = simulate(rgbB, vision);
+                const distance = deltaEOK(simA, simB);
+                const distinguishable = distance >= threshold;
+
+                pairs.push({
+                    intents: [a, b],
+                    vision,
+                    colors: [rgbToHex(simA), rgbToHex(simB)],
+                    distance,
+                    distinguishable,
+                });
+
+                if (!distinguishable) {
+                    const under = vision === "normal" ? "with normal vision" : `under ${vision}`;
+
+                    warnings.push({
+                        code: "intents_indistinguishable",
+                        message: `${a} / ${b} are hard to tell apart ${under} (ΔE OK ${distance} < ${threshold}). Pair color with an icon, label or pattern.`,
+                        distinguishability: { intents: [a, b], vision, distance, threshold },
+                    });
+                }
+            }
+        }
+    }
+
+    return { threshold, colors, pairs, warnings, passes: warnings.length === 0 };
+}
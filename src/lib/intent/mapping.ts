@@ -3,17 +3,43 @@
    Intent Design System – Canonical mappings
 ============================================================================ */
 
-import type { IntentName, ToneName, GlowKey, VariantName } from "./types";
+import type {
+    IntentName,
+    SemanticIntentName,
+    ToneName,
+    GlowKey,
+    IntentGlowName,
+    BuiltinAestheticGlowName,
+    GlowMotion,
+    Elevation,
+    VariantName,
+    IntensityStep,
+    ModeName,
+    ModePreference,
+    ControlSize,
+    Density,
+    Direction,
+} from "./types";
+
+import {
+    type DesignToken,
+    DESIGN_TOKENS,
+    getDesignToken,
+    getDesignTokenChannels,
+} from "../tokens/model";
 
 export const DEFAULT_INTENT: IntentName = "informed";
 export const DEFAULT_VARIANT: VariantName = "elevated";
 export const DEFAULT_TONE: ToneName = "theme";
+export const DEFAULT_CONTROL_SIZE: ControlSize = "md";
+export const DEFAULT_DENSITY: Density = "comfortable";
+export const DEFAULT_ELEVATION: Elevation = 1;
 
 /**
  * Mapping intent -> glow key implicite (utilisé quand glow=true)
  * NOTE: meta-intents n'ont pas de glow implicite.
  */
-export const DEFAULT_GLOW_BY_INTENT: Record<Exclude<IntentName, "toned" | "glowed">, GlowKey> = {
+export const DEFAULT_GLOW_BY_INTENT: Record<SemanticIntentName, GlowKey> = {
     informed: "info",
     empowered: "empower",
     warned: "warn",
@@ -21,7 +47,7 @@ export const DEFAULT_GLOW_BY_INTENT: Record<Exclude<IntentName, "toned" | "glowe
     themed: "theme",
 };
 
-export const INTENT_TO_SEMANTIC_COLOR: Record<Exclude<IntentName, "toned" | "glowed">, string> = {
+export const INTENT_TO_SEMANTIC_COLOR: Record<SemanticIntentName, string> = {
     informed: "informed",
     empowered: "empowered",
     warned: "warned",
@@ -29,6 +55,68 @@ export const INTENT_TO_SEMANTIC_COLOR: Record<Exclude<IntentName, "toned" | "glo
     themed: "themed",
 };
 
+export const SEMANTIC_INTENTS: SemanticIntentName[] = [
+    "informed",
+    "empowered",
+    "warned",
+    "threatened",
+    "themed",
+];
+
+export const BUILTIN_INTENTS: IntentName[] = [...SEMANTIC_INTENTS, "toned", "glowed"];
+
+export const VARIANTS: VariantName[] = ["flat", "outlined", "elevated", "ghost", "solid", "glass"];
+
+export const INTENSITY_STEPS: IntensityStep[] = ["soft", "medium", "strong"];
+
+export const MODE_PREFERENCES: ModePreference[] = ["light", "dark", "system", "high-contrast"];
+
+export const GLOW_MOTIONS: GlowMotion[] = ["none", "pulse", "shimmer", "breathe"];
+
+export const ELEVATIONS: Elevation[] = [0, 1, 2, 3, 4, 5];
+
+export const CONTROL_SIZES: ControlSize[] = ["xs", "sm", "md", "lg", "xl"];
+
+export const DENSITIES: Density[] = ["compact", "comfortable", "spacious"];
+
+export const DIRECTIONS: Direction[] = ["ltr", "rtl"];
+
+export const INTENT_GLOWS: IntentGlowName[] = ["info", "empower", "warn", "threat", "theme"];
+
+export const BUILTIN_AESTHETIC_GLOWS: BuiltinAestheticGlowName[] = [
+    "aurora",
+    "ember",
+    "cosmic",
+    "mythic",
+    "royal",
+    "mono",
+];
+
+/**
+ * Aesthetic glow -> Tailwind family (text/ring tint when intent="glowed").
+ * Custom glows declare their own `textTone` (see registerGlow).
+ */
+export const AESTHETIC_GLOW_TO_TONE: Record<BuiltinAestheticGlowName, ToneName> = {
+    aurora: "sky",
+    ember: "amber",
+    cosmic: "purple",
+    mythic: "emerald",
+    royal: "purple",
+    mono: "slate",
+};
+
+/**
+ * Semantic intent -> Tailwind family (text tint).
+ * Custom intents declare their own `textFamily` (see registerIntent).
+ */
+export const SEMANTIC_TO_TW_FAMILY: Record<SemanticIntentName, ToneName> = {
+    informed: "blue",
+    empowered: "emerald",
+    warned: "amber",
+    threatened: "rose",
+    themed: "violet",
+};
+
 /**
  * For `intent="toned"`, we interpret `tone` as the Tailwind color family:
  * e.g. "emerald" => bg-emerald/..., text-emerald, ring-emerald/...
@@ -62,42 +150,75 @@ export const TONE_TO_COLOR_FAMILY: Record<ToneName, string> = {
 
 /* ----------------------------------------------------------------------------
    Tone → RGB (used only for intent="toned")
-   Values are space-separated RGB for CSS vars.
+   Values are space-separated RGB for CSS vars, derived from the token model
+   (color.tone.*).
 ---------------------------------------------------------------------------- */
 
-export const TONE_TO_RGB: Record<ToneName, string> = {
-    slate: "100 116 139",
-    gray: "107 114 128",
-    zinc: "113 113 122",
-    neutral: "115 115 115",
-    stone: "120 113 108",
-    red: "239 68 68",
-    orange: "249 115 22",
-    amber: "245 158 11",
-    yellow: "234 179 8",
-    lime: "132 204 22",
-    green: "34 197 94",
-    emerald: "16 185 129",
-    teal: "20 184 166",
-    cyan: "6 182 212",
-    sky: "14 165 233",
-    blue: "59 130 246",
-    indigo: "99 102 241",
-    violet: "139 92 246",
-    purple: "168 85 247",
-    fuchsia: "217 70 239",
-    pink: "236 72 153",
-    rose: "244 63 94",
-    theme: "168 85 247", // fallback = themed
-    black: "0 0 0",
-};
+export const TONE_TO_RGB = Object.fromEntries(
+    Object.keys(DESIGN_TOKENS.color.tone).map((tone) => [
+        tone,
+        getDesignTokenChannels(`color.tone.${tone}`),
+    ])
+) as Record<ToneName, string>;
 
 /* ----------------------------------------------------------------------------
    Ink for toned mode (can be themed later)
 ---------------------------------------------------------------------------- */
 
-export const TONE_INK_RGB = "17 24 39"; // slate-900-ish
+export const TONE_INK_RGB = getDesignTokenChannels("color.ink"); // slate-900-ish
+
+export const DEFAULT_THEME_COLOR = getDesignTokenChannels("color.theme");
+
+/* ----------------------------------------------------------------------------
+   Glow motion → keyframes (01-glow.css) + motion tokens (duration / easing)
+   Token values are the var() fallbacks (works without tokens.css).
+---------------------------------------------------------------------------- */
+
+function tokenVar(token: DesignToken) {
+    return token.cssVar ? `var(${token.cssVar}, ${token.value})` : String(token.value);
+}
+
+const { duration, easing } = DESIGN_TOKENS.motion;
+
+export const GLOW_MOTION_TO_ANIMATION: Record<
+    Exclude<GlowMotion, "none">,
+    { keyframes: string; duration: string; easing: string }
+> = {
+    pulse: {
+        keyframes: "ids-glow-pulse",
+        duration: tokenVar(duration.pulse),
+        easing: tokenVar(easing.inOut),
+    },
+    shimmer: {
+        keyframes: "ids-glow-shimmer",
+        duration: tokenVar(duration.shimmer),
+        easing: tokenVar(easing.linear),
+    },
+    breathe: {
+        keyframes: "ids-glow-breathe",
+        duration: tokenVar(duration.breathe),
+        easing: tokenVar(easing.inOut),
+    },
+};
+
+/* ----------------------------------------------------------------------------
+   Elevation → shadow + paper tint per mode (elevation tokens, level 0 = none)
+---------------------------------------------------------------------------- */
+
+function elevationStep(mode: ModeName, level: Elevation) {
+    const shadow = getDesignToken(`elevation.shadow.${mode}.${level}`);
+    const tint = getDesignToken(`elevation.tint.${mode}.${level}`);
 
-export const DEFAULT_THEME_COLOR = "167 103 162";
+    return {
+        shadow: shadow ? tokenVar(shadow) : "none",
+        tint: tint ? `rgb(var(--ids-paper) / ${tokenVar(tint)})` : "transparent",
+    };
+}
 
-// export const DEFAULT_THEME_COLOR = "167 103 162";
+export const ELEVATION_TO_SURFACE: Record<
+    ModeName,
+    Record<Elevation, { shadow: string; tint: string }>
+> = {
+    light: Object.fromEntries(ELEVATIONS.map((level) => [level, elevationStep("light", level)])),
+    dark: Object.fromEntries(ELEVATIONS.map((level) => [level, elevationStep("dark", level)])),
+} as Record<ModeName, Record<Elevation, { shadow: string; tint: string }>>;
@@ -0,0 +1,109 @@
+/* ============================================================================
+   src/lib/intent/mode.ts
+   Intent Design System – System color mode
+   - mode="system" follows `prefers-color-scheme` (matchMedia)
+   - forced-colors / `prefers-contrast: more` switch "system" to high contrast
+   - high contrast paints system colors: its scheme is the fallback, not read from the OS
+     (same value on the server and the client, no matchMedia during render)
+   - SSR / no matchMedia: falls back to the resolver default ("dark")
+   - Single shared listener, subscribers are notified on OS theme change
+============================================================================ */
+
+import type { ModeName, ModePreference } from "./types";
+
+/* ============================================================================
+   🌗 Media query
+============================================================================ */
+
+export const SYSTEM_MODE_FALLBACK: ModeName = "dark";
+
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+const LIGHT_QUERY = "(prefers-color-scheme: light)";
+const FORCED_COLORS_QUERY = "(forced-colors: active)";
+const MORE_CONTRAST_QUERY = "(prefers-contrast: more)";
+
+function canMatchMedia() {
+    return typeof window !== "undefined" && typeof window.matchMedia === "function";
+}
+
+/**
+ * Current OS color scheme.
+ * Returns SYSTEM_MODE_FALLBACK on the server or when no preference is exposed.
+ */
+export function getSystemMode(): ModeName {
+    if (!canMatchMedia()) return SYSTEM_MODE_FALLBACK;
+    if (window.matchMedia(DARK_QUERY).matches) return "dark";
+    if (window.matchMedia(LIGHT_QUERY).matches) return "light";
+    return SYSTEM_MODE_FALLBACK;
+}
+
+/** True when the OS asks for high contrast (forced-colors or prefers-contrast: more). */
+export function getSystemHighContrast(): boolean {
+    if (!canMatchMedia()) return false;
+    return (
+        window.matchMedia(FORCED_COLORS_QUERY).matches ||
+        window.matchMedia(MORE_CONTRAST_QUERY).matches
+    );
+}
+
+/**
+ * Concrete value of mode="system" right now.
+ * Used as the useSyncExternalStore snapshot (string => cheap equality).
+ */
+export function getSystemModePreference(): ModeName | "high-contrast" {
+    return getSystemHighContrast() ? "high-contrast" : getSystemMode();
+}
+
+/**
+ * Resolves a mode preference: "system" → current OS scheme,
+ * "high-contrast" → SYSTEM_MODE_FALLBACK (Canvas / CanvasText follow the user palette).
+ */
+export function resolveModePreference(mode?: ModePreference): ModeName {
+    if (mode === "system") return getSystemMode();
+    if (mode === "high-contrast") return SYSTEM_MODE_FALLBACK;
+    return mode ?? SYSTEM_MODE_FALLBACK;
+}
+
+/** Whether a mode preference takes the high-contrast resolution path. */
+export function isHighContrastMode(mode?: ModePreference): boolean {
+    if (mode === "high-contrast") return true;
+    return mode === "system" && getSystemHighContrast();
+}
+
+/* ============================================================================
+   📡 Subscription (shared listener)
+============================================================================ */
+
+const LISTENERS = new Set<() => void>();
+
+let MEDIA: MediaQueryList[] = [];
+
+function notify() {
+    for (const listener of LISTENERS) listener();
+}
+
+/**
+ * Subscribes to OS color scheme / contrast changes (useSyncExternalStore-compatible).
+ * Returns an unsubscribe function. No-op on the server.
+ */
+export function subscribeSystemMode(listener: () => void): () => void {
+    if (!canMatchMedia()) return () => {};
+
+    LISTENERS.add(listener);
+
+    if (MEDIA.length === 0) {
+        MEDIA = [DARK_QUERY, FORCED_COLORS_QUERY, MORE_CONTRAST_QUERY].map((q) =>
+            window.matchMedia(q)
+        );
+        for (const media of MEDIA) media.addEventListener("change", notify);
+    }
+
+    return () => {
+        LISTENERS.delete(listener);
+
+        if (LISTENERS.size === 0) {
+            for (const media of MEDIA) media.removeEventListener("change", notify);
+            MEDIA = [];
+        }
+    };
+}
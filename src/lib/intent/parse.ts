@@ -0,0 +1,203 @@
+/* ============================================================================
+   src/lib/intent/parse.ts
+   Intent Design System – Runtime IntentInput parser
+   - Validates untrusted values (CMS JSON, URL params…) into a typed IntentInput
+   - Field-level errors; intent / tone / glow rules shared with
+     resolveIntentWithWarnings() (getIntentInputWarnings)
+============================================================================ */
+
+import type {
+    IntentCssOutput,
+    IntentInput,
+    IntentInputError,
+    IntentInputErrorCode,
+    IntentInputParseResult,
+    IntentWarning,
+} from "./types";
+
+import {
+    ELEVATIONS,
+    GLOW_MOTIONS,
+    INTENSITY_STEPS,
+    INTENT_GLOWS,
+    MODE_PREFERENCES,
+    VARIANTS,
+} from "./mapping";
+import { isAestheticGlow } from "./registry";
+import { getIntentInputWarnings } from "./resolve";
+import { parseToRgb } from "../colors/themeHelpers";
+
+/* ============================================================================
+   📚 Accepted values
+============================================================================ */
+
+const CSS_OUTPUTS: IntentCssOutput[] = ["inline", "static"];
+
+// Rule warnings that make the input invalid (the resolver would silently fall back).
+const ERROR_CODES: IntentInputErrorCode[] = [
+    "intent_unknown",
+    "tone_unknown",
+    "glow_unknown",
+    "glow_intent_key_forbidden",
+];
+
+/* ============================================================================
+   🧰 Helpers
+============================================================================ */
+
+function typeLabel(value: unknown) {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "string") return `"${value}"`;
+    return typeof value === "number" ? String(value) : typeof value;
+}
+
+function isGlowKey(key: string) {
+    return (INTENT_GLOWS as string[]).includes(key) || isAestheticGlow(key);
+}
+
+/* ============================================================================
+   🛂 Parser
+============================================================================ */
+
+/**
+ * Validates an unknown value as an IntentInput.
+ * - Unknown keys are dropped, known keys are checked (type + accepted values)
+ * - Unknown intent / tone / glow (or a glow key invalid for the intent) are errors
+ * - Ignored combinations (tone without "toned"…) are returned as warnings
+ *
+ * @example
+ * const parsed = parseIntentInput(JSON.parse(cmsBlock.style));
+ * if (parsed.ok) return <IntentSurface {...parsed.value} />;
+ * console.warn(parsed.errors.map((e) => `${e.field}: ${e.message}`));
+ */
+export function parseIntentInput(value: unknown): IntentInputParseResult {
+    const errors: IntentInputError[] = [];
+
+    const fail = (field: keyof IntentInput | null, code: IntentInputErrorCode, message: string) =>
+        errors.push({ field, code, message });
+
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        fail(null, "invalid_type", `Expected an object, got ${typeLabel(value)}.`);
+        return { ok: false, value: null, errors, warnings: [] };
+    }
+
+    const raw = value as Record<string, unknown>;
+    const out: Record<string, unknown> = {};
+
+    const readString = (field: keyof IntentInput, accepted?: readonly string[]) => {
+        const v = raw[field];
+        if (v === undefined) return;
+
+        if (typeof v !== "string") {
+            fail(field, "invalid_type", `${field} must be a string, got ${typeLabel(v)}.`);
+        } else if (accepted && !accepted.includes(v)) {
+            fail(field, "invalid_value", `${field}="${v}" must be one of ${accepted.join("/")}.`);
+        } else {
+            out[field] = v;
+        }
+    };
+
+    readString("mode", MODE_PREFERENCES);
+    readString("intent");
+    readString("variant", VARIANTS);
+    readString("tone");
+    readString("glowMotion", GLOW_MOTIONS);
+    readString("cssOutput", CSS_OUTPUTS);
+
+    if (raw.glow !== undefined) {
+        const v = raw.glow;
+
+        if (typeof v === "boolean" || typeof v === "string") {
+            out.glow = v;
+        } else {
+            fail(
+                "glow",
+                "invalid_type",
+                `glow must be a boolean or a glow key, got ${typeLabel(v)}.`
+            );
+        }
+    }
+
+    if (raw.intensity !== undefined) {
+        const v = raw.intensity;
+
+        if (typeof v === "number" && Number.isFinite(v) && v >= 0 && v <= 1) {
+            out.intensity = v;
+        } else if (typeof v === "string" && (INTENSITY_STEPS as string[]).includes(v)) {
+            out.intensity = v;
+        } else if (typeof v === "number" || typeof v === "string") {
+            fail(
+                "intensity",
+                "invalid_value",
+                `intensity=${typeLabel(v)} must be one of ${INTENSITY_STEPS.join("/")} or a number 0..1.`
+            );
+        } else {
+            fail(
+                "intensity",
+                "invalid_type",
+                `intensity must be a step or a number, got ${typeLabel(v)}.`
+            );
+        }
+    }
+
+    if (raw.elevation !== undefined) {
+        const v = raw.elevation;
+
+        if (typeof v === "number" && (ELEVATIONS as number[]).includes(v)) {
+            out.elevation = v;
+        } else if (typeof v === "number") {
+            fail(
+                "elevation",
+                "invalid_value",
+                `elevation=${typeLabel(v)} must be an integer 0..5.`
+            );
+        } else {
+            fail("elevation", "invalid_type", `elevation must be a number, got ${typeLabel(v)}.`);
+        }
+    }
+
+    if (raw.disabled !== undefined) {
+        const v = raw.disabled;
+
+        if (typeof v === "boolean") {
+            out.disabled = v;
+        } else {
+            fail("disabled", "invalid_type", `disabled must be a boolean, got ${typeLabel(v)}.`);
+        }
+    }
+
+    if (raw.themeColor !== undefined) {
+        const v = raw.themeColor;
+
+        if (typeof v !== "string") {
+            fail("themeColor", "invalid_type", `themeColor must be a string, got ${typeLabel(v)}.`);
+        } else if (!parseToRgb(v)) {
+            fail("themeColor", "invalid_value", `themeColor="${v}" is not a valid color.`);
+        } else {
+            out.themeColor = v;
+        }
+    }
+
+    const input = out as IntentInput;
+
+    // Same rules as resolveIntentWithWarnings(), split into errors / warnings
+    const warnings: IntentWarning[] = [];
+
+    for (const warning of getIntentInputWarnings(input)) {
+        if ((ERROR_CODES as string[]).includes(warning.code)) {
+            fail(warning.field ?? null, warning.code as IntentInputErrorCode, warning.message);
+        } else {
+            warnings.push(warning);
+        }
+    }
+
+    // Outside intent="glowed" the key is ignored, but it must still name a glow
+    if (typeof input.glow === "string" && input.intent !== "glowed" && !isGlowKey(input.glow)) {
+        fail("glow", "glow_unknown", `glow="${input.glow}" is not a known glow key.`);
+    }
+
+    if (errors.length > 0) return { ok: false, value: null, errors, warnings };
+
+    return { ok: true, value: input, errors: [], warnings };
+}
@@ -7,10 +7,10 @@ export const SYSTEM_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "intent",
         description: {
-            fr: "Intent sémantique (informed/empowered/warned/threatened/themed/toned/glowed).",
-            en: "Semantic intent (informed/empowered/warned/threatened/themed/toned/glowed).",
+            fr: 'Intent sémantique (informed/empowered/warned/threatened/themed/toned/glowed, ou intent enregistré via registerIntent). Accepte aussi le shorthand "warned/outlined/strong +glow" (les props explicites priment).',
+            en: 'Semantic intent (informed/empowered/warned/threatened/themed/toned/glowed, or an intent registered via registerIntent). Also accepts the shorthand "warned/outlined/strong +glow" (explicit props win).',
         },
-        type: "IntentName",
+        type: "IntentName | IntentShorthand",
         required: false,
         default: "DEFAULT_INTENT",
         fromSystem: true,
@@ -18,8 +18,8 @@ export const SYSTEM_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "variant",
         description: {
-            fr: "Variant visuel (flat/outlined/elevated/ghost).",
-            en: "Visual variant (flat/outlined/elevated/ghost).",
+            fr: "Variant visuel (flat/outlined/elevated/ghost, solid : fond opaque + encre lisible, glass : flou d’arrière-plan + papier translucide).",
+            en: "Visual variant (flat/outlined/elevated/ghost, solid: opaque fill + readable ink, glass: backdrop blur + translucent paper).",
         },
         type: "VariantName",
         required: false,
@@ -29,10 +29,10 @@ export const SYSTEM_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "tone",
         description: {
-            fr: "Override de tone (n’a d’effet que si intent='toned').",
-            en: "Tone override (only effective when intent='toned').",
+            fr: "Override de tone (n’a d’effet que si intent='toned'): tone de palette ou n’importe quelle couleur CSS (hex, rgb, hsl, oklch).",
+            en: "Tone override (only effective when intent='toned'): palette tone or any CSS color (hex, rgb, hsl, oklch).",
         },
-        type: "ToneName",
+        type: "ToneInput",
         required: false,
         default: "DEFAULT_TONE (si toned)",
         fromSystem: true,
@@ -48,11 +48,33 @@ export const SYSTEM_PROPS_TABLE: DocsPropRow[] = [
         default: "false (ou DEFAULT_GLOW_BY_INTENT)",
         fromSystem: true,
     },
+    {
+        name: "glowMotion",
+        description: {
+            fr: "Animation du glow (pulse/shimmer/breathe), tokens --ids-motion-*. Sans effet sans glow, coupée par prefers-reduced-motion.",
+            en: "Glow animation (pulse/shimmer/breathe), --ids-motion-* tokens. No effect without a glow, stopped by prefers-reduced-motion.",
+        },
+        type: "GlowMotion",
+        required: false,
+        default: "none",
+        fromSystem: true,
+    },
+    {
+        name: "elevation",
+        description: {
+            fr: "Niveau d’élévation 0–5 du variant elevated (ombre + teinte de surface par mode, tokens --ids-elevation-*). Une IntentSurface elevated imbriquée monte d’un niveau.",
+            en: "Elevation level 0–5 of the elevated variant (shadow + surface tint per mode, --ids-elevation-* tokens). A nested elevated IntentSurface steps up one level.",
+        },
+        type: "0 | 1 | 2 | 3 | 4 | 5",
+        required: false,
+        default: "1 (elevated)",
+        fromSystem: true,
+    },
     {
         name: "intensity",
         description: {
-            fr: "Intensité (soft/medium/strong).",
-            en: "Intensity (soft/medium/strong).",
+            fr: "Intensité (soft/medium/strong) ou niveau continu 0..1.",
+            en: "Intensity (soft/medium/strong) or continuous level 0..1.",
         },
         type: "Intensity",
         required: false,
@@ -62,14 +84,36 @@ export const SYSTEM_PROPS_TABLE: DocsPropRow[] = [
     {
         name: "mode",
         description: {
-            fr: "Mode colorimétrique (dark/light).",
-            en: "Color mode (dark/light).",
+            fr: "Mode colorimétrique (dark/light), system pour suivre prefers-color-scheme (et forced-colors / prefers-contrast), ou high-contrast.",
+            en: "Color mode (dark/light), system to follow prefers-color-scheme (and forced-colors / prefers-contrast), or high-contrast.",
         },
-        type: "ModeName",
+        type: `ModeName | "system" | "high-contrast"`,
         required: false,
         default: "dark",
         fromSystem: true,
     },
+    {
+        name: "themeColor",
+        description: {
+            fr: "Couleur de marque à l’exécution (intent='themed', tone='theme', glow theme). Formats : \"R G B\", #hex, rgb().",
+            en: "Runtime brand color (intent='themed', tone='theme', theme glow). Formats: \"R G B\", #hex, rgb().",
+        },
+        type: "string",
+        required: false,
+        default: "DEFAULT_THEME_COLOR",
+        fromSystem: true,
+    },
+    {
+        name: "cssOutput",
+        description: {
+            fr: "Sortie CSS : variables inline (style) ou attributs data-* servis par la feuille statique (styles/static.css, CSP stricte / SSR léger).",
+            en: "CSS output: inline variables (style) or data-* attributes served by the static stylesheet (styles/static.css, strict CSP / lighter SSR).",
+        },
+        type: `"inline" | "static"`,
+        required: false,
+        default: "inline",
+        fromSystem: true,
+    },
     {
         name: "disabled",
         description: {
@@ -0,0 +1,198 @@
+/* ============================================================================
+   src/lib/intent/registry.ts
+   Intent Design System – Custom intents & glows registry
+   - registerIntent() / defineIntents() declare semantic intents beyond the built-ins
+   - registerGlow() / defineGlows() declare aesthetic glows (gradient recipes)
+   - Pair with `interface IntentRegistry` / `interface AestheticGlowRegistry`
+     augmentation for type safety
+============================================================================ */
+
+import type {
+    IntentName,
+    CustomIntentName,
+    IntentDefinition,
+    SemanticIntentName,
+    ToneName,
+    AestheticGlowName,
+    GlowDefinition,
+} from "./types";
+
+import {
+    BUILTIN_INTENTS,
+    SEMANTIC_INTENTS,
+    BUILTIN_AESTHETIC_GLOWS,
+    INTENT_GLOWS,
+    TONE_TO_COLOR_FAMILY,
+} from "./mapping";
+import { parseToRgb, rgbToString } from "../colors/themeHelpers";
+
+/* ============================================================================
+   🗂 Store
+============================================================================ */
+
+const CUSTOM_INTENTS = new Map<string, IntentDefinition>();
+const CUSTOM_GLOWS = new Map<string, GlowDefinition>();
+
+// Bumped on every (un)registration so caches keyed on inputs can invalidate.
+let REGISTRY_VERSION = 0;
+
+export function getRegistryVersion() {
+    return REGISTRY_VERSION;
+}
+
+/* ============================================================================
+   ✍️ Registration
+============================================================================ */
+
+/**
+ * Registers (or replaces) a custom semantic intent.
+ * Built-in names are reserved and cannot be redefined.
+ */
+export function registerIntent(name: CustomIntentName | string, definition: IntentDefinition) {
+    if ((BUILTIN_INTENTS as string[]).includes(name)) {
+        throw new Error(`[intent-design-system] "${name}" is a built-in intent and is reserved.`);
+    }
+
+    if (!parseToRgb(definition.color)) {
+        throw new Error(
+            `[intent-design-system] registerIntent("${name}"): color "${definition.color}" is not a valid color.`
+        );
+    }
+
+    CUSTOM_INTENTS.set(name, definition);
+    REGISTRY_VERSION++;
+}
+
+/**
+ * Registers several custom intents at once and returns the same record (typed).
+ *
+ * @example
+ * export const APP_INTENTS = defineIntents({
+ *     pending: { color: "148 163 184", textFamily: "slate" },
+ *     premium: { color: "#d4a017", textFamily: "amber", glow: "ember" },
+ * });
+ */
+export function defineIntents<T extends Record<string, IntentDefinition>>(definitions: T): T {
+    for (const [name, definition] of Object.entries(definitions)) {
+        registerIntent(name, definition);
+    }
+    return definitions;
+}
+
+/** Removes a custom intent (mostly useful for tests / hot reload). */
+export function unregisterIntent(name: CustomIntentName | string) {
+    if (CUSTOM_INTENTS.delete(name)) REGISTRY_VERSION++;
+}
+
+/* ============================================================================
+   🔎 Lookups
+============================================================================ */
+
+export function isSemanticIntent(name: string): name is SemanticIntentName {
+    return (SEMANTIC_INTENTS as string[]).includes(name);
+}
+
+export function isToneName(name: unknown): name is ToneName {
+    return (
+        typeof name === "string" && Object.prototype.hasOwnProperty.call(TONE_TO_COLOR_FAMILY, name)
+    );
+}
+
+export function getIntentDefinition(name: string): IntentDefinition | null {
+    return CUSTOM_INTENTS.get(name) ?? null;
+}
+
+/** Built-in + registered intent names. */
+export function getKnownIntents(): IntentName[] {
+    return [...BUILTIN_INTENTS, ...(Array.from(CUSTOM_INTENTS.keys()) as CustomIntentName[])];
+}
+
+export function isKnownIntent(name: string): name is IntentName {
+    return (BUILTIN_INTENTS as string[]).includes(name) || CUSTOM_INTENTS.has(name);
+}
+
+/** CSS token holding the base color of a custom intent. */
+export function getIntentCssToken(name: string, definition: IntentDefinition): string {
+    return definition.cssToken ?? `--ids-${name}`;
+}
+
+/**
+ * CSS variables for all registered intents ("R G B" values).
+ * Spread on a root element (or emit in a stylesheet) so tokens exist in CSS too.
+ */
+export function getRegisteredIntentCssVars(): Record<string, string> {
+    const out: Record<string, string> = {};
+
+    for (const [name, definition] of CUSTOM_INTENTS) {
+        const rgb = parseToRgb(definition.color);
+        if (rgb) out[getIntentCssToken(name, definition)] = rgbToString(rgb);
+    }
+
+    return out;
+}
+
+/* ============================================================================
+   🌈 Glows
+============================================================================ */
+
+/**
+ * Registers (or replaces) a custom aesthetic glow.
+ * Built-in glow keys (intent + aesthetic) are reserved.
+ */
+export function registerGlow(name: AestheticGlowName | string, definition: GlowDefinition) {
+    if (
+        (BUILTIN_AESTHETIC_GLOWS as string[]).includes(name) ||
+        (INTENT_GLOWS as string[]).includes(name)
+    ) {
+        throw new Error(`[intent-design-system] "${name}" is a built-in glow and is reserved.`);
+    }
+
+    if (definition.layers.length === 0) {
+        throw new Error(
+            `[intent-design-system] registerGlow("${name}"): at least one layer is required.`
+        );
+    }
+
+    for (const layer of definition.layers) {
+        if (!parseToRgb(layer.color)) {
+            throw new Error(
+                `[intent-design-system] registerGlow("${name}"): color "${layer.color}" is not a valid color.`
+            );
+        }
+    }
+
+    CUSTOM_GLOWS.set(name, definition);
+    REGISTRY_VERSION++;
+}
+
+/** Registers several custom glows at once and returns the same record (typed). */
+export function defineGlows<T extends Record<string, GlowDefinition>>(definitions: T): T {
+    for (const [name, definition] of Object.entries(definitions)) {
+        registerGlow(name, definition);
+    }
+    return definitions;
+}
+
+/** Removes a custom glow (mostly useful for tests / hot reload). */
+export function unregisterGlow(name: AestheticGlowName | string) {
+    if (CUSTOM_GLOWS.delete(name)) REGISTRY_VERSION++;
+}
+
+export function getGlowDefinition(name: string): GlowDefinition | null {
+    return CUSTOM_GLOWS.get(name) ?? null;
+}
+
+/** Built-in + registered aesthetic glow names (picker order). */
+export function getAestheticGlows(): AestheticGlowName[] {
+    return [
+        ...BUILTIN_AESTHETIC_GLOWS,
+        ...(Array.from(CUSTOM_GLOWS.keys()) as AestheticGlowName[]),
+    ];
+}
+
+export function isAestheticGlow(name: unknown): name is AestheticGlowName {
+    return (
+        typeof name === "string" &&
+        ((BUILTIN_AESTHETIC_GLOWS as string[]).includes(name) || CUSTOM_GLOWS.has(name))
+    );
+}
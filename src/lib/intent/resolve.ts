@@ -5,17 +5,28 @@
 ============================================================================ */
 
 import type {
+    IntentComponentInput,
     IntentInput,
     IntentName,
+    SemanticIntentName,
     VariantName,
     ToneName,
     GlowName,
     GlowKey,
+    GlowMotion,
+    Elevation,
+    IntentGlowName,
+    BuiltinAestheticGlowName,
+    GlowGradientLayer,
     Intensity,
+    IntensityStep,
     ResolvedIntent,
     ResolvedIntentWithWarnings,
     IntentSurfaceResolvedProps,
     IntentWarning,
+    IntentCssOutput,
+    IntentDataAttributes,
+    ModeName,
 } from "./types";
 
 import {
@@ -25,70 +36,88 @@ import {
     DEFAULT_THEME_COLOR,
     DEFAULT_GLOW_BY_INTENT,
     INTENT_TO_SEMANTIC_COLOR,
+    SEMANTIC_TO_TW_FAMILY,
     TONE_TO_COLOR_FAMILY,
+    TONE_TO_RGB,
+    AESTHETIC_GLOW_TO_TONE,
+    INTENT_GLOWS,
+    GLOW_MOTIONS,
+    GLOW_MOTION_TO_ANIMATION,
+    VARIANTS,
+    DEFAULT_ELEVATION,
+    ELEVATIONS,
+    ELEVATION_TO_SURFACE,
 } from "./mapping";
 
+import {
+    getIntentDefinition,
+    getIntentCssToken,
+    isKnownIntent,
+    isSemanticIntent,
+    isToneName,
+    getGlowDefinition,
+    getAestheticGlows,
+    getKnownIntents,
+    isAestheticGlow,
+} from "./registry";
+
+import { isHighContrastMode, resolveModePreference } from "./mode";
+import { expandIntentShorthand, getIntentShorthandWarnings } from "./shorthand";
+
+import {
+    type IntentContrastOptions,
+    type IntentContrastReport,
+    auditResolvedContrast,
+} from "./contrast";
+
+import {
+    type Rgb,
+    cssColorToRgba,
+    paletteStepRgb,
+    readableTextColor,
+    rgbToHex,
+} from "../colors/colorHelpers";
+
 import {
     getThemeGlowBackgroundCss,
-    getDefaultThemeCssRgb,
     getDefaultThemeRgb,
+    getThemeRgb,
+    parseToRgb,
+    rgbToString,
     rgbToCssRgb,
+    rgba,
     lighten,
     darken,
 } from "../colors/themeHelpers";
 
-/* ============================================================================
-   🧭 Semantic → Tailwind family mapping (for text tint)
-============================================================================ */
-
-const SEMANTIC_TO_TW_FAMILY: Record<
-    "informed" | "empowered" | "warned" | "threatened" | "themed",
-    ToneName
-> = {
-    informed: "blue",
-    empowered: "emerald",
-    warned: "amber",
-    threatened: "rose",
-    themed: "violet",
-};
-
 /* ============================================================================
    🎆 Glow → Tone mapping (for glowed intent text tint)
 ============================================================================ */
 
 function glowToTone(glow: GlowName): ToneName {
-    switch (glow) {
-        case "aurora":
-            return "sky";
-        case "ember":
-            return "amber";
-        case "cosmic":
-            return "purple";
-        case "mythic":
-            return "emerald";
-        case "royal":
-            return "purple";
-        case "mono":
-            return "slate";
-        default:
-            return "emerald";
+    if (glow in AESTHETIC_GLOW_TO_TONE) {
+        return AESTHETIC_GLOW_TO_TONE[glow as BuiltinAestheticGlowName];
     }
+    return getGlowDefinition(glow)?.textTone ?? "emerald";
 }
 
 /* ============================================================================
    🌫 Glow opacity curves (FINAL values, no further multiplication in CSS)
+   - Named steps are anchors; numeric levels interpolate between them
 ============================================================================ */
 
-function glowFillOpacity(intensity: Intensity) {
-    if (intensity === "soft") return 0.68;
-    if (intensity === "strong") return 0.92;
-    return 0.82;
+function glowFillOpacity(level: number) {
+    return intensityCurve(level, { soft: 0.68, medium: 0.82, strong: 0.92 });
 }
 
-function glowBorderOpacity(intensity: Intensity) {
-    if (intensity === "soft") return 0.78;
-    if (intensity === "strong") return 1.0;
-    return 0.9;
+function glowBorderOpacity(level: number) {
+    return intensityCurve(level, { soft: 0.78, medium: 0.9, strong: 1.0 });
+}
+
+function glowFilter(level: number) {
+    const saturate = 1.14 + 0.12 * level;
+    const brightness = 1.08 + 0.08 * level;
+    return `saturate(${saturate.toFixed(2)}) brightness(${brightness.toFixed(2)})`;
 }
 
 /* ============================================================================
@@ -99,13 +128,113 @@ function clamp01(x: number) {
     return Math.max(0, Math.min(1, x));
 }
 
-function intensityToAlpha(intensity: Intensity, opts: { min: number; max: number }) {
-    const map: Record<Intensity, number> = { soft: 0.0, medium: 0.5, strong: 1.0 };
-    const t = clamp01(map[intensity]);
+const INTENSITY_STEP_LEVEL: Record<IntensityStep, number> = {
+    soft: 0.0,
+    medium: 0.5,
+    strong: 1.0,
+};
+
+/**
+ * Normalizes an intensity to a 0..1 level.
+ * - named steps: soft=0, medium=0.5, strong=1
+ * - numbers: clamped to 0..1 (NaN => medium)
+ */
+export function intensityToLevel(intensity: Intensity): number {
+    if (typeof intensity === "number") {
+        return Number.isFinite(intensity) ? clamp01(intensity) : INTENSITY_STEP_LEVEL.medium;
+    }
+    return INTENSITY_STEP_LEVEL[intensity] ?? INTENSITY_STEP_LEVEL.medium;
+}
+
+/** Nearest named step for a level (useful for CSS hooks / pickers). */
+export function levelToIntensityStep(level: number): IntensityStep {
+    if (level < 0.25) return "soft";
+    if (level > 0.75) return "strong";
+    return "medium";
+}
+
+/** Piecewise-linear curve through the 3 named anchors (soft → medium → strong). */
+function intensityCurve(level: number, anchors: Record<IntensityStep, number>) {
+    const t = clamp01(level);
+    const v =
+        t <= 0.5
+            ? anchors.soft + (anchors.medium - anchors.soft) * (t / 0.5)
+            : anchors.medium + (anchors.strong - anchors.medium) * ((t - 0.5) / 0.5);
+    return Number(v.toFixed(3));
+}
+
+function intensityToAlpha(level: number, opts: { min: number; max: number }) {
+    const t = clamp01(level);
     const v = opts.min + (opts.max - opts.min) * t;
     return Number(v.toFixed(3));
 }
 
+type IntentState = "hover" | "pressed" | "selected" | "hover-ring" | "focus-ring";
+
+// Interaction state alpha ranges (soft → strong), on the same curve as bg/ring opacity.
+const STATE_ALPHA: Record<IntentState, { min: number; max: number }> = {
+    hover: { min: 0.08, max: 0.16 },
+    pressed: { min: 0.14, max: 0.24 },
+    selected: { min: 0.14, max: 0.26 },
+    "hover-ring": { min: 0.3, max: 0.5 },
+    "focus-ring": { min: 0.38, max: 0.6 },
+};
+
+// Glass variant: translucent paper per mode, hairline edge + halo of the border glow.
+const GLASS_ALPHA = {
+    paper: {
+        light: { min: 0.55, max: 0.72 },
+        dark: { min: 0.06, max: 0.12 },
+    } satisfies Record<ModeName, { min: number; max: number }>,
+    edge: { min: 0.22, max: 0.4 },
+    halo: { min: 0.12, max: 0.26 },
+};
+
+/** Translucent color for state vars (bg-hover, ring-focus…). */
+function stateColor(color: string, alpha: number) {
+    return `color-mix(in oklab, ${color} ${Math.round(alpha * 1000) / 10}%, transparent)`;
+}
+
+/**
+ * Opaque fill of the solid variant as RGB: the built-in value of the fill token.
+ * Emitted as a literal --intent-bg (the readable ink is picked against it).
+ */
+function solidFillRgb(opts: {
+    intent: IntentName;
+    toneKey: string | null;
+    toneRequested: ToneName;
+    toneColor: Rgb | null;
+    glowKey: GlowKey | null;
+    themeColor: string | undefined;
+}): Rgb {
+    const { intent, toneKey, toneRequested, toneColor, glowKey, themeColor } = opts;
+    const custom = isSemanticIntent(intent) ? null : getIntentDefinition(intent);
+
+    if (custom) return parseToRgb(custom.color) ?? getDefaultThemeRgb();
+    if (toneColor) return toneColor;
+    if (toneKey === "themed") return getThemeRgb(themeColor);
+
+    const tone =
+        intent === "glowed"
+            ? glowToTone((glowKey ?? "aurora") as GlowName)
+            : intent === "toned"
+              ? toneRequested
+              : SEMANTIC_TO_TW_FAMILY[intent as SemanticIntentName];
+
+    return parseToRgb(TONE_TO_RGB[tone]) ?? getDefaultThemeRgb();
+}
+
+/**
+ * Custom tone color (tone="#1e90ff", "oklch(0.7 0.15 250)", "30 144 255"…).
+ * Returns null for palette tone names and unparseable values.
+ */
+export function parseToneColor(tone: string): Rgb | null {
+    if (isToneName(tone)) return null;
+
+    const rgba = cssColorToRgba(tone);
+    return rgba ? { r: rgba.r, g: rgba.g, b: rgba.b } : parseToRgb(tone);
+}
+
 /** Tailwind v4 exposes palette CSS vars: --color-emerald-500, etc. */
 function tailwindColorVar(tone: string, step: number) {
     return `var(--ids-color-${tone}-${step})`;
@@ -169,7 +298,58 @@ function radial(size: string, at: string, color: string, fadeAt: string) {
     return `radial-gradient(${size} at ${at}, ${color} 0%, ${transparentColor} ${fadeAt})`;
 }
 
-const GLOW_BACKGROUND: Record<GlowKey, string> = {
+function linear(angle: string, color: string, fadeAt: string) {
+    const transparentColor = toTransparent(color);
+    return `linear-gradient(${angle}, ${color} 0%, ${transparentColor} ${fadeAt})`;
+}
+
+function conic(from: string, at: string, color: string, fadeAt: string) {
+    const transparentColor = toTransparent(color);
+    return `conic-gradient(from ${from} at ${at}, ${color} 0%, ${transparentColor} ${fadeAt})`;
+}
+
+/** Custom glow recipe -> CSS background-image (layers joined, first on top). */
+export function glowLayersToCss(layers: GlowGradientLayer[]): string {
+    return layers
+        .map((layer) => {
+            const color = rgba(parseToRgb(layer.color) ?? { r: 0, g: 0, b: 0 }, layer.alpha);
+
+            if (layer.type === "linear") {
+                return linear(layer.angle ?? "135deg", color, layer.fadeAt ?? "100%");
+            }
+
+            if (layer.type === "conic") {
+                return conic(
+                    layer.from ?? "0deg",
+                    layer.at ?? "50% 50%",
+                    color,
+                    layer.fadeAt ?? "100%"
+                );
+            }
+
+            return radial(
+                layer.size ?? "190% 150%",
+                layer.at ?? "15% 20%",
+                color,
+                layer.fadeAt ?? "74%"
+            );
+        })
+        .join(",");
+}
+
+function themeGlowBackground(themeColor?: string) {
+    return getThemeGlowBackgroundCss(radial, {
+        ...(themeColor !== undefined ? { themeColor } : {}),
+        size1: "80% 200%",
+        at1: "15%",
+        stop1: "78%",
+        size2: "60% 200%",
+        at2: "85%",
+        stop2: "76%",
+    });
+}
+
+const GLOW_BACKGROUND: Record<IntentGlowName | BuiltinAestheticGlowName, string> = {
     info: [
         radial("180% 140%", "18% 18%", "rgba(255,255,255,0.14)", "72%"),
         radial("160% 140%", "82% 35%", "rgba(148,163,184,0.14)", "70%"),
@@ -190,14 +370,7 @@ const GLOW_BACKGROUND: Record<GlowKey, string> = {
         radial("165% 150%", "85% 30%", "rgba(190,18,60,0.20)", "72%"),
     ].join(","),
 
-    theme: getThemeGlowBackgroundCss(radial, {
-        size1: "80% 200%",
-        at1: "15%",
-        stop1: "78%",
-        size2: "60% 200%",
-        at2: "85%",
-        stop2: "76%",
-    }),
+    theme: themeGlowBackground(),
 
     aurora: [
         radial("190% 150%", "15% 20%", "rgba(34,211,238,0.28)", "74%"),
@@ -227,6 +400,65 @@ const GLOW_BACKGROUND: Record<GlowKey, string> = {
     mono: [radial("170% 150%", "50% 20%", "rgba(255,255,255,0.16)", "72%")].join(","),
 };
 
+/**
+ * CSS background-image for a glow key (built-in or registered), null if unknown.
+ * The "theme" glow follows `themeColor` when provided (computed at call time).
+ */
+export function getGlowBackground(key: GlowKey, opts?: { themeColor?: string }): string | null {
+    if (key === "theme" && opts?.themeColor) return themeGlowBackground(opts.themeColor);
+    if (key in GLOW_BACKGROUND) return GLOW_BACKGROUND[key as keyof typeof GLOW_BACKGROUND];
+
+    const custom = getGlowDefinition(key);
+    return custom ? glowLayersToCss(custom.layers) : null;
+}
+
+/**
+ * Animation vars read by the glow layers (01-glow.css): keyframes name, duration, easing.
+ * "none" resets them (no animation, nothing inherited from an ancestor surface).
+ */
+export function getGlowMotionVars(motion: GlowMotion): Record<string, string> {
+    if (motion === "none") {
+        return {
+            "--intent-glow-motion": "none",
+            "--intent-glow-motion-duration": "0s",
+            "--intent-glow-motion-easing": "linear",
+        };
+    }
+
+    const animation = GLOW_MOTION_TO_ANIMATION[motion];
+
+    return {
+        "--intent-glow-motion": animation.keyframes,
+        "--intent-glow-motion-duration": animation.duration,
+        "--intent-glow-motion-easing": animation.easing,
+    };
+}
+
+/**
+ * Elevation vars read by surfaces / controls (02-surface.css): shadow + paper tint.
+ * Level 0 resets them (no shadow / tint inherited from an elevated ancestor).
+ */
+export function getElevationVars(mode: ModeName, elevation: Elevation): Record<string, string> {
+    const step = ELEVATION_TO_SURFACE[mode][elevation];
+
+    return {
+        "--intent-elev-shadow": step.shadow,
+        "--intent-elev-tint": step.tint,
+    };
+}
+
+/**
+ * Input of an IntentSurface nested in an elevated one (`parent` = its elevation, null = none).
+ * An elevated surface whose merged input (props + IntentProvider) has no elevation sits one level
+ * above the parent; an explicit elevation and the other variants are left as is.
+ */
+export function stepNestedElevation(input: IntentInput, parent: Elevation | null): IntentInput {
+    if (parent === null || input.elevation !== undefined) return input;
+    if ((input.variant ?? DEFAULT_VARIANT) !== "elevated") return input;
+
+    return { ...input, elevation: Math.min(parent + 1, 5) as Elevation };
+}
+
 /* ============================================================================
    🧠 Resolver (no dynamic Tailwind classes)
 ============================================================================ */
@@ -236,24 +468,52 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
        🧾 Input normalization
     ============================================================================ */
 
-    const mode = input.mode ?? "dark"; // ✅ fallback: dark
+    const mode = resolveModePreference(input.mode); // ✅ fallback: dark ("system" → prefers-color-scheme)
+    const highContrast = isHighContrastMode(input.mode);
     const intent = input.intent ?? DEFAULT_INTENT;
     const variant = input.variant ?? DEFAULT_VARIANT;
-    const intensity: Intensity = input.intensity ?? "medium";
+    const cssOutput: IntentCssOutput = input.cssOutput ?? "inline";
     const disabled = Boolean(input.disabled);
+    const themeColor = input.themeColor;
+
+    // elevation only exists on the elevated variant (0 = flat on the page)
+    const elevation: Elevation =
+        variant !== "elevated"
+            ? 0
+            : input.elevation !== undefined && ELEVATIONS.includes(input.elevation)
+              ? input.elevation
+              : DEFAULT_ELEVATION;
+
+    // static output: the stylesheet only covers named steps → snap numeric levels
+    const intensityRequested: Intensity = input.intensity ?? "medium";
+    const intensity: Intensity =
+        cssOutput === "static"
+            ? levelToIntensityStep(intensityToLevel(intensityRequested))
+            : intensityRequested;
+    const level = intensityToLevel(intensity);
+
+    const toneRequested: ToneName = isToneName(input.tone) ? input.tone : DEFAULT_TONE;
 
-    const toneRequested: ToneName = input.tone ?? DEFAULT_TONE;
+    // toned + any CSS color: steps are derived from the color instead of a palette
+    const toneColor =
+        intent === "toned" && input.tone !== undefined ? parseToneColor(input.tone) : null;
+
+    // Registered custom intent (registerIntent / defineIntents)
+    const custom = isSemanticIntent(intent) ? null : getIntentDefinition(intent);
 
     /* ============================================================================
        🎨 Tone key resolution
     ============================================================================ */
 
-    const toneKey =
-        intent === "toned"
-            ? TONE_TO_COLOR_FAMILY[toneRequested]
-            : intent === "glowed"
-              ? null
-              : INTENT_TO_SEMANTIC_COLOR[intent as Exclude<IntentName, "toned" | "glowed">];
+    const toneKey = custom
+        ? intent
+        : intent === "toned"
+          ? toneColor
+              ? rgbToHex(toneColor)
+              : TONE_TO_COLOR_FAMILY[toneRequested]
+          : intent === "glowed"
+            ? null
+            : INTENT_TO_SEMANTIC_COLOR[intent as SemanticIntentName];
 
     /* ============================================================================
        ✨ Glow selection rules
@@ -263,31 +523,35 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
 
     if (intent === "glowed") {
         if (typeof input.glow === "string") {
-            const key = input.glow as GlowName;
-            glowKey =
-                key === "aurora" ||
-                key === "ember" ||
-                key === "cosmic" ||
-                key === "mythic" ||
-                key === "royal" ||
-                key === "mono"
-                    ? key
-                    : "aurora";
+            glowKey = isAestheticGlow(input.glow) ? input.glow : "aurora";
         } else {
             glowKey = "aurora";
         }
+    } else if (input.glow === true && custom) {
+        glowKey = custom.glow ?? null;
     } else if (input.glow === true && intent !== "toned") {
-        glowKey = DEFAULT_GLOW_BY_INTENT[intent as Exclude<IntentName, "toned" | "glowed">];
+        glowKey = DEFAULT_GLOW_BY_INTENT[intent as SemanticIntentName] ?? null;
     }
 
-    const glowBackground = glowKey ? (GLOW_BACKGROUND[glowKey] ?? null) : null;
+    // ✅ high contrast: glows are decorative and unreadable under forced colors
+    if (highContrast) glowKey = null;
+
+    const glowBackground = glowKey
+        ? getGlowBackground(glowKey, themeColor !== undefined ? { themeColor } : undefined)
+        : null;
+
+    // motion animates the glow layers: nothing to animate without a glow
+    const glowMotion: GlowMotion =
+        glowBackground && input.glowMotion && GLOW_MOTIONS.includes(input.glowMotion)
+            ? input.glowMotion
+            : "none";
 
     /* ============================================================================
        🧪 Base alpha curves (bg/ring)
     ============================================================================ */
 
-    const bgOpacity = intensityToAlpha(intensity, { min: 0.1, max: 0.22 });
-    const ringOpacity = intensityToAlpha(intensity, { min: 0.14, max: 0.28 });
+    const bgOpacity = intensityToAlpha(level, { min: 0.1, max: 0.22 });
+    const ringOpacity = intensityToAlpha(level, { min: 0.14, max: 0.28 });
     const ringOpacityBoosted = boostRingOpacity(ringOpacity, intent);
 
     /* ============================================================================
@@ -300,7 +564,20 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
        🎯 Color variables
     ============================================================================ */
 
-    if (!toneKey) {
+    if (custom) {
+        // custom: same recipe as semantic intents, token with inline fallback
+        const token = getIntentCssToken(intent, custom);
+        const fallback = rgbToString(parseToRgb(custom.color) ?? getDefaultThemeRgb());
+        const twFamily = TONE_TO_COLOR_FAMILY[custom.textFamily];
+        const textStep = pickTextStep(mode, intent);
+
+        style["--intent-bg"] = `rgb(var(${token}, ${fallback}))`;
+        style["--intent-ring"] = `rgb(var(${token}, ${fallback}))`;
+        style["--intent-text"] = tailwindColorVar(twFamily, textStep);
+
+        style["--intent-bg-opacity"] = String(bgOpacity);
+        style["--intent-ring-opacity"] = String(ringOpacityBoosted);
+    } else if (!toneKey) {
         // glowed: neutral surface, tinted text/ring by aesthetic glow
         const gTone = glowKey ? glowToTone(glowKey as GlowName) : "emerald";
         const gFamily = TONE_TO_COLOR_FAMILY[gTone];
@@ -316,7 +593,7 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
         style["--intent-ring-opacity"] = String(ringOpacityBoosted);
     } else if (toneKey === "themed") {
         // themed: keep bg as base theme, but brighten ring/text like other semantic intents
-        const base = getDefaultThemeRgb();
+        const base = getThemeRgb(themeColor);
 
         // “semantic-like” tinting:
         // - dark: text much lighter (like step 200), ring slightly lighter than base
@@ -324,16 +601,20 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
         const textRgb = mode === "dark" ? lighten(base, 0.72) : darken(base, 0.62);
         const ringRgb = mode === "dark" ? lighten(base, 0.22) : darken(base, 0.18);
 
-        style["--intent-bg"] = getDefaultThemeCssRgb(); // base theme rgb(...)
+        style["--intent-bg"] = rgbToCssRgb(base); // base theme rgb(...)
         style["--intent-text"] = rgbToCssRgb(textRgb);
         style["--intent-ring"] = rgbToCssRgb(ringRgb);
 
         style["--intent-bg-opacity"] = String(bgOpacity);
         style["--intent-ring-opacity"] = String(ringOpacityBoosted);
     } else if (toneKey === "ink") {
+        // white ink on the black fill; without it (outlined / ghost / glass) the backdrop shows.
+        // The ring contrasts with the backdrop, so it only follows the mode.
+        const onFill = buildSurface(variant) === "intent-bg" || mode === "dark";
+
         style["--intent-bg"] = "0 0% 0%";
-        style["--intent-text"] = "0 0% 100%";
-        style["--intent-ring"] = "0 0% 100%";
+        style["--intent-text"] = onFill ? "0 0% 100%" : "0 0% 0%";
+        style["--intent-ring"] = mode === "dark" ? "0 0% 100%" : "0 0% 0%";
         style["--intent-bg-opacity"] = String(1);
         style["--intent-ring-opacity"] = String(0.22);
     } else if (
@@ -352,6 +633,16 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
         // ✅ dark: 200, light: 800
         style["--intent-text"] = tailwindColorVar(twFamily, textStep);
 
+        style["--intent-bg-opacity"] = String(bgOpacity);
+        style["--intent-ring-opacity"] = String(ringOpacityBoosted);
+    } else if (toneColor) {
+        // toned + custom color: the color is the 500, other steps are derived from it
+        const step = (n: number) => rgbToCssRgb(paletteStepRgb(toneColor, n) ?? toneColor);
+
+        style["--intent-bg"] = step(500);
+        style["--intent-text"] = step(pickTextStep(mode, intent));
+        style["--intent-ring"] = step(pickRingStep(intent));
+
         style["--intent-bg-opacity"] = String(bgOpacity);
         style["--intent-ring-opacity"] = String(ringOpacityBoosted);
     } else {
@@ -372,6 +663,77 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
         style["--intent-border"] = style["--intent-ring"];
     }
 
+    /* ============================================================================
+       🧱 Solid / glass fills
+       - solid: opaque fill, black / white ink picked by contrast (readableTextColor)
+       - glass: translucent paper (backdrop blur in CSS), intent text + ring kept
+    ============================================================================ */
+
+    if (variant === "solid") {
+        const fill = solidFillRgb({
+            intent,
+            toneKey,
+            toneRequested,
+            toneColor,
+            glowKey,
+            themeColor,
+        });
+
+        // the literal fill the ink was picked against (a themed --ids-* token would not match it)
+        style["--intent-bg"] = rgbToCssRgb(fill);
+
+        style["--intent-bg-opacity"] = "1";
+        style["--intent-text"] = rgbToCssRgb(readableTextColor(fill));
+    } else if (variant === "glass") {
+        style["--intent-bg"] = "rgb(var(--ids-paper))";
+        style["--intent-bg-opacity"] = String(intensityToAlpha(level, GLASS_ALPHA.paper[mode]));
+    }
+
+    /* ============================================================================
+       🖱 Interaction states (hover / pressed / selected / focus)
+       - derived from the same intensity level as bg/ring
+       - glowed has no fill: states tint with the ring color
+    ============================================================================ */
+
+    // solid: ink wash over the opaque fill; glass: the fill is paper, tint with the ring
+    const stateBase =
+        (variant === "solid"
+            ? style["--intent-text"]
+            : intent === "glowed" || variant === "glass"
+              ? style["--intent-ring"]
+              : style["--intent-bg"]) ?? "";
+    const ringBase = style["--intent-ring"] ?? "";
+
+    const stateAlpha = (state: IntentState) => intensityToAlpha(level, STATE_ALPHA[state]);
+
+    style["--intent-bg-hover"] = stateColor(stateBase, stateAlpha("hover"));
+    style["--intent-bg-pressed"] = stateColor(stateBase, stateAlpha("pressed"));
+    style["--intent-bg-selected"] = stateColor(stateBase, stateAlpha("selected"));
+    style["--intent-text-selected"] = style["--intent-text"] ?? "";
+    style["--intent-ring-hover"] = stateColor(ringBase, stateAlpha("hover-ring"));
+    style["--intent-ring-focus"] = stateColor(ringBase, stateAlpha("focus-ring"));
+
+    /* ============================================================================
+       🔲 High contrast (forced-colors / prefers-contrast: more)
+       - opaque bg + ring, CSS system color keywords (follow the user palette)
+    ============================================================================ */
+
+    if (highContrast) {
+        style["--intent-bg"] = "Canvas";
+        style["--intent-bg-opacity"] = "1";
+        style["--intent-text"] = disabled ? "GrayText" : "CanvasText";
+        style["--intent-ring"] = "CanvasText";
+        style["--intent-border"] = "CanvasText";
+        style["--intent-ring-opacity"] = "1";
+
+        style["--intent-bg-hover"] = "Canvas";
+        style["--intent-bg-pressed"] = "Highlight";
+        style["--intent-bg-selected"] = "Highlight";
+        style["--intent-text-selected"] = "HighlightText";
+        style["--intent-ring-hover"] = "Highlight";
+        style["--intent-ring-focus"] = "Highlight";
+    }
+
     /* ============================================================================
        🌟 Glow CSS vars (FINAL OPACITIES)
     ============================================================================ */
@@ -380,14 +742,14 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
         style["--intent-glow-bg"] = glowBackground;
 
         // Base opacities
-        let fill = clamp01(glowFillOpacity(intensity));
-        let border = clamp01(glowBorderOpacity(intensity));
+        let fill = clamp01(glowFillOpacity(level));
+        let border = clamp01(glowBorderOpacity(level));
 
         // ✅ Variant gating (single source of truth)
-        // - fill glow: flat/elevated only
-        // - border glow: outlined/elevated only
+        // - fill glow: flat/elevated only (solid is opaque, glass stays clear)
+        // - border glow: outlined/elevated/solid/glass
         const allowFill = variant === "flat" || variant === "elevated";
-        const allowBorder = variant === "outlined" || variant === "elevated";
+        const allowBorder = variant !== "flat" && variant !== "ghost";
 
         if (!allowFill) fill = 0;
         if (!allowBorder) border = 0;
@@ -399,12 +761,7 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
         style["--intent-glow-fill-opacity"] = String(fill);
         style["--intent-glow-border-opacity"] = String(border);
 
-        style["--intent-glow-filter"] =
-            intensity === "soft"
-                ? "saturate(1.14) brightness(1.08)"
-                : intensity === "medium"
-                  ? "saturate(1.20) brightness(1.12)"
-                  : "saturate(1.26) brightness(1.16)";
+        style["--intent-glow-filter"] = glowFilter(level);
     } else {
         style["--intent-glow-bg"] = "";
         style["--intent-glow-fill-opacity"] = "0";
@@ -412,6 +769,25 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
         style["--intent-glow-filter"] = "none";
     }
 
+    // explicit "none" so a nested surface never inherits an ancestor animation
+    Object.assign(style, getGlowMotionVars(glowMotion));
+
+    // same for the elevation; high contrast drops shadows and tints (opaque, outlined)
+    Object.assign(style, getElevationVars(mode, highContrast ? 0 : elevation));
+
+    // glass: subtle border glow (hairline + halo in the ring color), read by .intent-glass.
+    // Emitted for every variant so it only depends on the ring color and the intensity
+    // (the elevation shadow stays mode × elevation, static rules stay small).
+    if (highContrast) {
+        style["--intent-glass-edge"] = "none";
+    } else {
+        const ringColor = style["--intent-ring"] ?? "";
+        const edge = stateColor(ringColor, intensityToAlpha(level, GLASS_ALPHA.edge));
+        const halo = stateColor(ringColor, intensityToAlpha(level, GLASS_ALPHA.halo));
+
+        style["--intent-glass-edge"] = `0 0 0 1px ${edge}, 0 8px 32px -8px ${halo}`;
+    }
+
     /* ============================================================================
        🧩 Stable class hooks (no dynamic classes)
     ============================================================================ */
@@ -429,30 +805,58 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
 
     /**
      * ✅ NO FILL RULE (glowed)
-     * glowed must not paint the surface fill.
+     * glowed must not paint the surface fill (solid / glass bring their own).
      */
-    const suppressSurfaceFill = intent === "glowed";
+    const suppressSurfaceFill = intent === "glowed" && variant !== "solid" && variant !== "glass";
 
     const surface = suppressSurfaceFill ? "" : buildSurface(variant);
     const border = suppressRing ? "" : buildBorder(variant);
     const text = "intent-text";
     const ring = buildRing(variant);
-    const shadow = buildShadow(variant);
+    const shadow = buildShadow(variant, elevation);
 
     const glow = glowBackground ? "has-intent-glow" : "";
+    const motion = glowMotion !== "none" ? "has-intent-motion" : "";
+    const contrast = highContrast ? "intent-high-contrast" : "";
+
+    /* ============================================================================
+       🏷 Data attributes (static stylesheet selectors)
+    ============================================================================ */
+
+    const attributes: IntentDataAttributes = {
+        "data-intent": intent,
+        "data-variant": variant,
+        "data-intensity": levelToIntensityStep(level),
+        "data-mode": mode,
+        ...(intent === "toned" && !toneColor ? { "data-tone": toneRequested } : {}),
+        ...(glowKey ? { "data-glow": glowKey } : {}),
+        ...(glowMotion !== "none" ? { "data-glow-motion": glowMotion } : {}),
+        ...(variant === "elevated" ? { "data-elevation": `${elevation}` as const } : {}),
+        ...(highContrast ? { "data-contrast": "more" as const } : {}),
+    };
 
     return {
         mode,
         intent,
         variant,
         intensity,
+        intensityLevel: level,
 
         toneEffective: toneKey,
 
         glowKey,
         glowBackground,
+        glowMotion,
+
+        elevation,
 
-        style,
+        highContrast,
+
+        cssOutput,
+        attributes,
+
+        // custom tone colors have no stylesheet rule: they stay inline in static output
+        ...(cssOutput === "inline" || toneColor ? { style } : {}),
 
         classes: {
             base,
@@ -462,6 +866,8 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
             ring,
             shadow,
             glow,
+            motion,
+            contrast,
             disabled: disabledCls,
         },
     };
@@ -474,6 +880,7 @@ export function resolveIntent(input: IntentInput = {}): ResolvedIntent {
 function buildSurface(variant: VariantName): string {
     if (variant === "outlined") return "";
     if (variant === "ghost") return "";
+    if (variant === "glass") return "intent-bg intent-glass";
     return "intent-bg";
 }
 
@@ -487,14 +894,29 @@ function buildRing(_variant: VariantName): string {
     return "";
 }
 
-function buildShadow(variant: VariantName): string {
-    return variant === "elevated" ? "intent-shadow-soft" : "";
+function buildShadow(variant: VariantName, elevation: Elevation): string {
+    return variant === "elevated" && elevation > 0 ? "intent-shadow-soft" : "";
 }
 
 /* ============================================================================
    🧷 Ergonomic helpers
 ============================================================================ */
 
+/**
+ * Merges two IntentInput objects (override wins).
+ * - undefined values in `override` never erase a value from `base`
+ * - used by IntentProvider (context defaults ← local props)
+ */
+export function mergeIntentInput(base: IntentInput, override: IntentInput): IntentInput {
+    const out: Record<string, unknown> = { ...base };
+
+    for (const [key, value] of Object.entries(override)) {
+        if (value !== undefined) out[key] = value;
+    }
+
+    return out as IntentInput;
+}
+
 export function composeIntentClassName(resolved: ResolvedIntent, extraClassName?: string): string {
     return [
         resolved.classes.base,
@@ -504,6 +926,8 @@ export function composeIntentClassName(resolved: ResolvedIntent, extraClassName?
         resolved.classes.ring,
         resolved.classes.shadow,
         resolved.classes.glow,
+        resolved.classes.motion,
+        resolved.classes.contrast,
         resolved.classes.disabled,
         extraClassName,
     ]
@@ -511,16 +935,60 @@ export function composeIntentClassName(resolved: ResolvedIntent, extraClassName?
         .join(" ");
 }
 
+/**
+ * Data attributes to put on the element carrying the resolved vars.
+ * Empty for inline output (vars are in `style`), full set for static output.
+ */
+export function getIntentDataAttributes(resolved: ResolvedIntent): Partial<IntentDataAttributes> {
+    return resolved.cssOutput === "static" ? resolved.attributes : {};
+}
+
+// Props derived from a frozen (cached) ResolvedIntent are memoized, so they stay identity-stable too.
+const DERIVED_PROPS = new WeakMap<ResolvedIntent, Map<string, IntentSurfaceResolvedProps>>();
+
+function memoDerivedProps(
+    resolved: ResolvedIntent,
+    key: string,
+    build: () => IntentSurfaceResolvedProps
+): IntentSurfaceResolvedProps {
+    if (!Object.isFrozen(resolved)) return build();
+
+    let entries = DERIVED_PROPS.get(resolved);
+    if (!entries) {
+        entries = new Map();
+        DERIVED_PROPS.set(resolved, entries);
+    }
+
+    let props = entries.get(key);
+    if (!props) {
+        props = build();
+        entries.set(key, props);
+    }
+
+    return props;
+}
+
 export function getIntentSurfaceProps(
     resolved: ResolvedIntent,
     extraClassName?: string
+): IntentSurfaceResolvedProps {
+    return memoDerivedProps(resolved, `surface:${extraClassName ?? ""}`, () =>
+        buildIntentSurfaceProps(resolved, extraClassName)
+    );
+}
+
+function buildIntentSurfaceProps(
+    resolved: ResolvedIntent,
+    extraClassName?: string
 ): IntentSurfaceResolvedProps {
     const className = composeIntentClassName(resolved, extraClassName);
 
     // ✅ Single source of truth: resolver writes --intent-glow-bg already.
     const style = resolved.style ? ({ ...(resolved.style as any) } as any) : undefined;
 
-    return style ? { className, style } : { className };
+    const attributes = getIntentDataAttributes(resolved);
+
+    return style ? { ...attributes, className, style } : { ...attributes, className };
 }
 
 export function composeIntentControlClassName(resolved: ResolvedIntent, extraClassName?: string) {
@@ -531,6 +999,8 @@ export function composeIntentControlClassName(resolved: ResolvedIntent, extraCla
         resolved.classes.text,
         resolved.classes.shadow,
         resolved.classes.glow,
+        resolved.classes.motion,
+        resolved.classes.contrast,
         resolved.classes.disabled,
         extraClassName,
     ]
@@ -541,6 +1011,15 @@ export function composeIntentControlClassName(resolved: ResolvedIntent, extraCla
 export function getIntentControlProps(
     resolved: ResolvedIntent,
     extraClassName?: string
+): IntentSurfaceResolvedProps {
+    return memoDerivedProps(resolved, `control:${extraClassName ?? ""}`, () =>
+        buildIntentControlProps(resolved, extraClassName)
+    );
+}
+
+function buildIntentControlProps(
+    resolved: ResolvedIntent,
+    extraClassName?: string
 ): IntentSurfaceResolvedProps {
     const className = composeIntentControlClassName(resolved, extraClassName);
 
@@ -553,7 +1032,9 @@ export function getIntentControlProps(
           ? ({ "--intent-glow": resolved.glowBackground } as any)
           : undefined;
 
-    return style ? { className, style } : { className };
+    const attributes = getIntentDataAttributes(resolved);
+
+    return style ? { ...attributes, className, style } : { ...attributes, className };
 }
 
 // src/lib/intent/resolve.ts
@@ -561,27 +1042,62 @@ export function getIntentControlProps(
 export function getIntentLayoutProps(
     resolved: ResolvedIntent,
     extraClassName?: string
+): IntentSurfaceResolvedProps {
+    return memoDerivedProps(resolved, `layout:${extraClassName ?? ""}`, () =>
+        buildIntentLayoutProps(resolved, extraClassName)
+    );
+}
+
+function buildIntentLayoutProps(
+    resolved: ResolvedIntent,
+    extraClassName?: string
 ): IntentSurfaceResolvedProps {
     const className = extraClassName ?? "";
 
     // Layout: we want only CSS vars, no visual classes like intent-bg / intent-ring
     const style = resolved.style ? ({ ...(resolved.style as any) } as any) : undefined;
 
-    return style ? { className, style } : { className };
+    const attributes = getIntentDataAttributes(resolved);
+
+    return style ? { ...attributes, className, style } : { ...attributes, className };
 }
 
 /* ============================================================================
    ⚠️ Resolver + warnings (DX)
 ============================================================================ */
 
-export function resolveIntentWithWarnings(input: IntentInput = {}): ResolvedIntentWithWarnings {
-    const resolved = resolveIntent(input);
+export type IntentWarningOptions = {
+    /** WCAG audit of --intent-text on the effective bg. `false` disables it. Default: AA. */
+    contrast?: IntentContrastOptions | false;
+};
 
+/**
+ * Input-level rules (no resolution): unknown intent / tone / glow and ignored combinations.
+ * Shared by resolveIntentWithWarnings() and parseIntentInput().
+ */
+export function getIntentInputWarnings(input: IntentInput): IntentWarning[] {
     const warnings: IntentWarning[] = [];
 
+    if (input.intent !== undefined && !isKnownIntent(input.intent)) {
+        warnings.push({
+            code: "intent_unknown",
+            field: "intent",
+            message: `intent="${input.intent}" is neither a built-in intent nor registered via registerIntent().`,
+        });
+    }
+
+    if (input.tone !== undefined && !isToneName(input.tone) && !parseToneColor(input.tone)) {
+        warnings.push({
+            code: "tone_unknown",
+            field: "tone",
+            message: `tone="${input.tone}" is neither a palette tone nor a valid CSS color (falls back to "${DEFAULT_TONE}").`,
+        });
+    }
+
     if (input.tone && input.intent !== "toned") {
         warnings.push({
             code: "tone_ignored",
+            field: "tone",
             message: `tone="${input.tone}" is ignored unless intent="toned".`,
         });
     }
@@ -589,6 +1105,7 @@ export function resolveIntentWithWarnings(input: IntentInput = {}): ResolvedInte
     if (typeof input.glow === "string" && input.intent !== "glowed") {
         warnings.push({
             code: "glow_string_ignored",
+            field: "glow",
             message: `glow="${input.glow}" is ignored unless intent="glowed". Use glow={true} for implicit intent glow.`,
         });
     }
@@ -596,23 +1113,90 @@ export function resolveIntentWithWarnings(input: IntentInput = {}): ResolvedInte
     if (input.intent === "toned" && input.glow === true) {
         warnings.push({
             code: "glow_disabled_for_toned",
+            field: "glow",
             message: `glow={true} is ignored for intent="toned" (canonical rule).`,
         });
     }
 
+    const canGlow = input.intent === "glowed" || (input.glow === true && input.intent !== "toned");
+
+    if (input.glowMotion !== undefined && input.glowMotion !== "none" && !canGlow) {
+        warnings.push({
+            code: "glow_motion_ignored",
+            field: "glowMotion",
+            message: `glowMotion="${input.glowMotion}" is ignored without a glow (glow={true} or intent="glowed").`,
+        });
+    }
+
+    if (input.elevation !== undefined && (input.variant ?? DEFAULT_VARIANT) !== "elevated") {
+        warnings.push({
+            code: "elevation_ignored",
+            field: "elevation",
+            message: `elevation=${input.elevation} is ignored unless variant="elevated".`,
+        });
+    }
+
     if (input.intent === "glowed" && typeof input.glow === "string") {
         const key = input.glow;
-        const isIntentGlow =
-            key === "info" ||
-            key === "empower" ||
-            key === "warn" ||
-            key === "threat" ||
-            key === "theme";
+        const isIntentGlow = (INTENT_GLOWS as string[]).includes(key);
 
         if (isIntentGlow) {
             warnings.push({
                 code: "glow_intent_key_forbidden",
-                message: `glow="${key}" is an intent glow key and is not allowed when intent="glowed". Use an aesthetic glow (aurora/ember/cosmic/mythic/royal/mono).`,
+                field: "glow",
+                message: `glow="${key}" is an intent glow key and is not allowed when intent="glowed". Use an aesthetic glow (${getAestheticGlows().join("/")}).`,
+            });
+        } else if (!isAestheticGlow(key)) {
+            warnings.push({
+                code: "glow_unknown",
+                field: "glow",
+                message: `glow="${key}" is not a known aesthetic glow (falls back to "aurora"). Register it with registerGlow().`,
+            });
+        }
+    }
+
+    return warnings;
+}
+
+/**
+ * resolveIntent() + DX warnings. Also accepts a shorthand `intent` (like the components):
+ * the parts it drops are reported as `shorthand_invalid`.
+ */
+export function resolveIntentWithWarnings(
+    componentInput: IntentComponentInput = {},
+    opts?: IntentWarningOptions
+): ResolvedIntentWithWarnings {
+    const input = expandIntentShorthand(componentInput);
+    const resolved = resolveIntent(input);
+
+    const warnings: IntentWarning[] = [
+        ...getIntentShorthandWarnings(componentInput),
+        ...getIntentInputWarnings(input),
+    ];
+
+    // Disabled surfaces are exempt from WCAG text contrast requirements.
+    if (opts?.contrast !== false && !input.disabled) {
+        // static output carries no vars: audit the equivalent inline resolution
+        const audited =
+            resolved.cssOutput === "static"
+                ? resolveIntent({ ...input, cssOutput: "inline" })
+                : resolved;
+        const report = auditResolvedContrast(audited, opts?.contrast);
+
+        if (report && !report.passes) {
+            const toneInfo =
+                resolved.intent === "toned" ? `, tone="${input.tone ?? DEFAULT_TONE}"` : "";
+
+            warnings.push({
+                code: "low_contrast_text",
+                message: `--intent-text on --intent-bg has a contrast of ${report.ratio}:1 (mode="${resolved.mode}", intent="${resolved.intent}"${toneInfo}, variant="${resolved.variant}"), below the WCAG ${report.level} target of ${report.target}:1.`,
+                contrast: {
+                    ratio: report.ratio,
+                    target: report.target,
+                    level: report.level,
+                    foreground: rgbToHex(report.foreground),
+                    background: rgbToHex(report.background),
+                },
             });
         }
     }
@@ -622,3 +1206,39 @@ export function resolveIntentWithWarnings(input: IntentInput = {}): ResolvedInte
         warnings,
     };
 }
+
+/**
+ * QA helper: audits every mode × intent × variant (× tone for toned) combination
+ * and returns the ones failing the contrast target.
+ */
+export function auditIntentContrastMatrix(
+    opts?: IntentContrastOptions & { intensity?: Intensity }
+): Array<{ input: IntentInput; report: IntentContrastReport }> {
+    const out: Array<{ input: IntentInput; report: IntentContrastReport }> = [];
+
+    const modes: ModeName[] = ["light", "dark"];
+    const variants = VARIANTS;
+    const tones = Object.keys(TONE_TO_COLOR_FAMILY) as ToneName[];
+
+    const inputs: IntentInput[] = [];
+    for (const mode of modes) {
+        for (const variant of variants) {
+            for (const intent of getKnownIntents()) {
+                if (intent === "toned") {
+                    for (const tone of tones) inputs.push({ mode, variant, intent, tone });
+                } else {
+                    inputs.push({ mode, variant, intent });
+                }
+            }
+        }
+    }
+
+    for (const base of inputs) {
+        const input: IntentInput =
+            opts?.intensity !== undefined ? { ...base, intensity: opts.intensity } : base;
+        const report = auditResolvedContrast(resolveIntent(input), opts);
+        if (report && !report.passes) out.push({ input, report });
+    }
+
+    return out;
+}
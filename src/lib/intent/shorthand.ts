@@ -0,0 +1,225 @@
+/* ============================================================================
+   src/lib/intent/shorthand.ts
+   Intent Design System – Intent shorthand
+   - One token for a full intent: "warned/outlined/strong +glow", "toned:emerald/flat"
+   - <intent>[:<tone|glow>][/<variant>][/<intensity>][/<mode>] [+glow] [+<motion>] [+disabled]
+   - parse → validated IntentInput (same checks as parseIntentInput), format → canonical string
+============================================================================ */
+
+import type {
+    IntentComponentInput,
+    IntentInput,
+    IntentInputError,
+    IntentInputParseResult,
+    IntentShorthand,
+    IntentWarning,
+} from "./types";
+
+import {
+    DEFAULT_INTENT,
+    GLOW_MOTIONS,
+    INTENSITY_STEPS,
+    MODE_PREFERENCES,
+    VARIANTS,
+} from "./mapping";
+import { parseIntentInput } from "./parse";
+import { mergeIntentInput } from "./resolve";
+
+/* ============================================================================
+   🧰 Helpers
+============================================================================ */
+
+const NUMBER_RE = /^(?:\d+\.?\d*|\.\d+)$/;
+
+// String(1e-7) is "1e-7", which NUMBER_RE rejects: numbers are written out without exponent
+function formatShorthandNumber(value: number): string {
+    const text = String(value);
+    const [mantissa = "", exponent] = text.split("e");
+    if (exponent === undefined) return text;
+    if (Number(exponent) > 0) return BigInt(value).toString();
+
+    const decimals = (mantissa.split(".")[1] ?? "").length - Number(exponent);
+    return value.toFixed(Math.min(100, decimals));
+}
+
+// "/" inside parentheses belongs to a color (toned:rgb(10 20 30 / 0.5)), not to the path
+function splitPath(path: string): string[] {
+    const parts = [""];
+    let depth = 0;
+
+    for (const char of path) {
+        if (char === "(") depth += 1;
+        else if (char === ")") depth = Math.max(0, depth - 1);
+
+        if (char === "/" && depth === 0) parts.push("");
+        else parts[parts.length - 1] += char;
+    }
+
+    return parts;
+}
+
+/** True when the value uses the shorthand syntax (a plain intent name is not a shorthand). */
+export function isIntentShorthand(value: unknown): value is IntentShorthand {
+    return typeof value === "string" && /[:/+]/.test(value);
+}
+
+/* ============================================================================
+   🔤 Parse
+============================================================================ */
+
+/**
+ * Parses an intent shorthand into a validated IntentInput.
+ * Syntax errors (unknown segment, duplicated field, stray qualifier…) are reported
+ * with `field: null`; field values then go through parseIntentInput().
+ *
+ * @example
+ * parseIntentShorthand("warned/outlined/strong +glow").value;
+ * // { intent: "warned", variant: "outlined", intensity: "strong", glow: true }
+ */
+export function parseIntentShorthand(shorthand: string): IntentInputParseResult {
+    const { raw, errors } = readIntentShorthand(shorthand);
+
+    const parsed = parseIntentInput(raw);
+    if (errors.length === 0) return parsed;
+
+    return {
+        ok: false,
+        value: null,
+        errors: [...errors, ...parsed.errors],
+        warnings: parsed.warnings,
+    };
+}
+
+// Splits the shorthand into raw fields; invalid segments / flags are left out and reported.
+function readIntentShorthand(shorthand: string) {
+    const errors: IntentInputError[] = [];
+    const raw: Record<string, unknown> = {};
+
+    const syntax = (message: string) =>
+        errors.push({ field: null, code: "invalid_value", message });
+
+    const set = (field: keyof IntentInput, value: unknown, token: string) => {
+        if (raw[field] !== undefined) syntax(`"${token}": ${field} is already set.`);
+        else raw[field] = value;
+    };
+
+    // "+flag" tokens may or may not be preceded by whitespace
+    const [path = "", ...flags] = shorthand.trim().split(/\s*(?=\+)/);
+    const [head = "", ...segments] = splitPath(path);
+    const [intent, qualifier, ...extra] = head.split(":");
+
+    if (!intent) syntax(`"${shorthand}" does not start with an intent.`);
+    else raw.intent = intent;
+
+    if (extra.length > 0) syntax(`"${head}" has more than one ":" qualifier.`);
+
+    if (qualifier !== undefined) {
+        if (intent === "toned") raw.tone = qualifier;
+        else if (intent === "glowed") raw.glow = qualifier;
+        else syntax(`"${head}": a ":" qualifier is only allowed for toned (tone) / glowed (glow).`);
+    }
+
+    for (const segment of segments) {
+        if ((VARIANTS as string[]).includes(segment)) set("variant", segment, segment);
+        else if ((INTENSITY_STEPS as string[]).includes(segment))
+            set("intensity", segment, segment);
+        else if (NUMBER_RE.test(segment)) set("intensity", Number(segment), segment);
+        else if ((MODE_PREFERENCES as string[]).includes(segment)) set("mode", segment, segment);
+        else syntax(`"${segment}" is not a variant, intensity or mode.`);
+    }
+
+    for (const token of flags) {
+        const flag = token.trim();
+        const motion = flag.slice(1);
+
+        if (flag === "+glow") set("glow", true, flag);
+        else if (flag === "+disabled") set("disabled", true, flag);
+        else if (motion !== "none" && (GLOW_MOTIONS as string[]).includes(motion)) {
+            set("glowMotion", motion, flag);
+        } else {
+            syntax(
+                `"${flag}" is not a known flag (+glow / +${GLOW_MOTIONS.slice(1).join(" / +")} / +disabled).`
+            );
+        }
+    }
+
+    return { raw, errors };
+}
+
+/* ============================================================================
+   🖊 Format
+============================================================================ */
+
+/**
+ * Canonical shorthand for an IntentInput (inverse of parseIntentShorthand).
+ * Order: intent[:tone|glow] / variant / intensity / mode, then +glow / +<motion> / +disabled.
+ * Fields the shorthand cannot express (themeColor, elevation, cssOutput) and fields the resolver
+ * ignores (tone outside toned, glow keys outside glowed) are left out.
+ */
+export function formatIntentShorthand(input: IntentInput): string {
+    const intent = input.intent ?? DEFAULT_INTENT;
+
+    let head: string = intent;
+    if (intent === "toned" && input.tone) head += `:${input.tone}`;
+    if (intent === "glowed" && typeof input.glow === "string") head += `:${input.glow}`;
+
+    const segments = [
+        head,
+        input.variant,
+        typeof input.intensity === "number"
+            ? formatShorthandNumber(input.intensity)
+            : input.intensity,
+        input.mode,
+    ].filter(Boolean);
+
+    const flags = [
+        input.glow === true ? "+glow" : "",
+        input.glowMotion && input.glowMotion !== "none" ? `+${input.glowMotion}` : "",
+        input.disabled ? "+disabled" : "",
+    ];
+
+    return [segments.join("/"), ...flags].filter(Boolean).join(" ");
+}
+
+/* ============================================================================
+   🧩 Component input
+============================================================================ */
+
+/**
+ * Expands a shorthand `intent` into IntentInput fields.
+ * Explicit fields win over the shorthand (`intent="warned/outlined" variant="flat"` → flat).
+ * Never throws (it runs during render): an invalid shorthand keeps its valid segments and the
+ * invalid ones are dropped (see getIntentShorthandWarnings). An unknown intent name is kept, so
+ * the resolver falls back exactly like for a plain `intent="…"`.
+ */
+export function expandIntentShorthand(input: IntentComponentInput): IntentInput {
+    const { intent, ...rest } = input;
+    if (!isIntentShorthand(intent)) return input as IntentInput;
+
+    const parsed = parseIntentShorthand(intent);
+    if (parsed.ok) return mergeIntentInput(parsed.value, rest);
+
+    const { raw } = readIntentShorthand(intent);
+    for (const error of parsed.errors) {
+        if (error.field && error.field !== "intent") delete raw[error.field];
+    }
+
+    return mergeIntentInput(raw as IntentInput, rest);
+}
+
+/**
+ * Warnings for the parts of a shorthand `intent` that expandIntentShorthand() drops.
+ * An unknown intent name is not reported here: it is kept and reported as `intent_unknown`.
+ */
+export function getIntentShorthandWarnings(input: IntentComponentInput): IntentWarning[] {
+    const { intent } = input;
+    if (!isIntentShorthand(intent)) return [];
+
+    return parseIntentShorthand(intent)
+        .errors.filter((error) => error.field !== "intent")
+        .map((error) => ({
+            code: "shorthand_invalid",
+            message: `Invalid intent shorthand "${intent}" (the part is ignored): ${error.message}`,
+            field: error.field ?? "intent",
+        }));
+}
@@ -0,0 +1,559 @@
+/* ============================================================================
+   src/lib/intent/static.ts
+   Intent Design System – Static CSS output
+   - Build-time generator for the stylesheet used with cssOutput="static"
+   - Rules are keyed on data-intent / data-tone / data-glow / data-mode /
+     data-variant / data-intensity / data-glow-motion / data-elevation
+     (see ResolvedIntent.attributes)
+   - Each variable is emitted at the smallest set of attributes it depends on
+   - Same analysis for class-based utilities (Tailwind plugin)
+============================================================================ */
+
+import type {
+    Elevation,
+    GlowMotion,
+    IntentInput,
+    IntentName,
+    IntensityStep,
+    ModeName,
+    ToneName,
+    VariantName,
+} from "./types";
+
+import {
+    DEFAULT_ELEVATION,
+    DEFAULT_TONE,
+    DEFAULT_VARIANT,
+    ELEVATIONS,
+    GLOW_MOTIONS,
+    TONE_TO_COLOR_FAMILY,
+    VARIANTS,
+} from "./mapping";
+import { SYSTEM_MODE_FALLBACK } from "./mode";
+import { getAestheticGlows, getKnownIntents } from "./registry";
+import { composeIntentClassName, resolveIntent } from "./resolve";
+
+/* ============================================================================
+   🧩 Types
+============================================================================ */
+
+export type IntentStylesheetOptions = {
+    /** Default: built-in + registered intents. */
+    intents?: IntentName[];
+    /** Default: ["light", "dark"]. */
+    modes?: ModeName[];
+    /** Default: all variants. */
+    variants?: VariantName[];
+    /** Default: ["soft", "medium", "strong"]. */
+    intensities?: IntensityStep[];
+    /** Levels covered by variant="elevated". Default: 0–5. */
+    elevations?: Elevation[];
+    /** Tones covered by intent="toned". Default: all tones. */
+    tones?: ToneName[];
+    /** Emit glow={true} / glowed rules. Default: true. */
+    glows?: boolean;
+    /** Theme color baked into themed / theme-glow rules. Default: DEFAULT_THEME_COLOR. */
+    themeColor?: string;
+    /** Emit the high-contrast block ([data-contrast="more"]). Default: true. */
+    highContrast?: boolean;
+};
+
+/* ============================================================================
+   🧮 Matrix
+============================================================================ */
+
+type Dimension = "subject" | "mode" | "variant" | "intensity" | "motion" | "elevation";
+
+const DIMENSIONS: Dimension[] = ["subject", "mode", "variant", "intensity", "motion", "elevation"];
+
+type Cell = {
+    selectors: Record<Dimension, string>;
+    style: Record<string, string>;
+};
+
+function attr(name: string, value: string) {
+    return `[${name}="${value.replace(/["\\]/g, "\\$&")}"]`;
+}
+
+/** Intent-level inputs: one per intent, tone (toned) or glow (glowed / glow={true}). */
+function buildSubjects(opts: IntentStylesheetOptions): IntentInput[] {
+    const intents = opts.intents ?? getKnownIntents();
+    const tones = opts.tones ?? (Object.keys(TONE_TO_COLOR_FAMILY) as ToneName[]);
+    const glows = opts.glows ?? true;
+
+    const out: IntentInput[] = [];
+
+    for (const intent of intents) {
+        if (intent === "toned") {
+            for (const tone of tones) out.push({ intent, tone });
+        } else if (intent === "glowed") {
+            if (glows) for (const glow of getAestheticGlows()) out.push({ intent, glow });
+        } else {
+            out.push({ intent });
+            if (glows && resolveIntent({ intent, glow: true }).glowKey) {
+                out.push({ intent, glow: true });
+            }
+        }
+    }
+
+    return out;
+}
+
+function buildMatrix(opts: IntentStylesheetOptions, override: IntentInput = {}): Cell[] {
+    const modes = opts.modes ?? ["light", "dark"];
+    const variants = opts.variants ?? VARIANTS;
+    const intensities = opts.intensities ?? ["soft", "medium", "strong"];
+    const elevations = opts.elevations ?? ELEVATIONS;
+
+    const cells: Cell[] = [];
+
+    for (const subject of buildSubjects(opts)) {
+        // glow motion only exists on glowing subjects
+        const motions = resolveIntent({ ...subject, ...override }).glowBackground
+            ? GLOW_MOTIONS
+            : ["none" as const];
+
+        for (const glowMotion of motions) {
+            for (const mode of modes) {
+                for (const variant of variants) {
+                    // elevation only exists on the elevated variant
+                    const levels = variant === "elevated" ? elevations : [undefined];
+
+                    for (const elevation of levels) {
+                        for (const intensity of intensities) {
+                            const resolved = resolveIntent({
+                                ...subject,
+                                glowMotion,
+                                mode,
+                                variant,
+                                intensity,
+                                ...(elevation !== undefined ? { elevation } : {}),
+                                ...(opts.themeColor !== undefined
+                                    ? { themeColor: opts.themeColor }
+                                    : {}),
+                                ...override,
+                            });
+
+                            const a = resolved.attributes;
+
+                            cells.push({
+                                selectors: {
+                                    subject: [
+                                        attr("data-intent", a["data-intent"]),
+                                        a["data-tone"] ? attr("data-tone", a["data-tone"]) : "",
+                                        a["data-glow"] ? attr("data-glow", a["data-glow"]) : "",
+                                    ].join(""),
+                                    mode: attr("data-mode", a["data-mode"]),
+                                    variant: attr("data-variant", a["data-variant"]),
+                                    intensity: attr("data-intensity", a["data-intensity"]),
+                                    motion: a["data-glow-motion"]
+                                        ? attr("data-glow-motion", a["data-glow-motion"])
+                                        : ":not([data-glow-motion])",
+                                    elevation: a["data-elevation"]
+                                        ? attr("data-elevation", a["data-elevation"])
+                                        : ":not([data-elevation])",
+                                },
+                                style: resolved.style ?? {},
+                            });
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    return cells;
+}
+
+/* ============================================================================
+   🔎 Dependency analysis
+============================================================================ */
+
+// Subsets ordered by size: the first consistent one is the smallest.
+const DIMENSION_SUBSETS: Dimension[][] = Array.from({ length: 1 << DIMENSIONS.length }, (_, mask) =>
+    DIMENSIONS.filter((_, i) => mask & (1 << i))
+).sort((a, b) => a.length - b.length);
+
+function selectorFor(cell: Cell, dims: Dimension[]) {
+    // [data-intent] is always present so foreign data-mode / data-variant attributes never match.
+    const parts = dims.map((d) => cell.selectors[d]);
+    return dims.includes("subject") ? parts.join("") : `[data-intent]${parts.join("")}`;
+}
+
+// Empty / missing values reset the var so it is never inherited from an ancestor surface.
+function valueOf(cell: Cell, name: string) {
+    const v = cell.style[name];
+    return v === undefined || v === "" ? "initial" : v;
+}
+
+function findDependencies(cells: Cell[], name: string): Dimension[] {
+    for (const dims of DIMENSION_SUBSETS) {
+        const seen = new Map<string, string>();
+        let consistent = true;
+
+        for (const cell of cells) {
+            const key = selectorFor(cell, dims);
+            const value = valueOf(cell, name);
+            const prev = seen.get(key);
+
+            if (prev !== undefined && prev !== value) {
+                consistent = false;
+                break;
+            }
+            seen.set(key, value);
+        }
+
+        if (consistent) return dims;
+    }
+
+    return DIMENSIONS;
+}
+
+/* ============================================================================
+   🏗 Generator
+============================================================================ */
+
+/**
+ * Appends one rule per (dependency subset, value) to `rules`.
+ * `suffix` scopes every selector, `important` lets the block win over base rules.
+ */
+function collectRules(rules: Map<string, string[]>, cells: Cell[], suffix = "", important = false) {
+    const names = Array.from(new Set(cells.flatMap((cell) => Object.keys(cell.style))));
+
+    for (const name of names) {
+        const dims = findDependencies(cells, name);
+        const emitted = new Set<string>();
+
+        for (const cell of cells) {
+            const selector = selectorFor(cell, dims) + suffix;
+            if (emitted.has(selector)) continue;
+            emitted.add(selector);
+
+            const decls = rules.get(selector) ?? [];
+            decls.push(`    ${name}: ${valueOf(cell, name)}${important ? " !important" : ""};`);
+            rules.set(selector, decls);
+        }
+    }
+}
+
+function printRules(rules: Map<string, string[]>) {
+    return Array.from(rules, ([selector, decls]) => `${selector} {\n${decls.join("\n")}\n}`).join(
+        "\n\n"
+    );
+}
+
+/**
+ * Generates the stylesheet matching cssOutput="static".
+ * Run it at build time (after registerIntent / registerGlow) and ship the result:
+ *
+ * @example
+ * import { writeFileSync } from "node:fs";
+ * writeFileSync("intent-static.css", generateIntentStylesheet());
+ */
+export function generateIntentStylesheet(opts: IntentStylesheetOptions = {}): string {
+    // selector => declarations (insertion order = deterministic output)
+    const rules = new Map<string, string[]>();
+    collectRules(rules, buildMatrix(opts));
+
+    const header = [
+        "/* ============================================================================",
+        "   Intent Design System – static intent stylesheet (generated)",
+        '   - Pair with cssOutput="static" (IntentProvider or per component)',
+        "============================================================================ */",
+    ].join("\n");
+
+    const blocks = [header, printRules(rules)];
+
+    if (opts.highContrast ?? true) {
+        // High-contrast vars are mode-agnostic (system colors): one matrix, !important over base rules.
+        const contrastRules = new Map<string, string[]>();
+        collectRules(
+            contrastRules,
+            buildMatrix({ ...opts, modes: ["dark"] }, { mode: "high-contrast" }),
+            `[data-contrast="more"]`,
+            true
+        );
+
+        blocks.push(
+            '/* High contrast (mode="high-contrast" / forced-colors / prefers-contrast: more) */',
+            printRules(contrastRules)
+        );
+    }
+
+    return `${blocks.join("\n\n")}\n`;
+}
+
+/* ============================================================================
+   🧩 Utility classes (Tailwind plugin / class-only markup)
+   - .intent-<intent> / .intent-tone-<tone> / .intent-glow-<glow> carry every var
+   - Modifier classes (.intent-variant-*, .intent-soft|strong, .intent-mode-*,
+     .intent-glow, .intent-motion-*, .intent-elevation-*) are matched inside
+     them; no modifier class = the default
+============================================================================ */
+
+export type IntentUtilityOptions = Omit<IntentStylesheetOptions, "highContrast">;
+
+/** CSS-in-JS rules (Tailwind `addUtilities()` shape): class → vars + nested modifier rules. */
+export type IntentUtilityRules = Record<string, Record<string, string | Record<string, string>>>;
+
+type Modifier = "mode" | "variant" | "intensity" | "glow" | "motion" | "elevation";
+
+const MODIFIERS: Modifier[] = ["mode", "variant", "intensity", "glow", "motion", "elevation"];
+
+const MODIFIER_SUBSETS: Modifier[][] = Array.from({ length: 1 << MODIFIERS.length }, (_, mask) =>
+    MODIFIERS.filter((_, i) => mask & (1 << i))
+).sort((a, b) => a.length - b.length);
+
+/** Class names used by the utilities (without the leading dot). */
+export const INTENT_UTILITY_CLASSES = {
+    intent: (intent: IntentName) => `intent-${intent}`,
+    tone: (tone: ToneName) => `intent-tone-${tone}`,
+    glow: (glow: string) => `intent-glow-${glow}`,
+    glowFlag: "intent-glow",
+    mode: (mode: ModeName) => `intent-mode-${mode}`,
+    variant: (variant: VariantName) => `intent-variant-${variant}`,
+    intensity: (intensity: IntensityStep) => `intent-${intensity}`,
+    motion: (motion: GlowMotion) => `intent-motion-${motion}`,
+    elevation: (elevation: Elevation) => `intent-elevation-${elevation}`,
+};
+
+type UtilityCell = {
+    modifiers: Record<Modifier, string>;
+    style: Record<string, string>;
+};
+
+/** `.class` for an explicit value, `:not(<other values>)` for the default one. */
+function modifierSelector<T extends string | number>(
+    value: T,
+    values: T[],
+    fallback: T,
+    toClass: (v: T) => string
+) {
+    if (value !== fallback) return `.${toClass(value)}`;
+
+    const others = values.filter((v) => v !== value).map((v) => `.${toClass(v)}`);
+    return others.length > 0 ? `:not(${others.join(", ")})` : "";
+}
+
+function buildUtilityGroups(opts: IntentUtilityOptions) {
+    const intents = opts.intents ?? getKnownIntents();
+    const tones = opts.tones ?? (Object.keys(TONE_TO_COLOR_FAMILY) as ToneName[]);
+    const glows = opts.glows ?? true;
+
+    const groups: Array<{
+        className: string;
+        input: IntentInput;
+        glowFlag: boolean;
+        motion: boolean;
+    }> = [];
+
+    for (const intent of intents) {
+        if (intent === "toned") {
+            for (const tone of tones) {
+                groups.push({
+                    className: INTENT_UTILITY_CLASSES.tone(tone),
+                    input: { intent, tone },
+                    glowFlag: false,
+                    motion: false,
+                });
+            }
+        } else if (intent === "glowed") {
+            if (!glows) continue;
+            for (const glow of getAestheticGlows()) {
+                groups.push({
+                    className: INTENT_UTILITY_CLASSES.glow(glow),
+                    input: { intent, glow },
+                    glowFlag: false,
+                    motion: true,
+                });
+            }
+        } else {
+            const glowFlag = glows && Boolean(resolveIntent({ intent, glow: true }).glowKey);
+
+            groups.push({
+                className: INTENT_UTILITY_CLASSES.intent(intent),
+                input: { intent },
+                glowFlag,
+                motion: glowFlag,
+            });
+        }
+    }
+
+    return groups;
+}
+
+/**
+ * Utility rules setting the same vars as resolveIntent(), for class-only markup
+ * (MDX, server templates). Used by the Tailwind plugin (`intentPlugin`).
+ *
+ * @example
+ * <div class="intent-surface intent-bg intent-ring intent-text intent-warned intent-variant-outlined intent-strong">
+ */
+export function generateIntentUtilities(opts: IntentUtilityOptions = {}): IntentUtilityRules {
+    const modes = opts.modes ?? ["light", "dark"];
+    const variants = opts.variants ?? VARIANTS;
+    const intensities = opts.intensities ?? ["soft", "medium", "strong"];
+    const elevations = opts.elevations ?? ELEVATIONS;
+
+    const out: IntentUtilityRules = {};
+
+    for (const group of buildUtilityGroups(opts)) {
+        const cells: UtilityCell[] = [];
+
+        const motions = group.motion ? GLOW_MOTIONS : ["none" as const];
+
+        for (const glow of group.glowFlag ? [false, true] : [false]) {
+            for (const glowMotion of motions) {
+                for (const mode of modes) {
+                    for (const variant of variants) {
+                        const levels = variant === "elevated" ? elevations : [undefined];
+
+                        for (const elevation of levels) {
+                            for (const intensity of intensities) {
+                                const resolved = resolveIntent({
+                                    ...group.input,
+                                    ...(glow ? { glow: true } : {}),
+                                    glowMotion,
+                                    mode,
+                                    variant,
+                                    intensity,
+                                    ...(elevation !== undefined ? { elevation } : {}),
+                                    ...(opts.themeColor !== undefined
+                                        ? { themeColor: opts.themeColor }
+                                        : {}),
+                                });
+
+                                const variantSelector = modifierSelector(
+                                    variant,
+                                    variants,
+                                    DEFAULT_VARIANT,
+                                    INTENT_UTILITY_CLASSES.variant
+                                );
+
+                                cells.push({
+                                    modifiers: {
+                                        mode: modifierSelector(
+                                            mode,
+                                            modes,
+                                            SYSTEM_MODE_FALLBACK,
+                                            INTENT_UTILITY_CLASSES.mode
+                                        ),
+                                        variant: variantSelector,
+                                        intensity: modifierSelector(
+                                            intensity,
+                                            intensities,
+                                            "medium",
+                                            INTENT_UTILITY_CLASSES.intensity
+                                        ),
+                                        glow: glow
+                                            ? `.${INTENT_UTILITY_CLASSES.glowFlag}`
+                                            : group.glowFlag
+                                              ? `:not(.${INTENT_UTILITY_CLASSES.glowFlag})`
+                                              : "",
+                                        motion: group.motion
+                                            ? modifierSelector(
+                                                  glowMotion,
+                                                  GLOW_MOTIONS,
+                                                  "none",
+                                                  INTENT_UTILITY_CLASSES.motion
+                                              )
+                                            : "",
+                                        // scoped to the variant: no elevation class only
+                                        // means the default level on elevated markup
+                                        elevation:
+                                            variantSelector +
+                                            (elevation !== undefined
+                                                ? modifierSelector(
+                                                      elevation,
+                                                      elevations,
+                                                      DEFAULT_ELEVATION,
+                                                      INTENT_UTILITY_CLASSES.elevation
+                                                  )
+                                                : ""),
+                                    },
+                                    style: resolved.style ?? {},
+                                });
+                            }
+                        }
+                    }
+                }
+            }
+        }
+
+        const rule: Record<string, string | Record<string, string>> = {};
+        const names = Array.from(new Set(cells.flatMap((cell) => Object.keys(cell.style))));
+
+        for (const name of names) {
+            const valueAt = (cell: UtilityCell) => {
+                const v = cell.style[name];
+                return v === undefined || v === "" ? "initial" : v;
+            };
+
+            // smallest modifier subset the value depends on (same idea as findDependencies)
+            const dims =
+                MODIFIER_SUBSETS.find((subset) => {
+                    const seen = new Map<string, string>();
+                    return cells.every((cell) => {
+                        const key = subset.map((m) => cell.modifiers[m]).join("");
+                        const prev = seen.get(key);
+                        seen.set(key, valueAt(cell));
+                        return prev === undefined || prev === valueAt(cell);
+                    });
+                }) ?? MODIFIERS;
+
+            for (const cell of cells) {
+                const selector = dims.map((m) => cell.modifiers[m]).join("");
+
+                if (!selector) {
+                    rule[name] = valueAt(cell);
+                    continue;
+                }
+
+                const nested = rule[`&${selector}`];
+                const decls = typeof nested === "object" ? nested : {};
+                decls[name] = valueAt(cell);
+                rule[`&${selector}`] = decls;
+            }
+        }
+
+        out[`.${group.className}`] = rule;
+    }
+
+    return out;
+}
+
+/**
+ * Class list for class-only markup: the resolver's class hooks + the utility classes.
+ * Custom tone colors (tone="#…") have no utility: they need inline vars.
+ *
+ * @example
+ * getIntentUtilityClassName({ intent: "warned", variant: "outlined", glow: true });
+ * // "intent-surface … intent-ring intent-text has-intent-glow intent-warned intent-glow intent-variant-outlined intent-medium intent-mode-dark"
+ */
+export function getIntentUtilityClassName(input: IntentInput = {}): string {
+    const resolved = resolveIntent({ ...input, cssOutput: "static" });
+    const c = INTENT_UTILITY_CLASSES;
+
+    let subject: string[];
+    if (resolved.intent === "toned") {
+        subject = [c.tone(resolved.attributes["data-tone"] ?? DEFAULT_TONE)];
+    } else if (resolved.intent === "glowed") {
+        subject = resolved.glowKey ? [c.glow(resolved.glowKey)] : [];
+    } else {
+        subject = [c.intent(resolved.intent), resolved.glowKey ? c.glowFlag : ""];
+    }
+
+    return [
+        composeIntentClassName(resolved),
+        ...subject,
+        c.variant(resolved.variant),
+        c.intensity(resolved.attributes["data-intensity"]),
+        c.mode(resolved.mode),
+        resolved.glowMotion !== "none" ? c.motion(resolved.glowMotion) : "",
+        resolved.variant === "elevated" && resolved.elevation !== DEFAULT_ELEVATION
+            ? c.elevation(resolved.elevation)
+            : "",
+    ]
+        .filter(Boolean)
+        .join(" ");
+}
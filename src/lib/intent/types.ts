@@ -7,18 +7,36 @@
    🧠 Core intent grammar
 ============================================================================ */
 
-export type IntentName =
-    | "informed"
-    | "empowered"
-    | "warned"
-    | "threatened"
-    | "themed"
-    | "toned"
-    | "glowed";
+/** Built-in semantic intents (fixed color + text family + implicit glow). */
+export type SemanticIntentName = "informed" | "empowered" | "warned" | "threatened" | "themed";
 
-export type VariantName = "flat" | "outlined" | "elevated" | "ghost";
+/** Built-in meta intents (color comes from `tone` / `glow`). */
+export type MetaIntentName = "toned" | "glowed";
 
-export type Intensity = "soft" | "medium" | "strong";
+/**
+ * Custom intents registry (TypeScript module augmentation).
+ *
+ * @example
+ * declare module "intent-design-system" {
+ *     interface IntentRegistry {
+ *         pending: true;
+ *         archived: true;
+ *     }
+ * }
+ */
+export interface IntentRegistry {}
+
+export type CustomIntentName = Extract<keyof IntentRegistry, string>;
+
+export type IntentName = SemanticIntentName | MetaIntentName | CustomIntentName;
+
+export type VariantName = "flat" | "outlined" | "elevated" | "ghost" | "solid" | "glass";
+
+/** Named intensity steps (aliases of 0 / 0.5 / 1). */
+export type IntensityStep = "soft" | "medium" | "strong";
+
+/** Named step, or a continuous level 0..1 (data-driven UIs: heat, severity…). */
+export type Intensity = IntensityStep | number;
 
 /* ============================================================================
    🌓 Mode (light/dark)
@@ -28,6 +46,33 @@ export type Intensity = "soft" | "medium" | "strong";
 
 export type ModeName = "light" | "dark";
 
+/**
+ * Input-side mode (resolved to a ModeName):
+ * - "system" follows `prefers-color-scheme` (and forced-colors / `prefers-contrast: more`)
+ * - "high-contrast" forces the high-contrast path (opaque, system colors, no glow)
+ */
+export type ModePreference = ModeName | "system" | "high-contrast";
+
+/* ============================================================================
+   📏 Size / density
+   - One xs–xl scale for every sized component (heights, paddings, typography)
+   - density shifts the default step for a subtree (IntentProvider)
+============================================================================ */
+
+export type ControlSize = "xs" | "sm" | "md" | "lg" | "xl";
+
+export type Density = "compact" | "comfortable" | "spacious";
+
+/* ============================================================================
+   ↔️ Direction
+   - Inline direction of a subtree (IntentProvider dir, or the native dir prop)
+   - start / end are logical (mirror in rtl), left / right stay physical
+============================================================================ */
+
+export type Direction = "ltr" | "rtl";
+
+export type InlineSide = "start" | "end";
+
 /* ============================================================================
    🎚 Tone system (only for intent="toned")
 ============================================================================ */
@@ -58,6 +103,12 @@ export type ToneName =
     | "theme"
     | "black";
 
+/**
+ * `tone` input: a palette tone, or any CSS color (hex, rgb(), hsl(), oklch(), "R G B")
+ * from which the resolver derives the 200/500/600/700/800 steps.
+ */
+export type ToneInput = ToneName | (string & {});
+
 /* ============================================================================
    ✨ Glow system
    - intent glows    : reinforce an intent
@@ -65,26 +116,138 @@ export type ToneName =
 ============================================================================ */
 
 export type IntentGlowName = "info" | "empower" | "warn" | "threat" | "theme";
-export type AestheticGlowName = "aurora" | "ember" | "cosmic" | "mythic" | "royal" | "mono";
+
+export type BuiltinAestheticGlowName = "aurora" | "ember" | "cosmic" | "mythic" | "royal" | "mono";
+
+/**
+ * Custom aesthetic glows registry (TypeScript module augmentation).
+ *
+ * @example
+ * declare module "intent-design-system" {
+ *     interface AestheticGlowRegistry {
+ *         nebula: true;
+ *     }
+ * }
+ */
+export interface AestheticGlowRegistry {}
+
+export type AestheticGlowName =
+    BuiltinAestheticGlowName | Extract<keyof AestheticGlowRegistry, string>;
 
 export type GlowKey = IntentGlowName | AestheticGlowName;
 export type GlowName = GlowKey;
 
+/**
+ * Glow layer animation (keyframes in 01-glow.css, durations / easings from the motion tokens).
+ * Only effective with a glow; stopped under `prefers-reduced-motion: reduce`.
+ */
+export type GlowMotion = "none" | "pulse" | "shimmer" | "breathe";
+
+/**
+ * Elevation level of the elevated variant (shadow + surface tint, per mode).
+ * 0 = flat on the page, 5 = highest; nested elevated IntentSurfaces step up automatically.
+ */
+export type Elevation = 0 | 1 | 2 | 3 | 4 | 5;
+
+/* ============================================================================
+   🧩 Custom intent definition (registerIntent / defineIntents)
+============================================================================ */
+
+export type IntentDefinition = {
+    /** Base color (bg + ring). "R G B", "#rrggbb" or rgb(...). */
+    color: string;
+
+    /** Palette family used for text tint (dark: 200, light: 800). */
+    textFamily: ToneName;
+
+    /** Implicit glow used when glow={true}. Omit for no implicit glow. */
+    glow?: GlowKey;
+
+    /** CSS token holding the base color as "R G B". Default: `--ids-<name>`. */
+    cssToken?: string;
+};
+
+/* ============================================================================
+   🌈 Custom glow definition (registerGlow / defineGlows)
+   - color accepts "R G B", "#rrggbb" or rgb(...); alpha is applied on top
+   - the tail of each layer fades to a near-transparent version of the color
+============================================================================ */
+
+export type GlowGradientLayer =
+    | {
+          type: "radial";
+          color: string;
+          alpha: number;
+          size?: string; // default: "190% 150%"
+          at?: string; // default: "15% 20%"
+          fadeAt?: string; // default: "74%"
+      }
+    | {
+          type: "linear";
+          color: string;
+          alpha: number;
+          angle?: string; // default: "135deg"
+          fadeAt?: string; // default: "100%"
+      }
+    | {
+          type: "conic";
+          color: string;
+          alpha: number;
+          from?: string; // default: "0deg"
+          at?: string; // default: "50% 50%"
+          fadeAt?: string; // default: "100%"
+      };
+
+export type GlowDefinition = {
+    /** Gradient layers, painted top → bottom (first layer on top). */
+    layers: GlowGradientLayer[];
+
+    /** Palette family used to tint text/ring when intent="glowed". */
+    textTone: ToneName;
+
+    /** Human label (pickers). Default: capitalized name. */
+    label?: string;
+};
+
 /* ============================================================================
    🧩 Public input API
 ============================================================================ */
 
+/**
+ * How resolved variables reach the DOM.
+ * - "inline": `--intent-*` vars in the `style` attribute (hybrid C, default)
+ * - "static": data attributes only, vars come from the generated stylesheet
+ */
+export type IntentCssOutput = "inline" | "static";
+
 export type IntentInput = {
-    mode?: ModeName; // default (resolved): "dark"
+    mode?: ModePreference; // default (resolved): "dark"
 
     intent?: IntentName; // default: "informed"
     variant?: VariantName; // default: "elevated"
 
-    tone?: ToneName; // only if intent="toned"
+    tone?: ToneInput; // only if intent="toned"
     glow?: boolean | GlowName; // true => implicit intent glow
+    glowMotion?: GlowMotion; // default: "none" (only with a glow)
+    elevation?: Elevation; // default: 1 (only with variant="elevated")
 
     intensity?: Intensity; // default: "medium"
     disabled?: boolean;
+
+    themeColor?: string; // runtime brand color for intent="themed" / glow="theme" (default: DEFAULT_THEME_COLOR)
+
+    cssOutput?: IntentCssOutput; // default: "inline"
+};
+
+/**
+ * One-token intent: `<intent>[:<tone|glow>][/<variant>][/<intensity>][/<mode>] [+glow] [+<motion>] [+disabled]`
+ * e.g. "warned/outlined/strong +glow", "toned:emerald/flat", "glowed:aurora/ghost".
+ */
+export type IntentShorthand = `${IntentName}${":" | "/" | " +" | "+"}${string}`;
+
+/** Component-side input: `intent` also accepts the shorthand (explicit props win over it). */
+export type IntentComponentInput = Omit<IntentInput, "intent"> & {
+    intent?: IntentName | IntentShorthand;
 };
 
 /* ============================================================================
@@ -97,13 +260,22 @@ export type ResolvedIntent = {
     intent: IntentName;
     variant: VariantName;
     intensity: Intensity;
+    intensityLevel: number; // normalized 0..1 (soft=0, medium=0.5, strong=1)
 
-    toneEffective: string | null; // e.g. "emerald" | "informed" | null
+    toneEffective: string | null; // e.g. "emerald" | "informed" | "#1e90ff" (custom tone color) | null
 
     glowKey: GlowKey | null; // resolved glow key
     glowBackground: string | null; // CSS background-image (radial gradients)
+    glowMotion: GlowMotion; // "none" without a glow
 
-    style?: Record<string, string>;
+    elevation: Elevation; // 0 outside variant="elevated"
+
+    highContrast: boolean; // mode="high-contrast", or "system" under forced-colors / prefers-contrast: more
+
+    cssOutput: IntentCssOutput;
+    attributes: IntentDataAttributes; // selectors of the static stylesheet
+
+    style?: Record<string, string>; // omitted when cssOutput="static" (kept for custom tone colors)
 
     classes: {
         base: string;
@@ -113,6 +285,8 @@ export type ResolvedIntent = {
         ring: string;
         shadow: string;
         glow: string; // hook class (ids-glow …)
+        motion: string; // "has-intent-motion" when the glow is animated
+        contrast: string; // "intent-high-contrast" when highContrast
         disabled: string;
     };
 };
@@ -121,11 +295,27 @@ export type ResolvedIntent = {
    🧷 Helper output types (ergonomics)
 ============================================================================ */
 
+/**
+ * Data attributes matched by the static stylesheet (generateIntentStylesheet).
+ * `data-intensity` is always a named step (numeric levels snap to the nearest one).
+ */
+export type IntentDataAttributes = {
+    "data-intent": IntentName;
+    "data-variant": VariantName;
+    "data-intensity": IntensityStep;
+    "data-mode": ModeName;
+    "data-tone"?: ToneName; // intent="toned" only
+    "data-glow"?: GlowKey; // resolved glow key, when any
+    "data-glow-motion"?: Exclude<GlowMotion, "none">; // animated glow
+    "data-elevation"?: `${Elevation}`; // variant="elevated" only
+    "data-contrast"?: "more"; // high-contrast path
+};
+
 /**
  * Props produced by the resolver helpers (getIntentSurfaceProps).
  * This is NOT the public component props.
  */
-export type IntentSurfaceResolvedProps = {
+export type IntentSurfaceResolvedProps = Partial<IntentDataAttributes> & {
     className: string;
     style?: import("react").CSSProperties;
 };
@@ -135,20 +325,71 @@ export type IntentSurfaceResolvedProps = {
 ============================================================================ */
 
 export type IntentWarningCode =
+    | "intent_unknown"
+    | "tone_unknown"
+    | "glow_unknown"
     | "tone_ignored"
     | "glow_string_ignored"
     | "glow_intent_key_forbidden"
-    | "glow_disabled_for_toned";
+    | "glow_disabled_for_toned"
+    | "glow_motion_ignored"
+    | "elevation_ignored"
+    | "shorthand_invalid"
+    | "low_contrast_text"
+    | "intents_indistinguishable";
 
 export type IntentWarning = {
     code: IntentWarningCode;
     message: string;
+
+    /** Input field the rule is about (absent for resolved-output checks like contrast). */
+    field?: keyof IntentInput;
+
+    /** Only for low_contrast_text: measured ratio vs WCAG target. */
+    contrast?: {
+        ratio: number;
+        target: number;
+        level: "AA" | "AAA";
+        foreground: string; // #rrggbb
+        background: string; // #rrggbb
+    };
+
+    /** Only for intents_indistinguishable: the colliding pair and its ΔE OK distance. */
+    distinguishability?: {
+        intents: [IntentName, IntentName];
+        vision: "normal" | "protanopia" | "deuteranopia" | "tritanopia";
+        distance: number;
+        threshold: number;
+    };
 };
 
 export type ResolvedIntentWithWarnings = ResolvedIntent & {
     warnings: IntentWarning[];
 };
 
+/* ============================================================================
+   🛂 Runtime input parsing (untrusted JSON)
+============================================================================ */
+
+export type IntentInputErrorCode =
+    | "invalid_type" // not an object / field of the wrong JS type
+    | "invalid_value" // right type, not an accepted value
+    | "intent_unknown"
+    | "tone_unknown"
+    | "glow_unknown"
+    | "glow_intent_key_forbidden";
+
+export type IntentInputError = {
+    /** null when not tied to a field (value is not an object, malformed shorthand…). */
+    field: keyof IntentInput | null;
+    code: IntentInputErrorCode;
+    message: string;
+};
+
+export type IntentInputParseResult =
+    | { ok: true; value: IntentInput; errors: []; warnings: IntentWarning[] }
+    | { ok: false; value: null; errors: IntentInputError[]; warnings: IntentWarning[] };
+
 // src/lib/intent/types.ts
 // src/lib/intent/types.ts
 
@@ -219,6 +460,8 @@ export type ComponentIdentity = {
         spinner?: string;
 
         /** Controls-only: optional icon wrappers. */
+        startIcon?: string;
+        endIcon?: string;
         leftIcon?: string;
         rightIcon?: string;
 
@@ -233,6 +476,8 @@ export type ComponentIdentity = {
         list?: string;
         trigger?: string;
         triggerLabel?: string;
+        triggerIconStart?: string;
+        triggerIconEnd?: string;
         triggerIconLeft?: string;
         triggerIconRight?: string;
 
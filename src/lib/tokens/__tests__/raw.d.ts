@@ -0,0 +1,7 @@
+// src/lib/tokens/__tests__/raw.d.ts
+// Vite `?raw` imports (file contents as a string), used to compare generated files
+
+declare module "*?raw" {
+    const content: string;
+    export default content;
+}
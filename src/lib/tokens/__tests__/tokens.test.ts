@@ -0,0 +1,244 @@
+// src/lib/tokens/__tests__/tokens.test.ts
+// Vitest tests for the token model and its DTCG serialization
+// - Derived mapping values stay identical, JSON round-trips are lossless
+// - styles/tokens.css matches the generator output (`npm run tokens:css` refreshes it)
+
+import { describe, expect, it } from "vitest";
+
+import {
+    DESIGN_TOKENS,
+    flattenDesignTokens,
+    getDesignToken,
+    getDesignTokenChannels,
+    resolveDesignTokenValue,
+} from "../model";
+import { DTCG_EXTENSION, fromDtcgTokens, toDtcgTokens } from "../dtcg";
+import { generateTokensCss, getDesignTokenCssVars } from "../css";
+import { DEFAULT_THEME_COLOR, TONE_INK_RGB, TONE_TO_RGB } from "../../intent/mapping";
+
+import tokensCss from "../../../../styles/tokens.css?raw";
+import sizeCss from "../../../../styles/intent/05-size.css?raw";
+
+/* ============================================================================
+   MODEL
+============================================================================ */
+
+describe("tokens: model", () => {
+    it("mapping.ts values are derived from the model", () => {
+        expect(TONE_TO_RGB.blue).toBe("59 130 246");
+        expect(TONE_TO_RGB.rose).toBe("244 63 94");
+        expect(TONE_TO_RGB.theme).toBe("168 85 247");
+        expect(TONE_TO_RGB.black).toBe("0 0 0");
+        expect(TONE_INK_RGB).toBe("17 24 39");
+        expect(DEFAULT_THEME_COLOR).toBe("167 103 162");
+    });
+
+    it("looks tokens up by path and follows aliases", () => {
+        expect(getDesignToken("color.intent.informed")?.cssVar).toBe("--ids-informed");
+        expect(getDesignToken("color.palette.red.500")?.value).toBe("oklch(0.637 0.237 25.331)");
+        expect(getDesignToken("color.intent")).toBe(null);
+        expect(getDesignToken("color.nope.500")).toBe(null);
+
+        expect(resolveDesignTokenValue("color.glow.info")).toBe("#3b82f6");
+        expect(getDesignTokenChannels("color.tone.theme")).toBe("168 85 247");
+        expect(() => resolveDesignTokenValue("color.nope")).toThrow(/Unknown design token/);
+        expect(() =>
+            resolveDesignTokenValue("a", {
+                a: { type: "color", value: "{b}" },
+                b: { type: "color", value: "{a}" },
+            })
+        ).toThrow(/cycle/);
+    });
+
+    it("flattens in declaration order with unique css vars", () => {
+        const tokens = flattenDesignTokens();
+        expect(tokens[0]?.path).toBe("color.paper");
+
+        const vars = tokens.flatMap(({ token }) => (token.cssVar ? [token.cssVar] : []));
+        expect(new Set(vars).size).toBe(vars.length);
+        expect(vars.filter((v) => v.startsWith("--ids-color-red-"))).toHaveLength(11);
+    });
+});
+
+/* ============================================================================
+   DTCG
+============================================================================ */
+
+describe("tokens: DTCG", () => {
+    it("serializes $value / $type / $description / $extensions", () => {
+        const dtcg = toDtcgTokens();
+        const color = dtcg.color as Record<string, unknown>;
+
+        expect(color.paper).toEqual({
+            $type: "color",
+            $value: "#ffffff",
+            $description: "Paper (light surfaces)",
+            $extensions: { [DTCG_EXTENSION]: { cssVar: "--ids-paper", cssFormat: "channels" } },
+        });
+        expect((dtcg.radius as Record<string, unknown>).lg).toEqual({
+            $type: "dimension",
+            $value: "1rem",
+        });
+    });
+
+    it("writes durations as strings and easings as cubicBezier arrays", () => {
+        const motion = toDtcgTokens().motion as Record<string, Record<string, unknown>>;
+
+        expect(motion.duration?.pulse).toMatchObject({ $type: "duration", $value: "2400ms" });
+        expect(motion.easing?.standard).toMatchObject({
+            $type: "cubicBezier",
+            $value: [0.4, 0, 0.2, 1],
+        });
+        expect(
+            fromDtcgTokens({ ease: { $type: "cubicBezier", $value: [0.2, 0, 0, 1] } }).ease
+        ).toEqual({ type: "cubicBezier", value: "cubic-bezier(0.2, 0, 0, 1)" });
+    });
+
+    it("writes shadows as DTCG composites and reads them back", () => {
+        const tokens = toDtcgTokens() as Record<string, Record<string, Record<string, unknown>>>;
+
+        expect(tokens.shadow?.soft).toMatchObject({
+            $type: "shadow",
+            $value: {
+                color: "rgb(0 0 0 / 0.08)",
+                offsetX: "0px",
+                offsetY: "10px",
+                blur: "30px",
+                spread: "0px",
+            },
+        });
+        // layered shadows are arrays of layers
+        const elevation = tokens.elevation?.shadow as Record<string, Record<string, unknown>>;
+        expect(elevation.dark?.["2"]).toMatchObject({
+            $value: [
+                { offsetY: "2px", color: "rgb(0 0 0 / 0.2)" },
+                { offsetY: "14px", color: "rgb(0 0 0 / 0.28)" },
+            ],
+        });
+
+        // foreign composites: { value, unit } dimensions, inset, missing spread
+        expect(
+            fromDtcgTokens({
+                card: {
+                    $type: "shadow",
+                    $value: [
+                        {
+                            color: "#00000029",
+                            offsetX: { value: 0, unit: "px" },
+                            offsetY: "4px",
+                            blur: "12px",
+                            spread: "-2px",
+                        },
+                        { color: "#fff", offsetX: "0", offsetY: "1px", blur: "0", inset: true },
+                    ],
+                },
+            }).card
+        ).toEqual({
+            type: "shadow",
+            value: "0 4px 12px -2px #00000029, inset 0 1px 0 #fff",
+        });
+    });
+
+    it("round-trips through JSON", () => {
+        const json = JSON.stringify(toDtcgTokens());
+        expect(fromDtcgTokens(JSON.parse(json))).toEqual(DESIGN_TOKENS);
+    });
+
+    it("reads foreign files: inherited $type, group metadata, unknown extensions", () => {
+        const tokens = fromDtcgTokens({
+            brand: {
+                $type: "color",
+                $description: "Brand colors",
+                primary: { $value: "#d4a017", $extensions: { "com.figma": { id: "1:2" } } },
+                accent: { $value: "{brand.primary}" },
+            },
+            spacing: { sm: { $type: "dimension", $value: "0.5rem" } },
+        });
+
+        expect(tokens).toEqual({
+            brand: {
+                primary: { type: "color", value: "#d4a017" },
+                accent: { type: "color", value: "{brand.primary}" },
+            },
+            spacing: { sm: { type: "dimension", value: "0.5rem" } },
+        });
+        expect(resolveDesignTokenValue("brand.accent", tokens)).toBe("#d4a017");
+    });
+
+    it("throws on malformed input", () => {
+        expect(() => fromDtcgTokens([])).toThrow(/JSON object/);
+        expect(() => fromDtcgTokens({ a: { $value: "#fff" } })).toThrow(/missing \$type/);
+        expect(() => fromDtcgTokens({ a: { $type: "fontFamily", $value: "Inter" } })).toThrow(
+            /unsupported \$type/
+        );
+        expect(() =>
+            fromDtcgTokens({ a: { $type: "shadow", $value: { offsetX: "0px" } } })
+        ).toThrow(/malformed shadow/);
+        expect(() => fromDtcgTokens({ a: "#fff" })).toThrow(/token or a group/);
+    });
+});
+
+/* ============================================================================
+   TOKENS.CSS
+============================================================================ */
+
+describe("tokens: tokens.css", () => {
+    function readCssVars(css: string) {
+        return Object.fromEntries(
+            Array.from(css.matchAll(/(--ids-[\w-]+):\s*([^;]+);/g), ([, name = "", value = ""]) => [
+                name,
+                value.trim(),
+            ])
+        );
+    }
+
+    it("styles/tokens.css is the generator output", () => {
+        expect(tokensCss).toBe(generateTokensCss());
+    });
+
+    it("declares every model variable with the model value", () => {
+        expect(readCssVars(tokensCss)).toEqual(getDesignTokenCssVars());
+    });
+
+    it("agrees with mapping.ts", () => {
+        const vars = readCssVars(tokensCss);
+
+        expect(vars["--ids-color-theme"]).toBe(DEFAULT_THEME_COLOR);
+        expect(vars["--ids-ink"]).toBe(TONE_INK_RGB);
+        expect(vars["--ids-informed"]).toBe(TONE_TO_RGB.blue);
+        expect(vars["--ids-empowered"]).toBe(TONE_TO_RGB.emerald);
+        expect(vars["--ids-warned"]).toBe(TONE_TO_RGB.amber);
+        expect(vars["--ids-threatened"]).toBe(TONE_TO_RGB.rose);
+        expect(vars["--ids-themed"]).toBe(TONE_TO_RGB.theme);
+    });
+
+    it("glow colors follow --ids-color-<glow>, old names stay as aliases", () => {
+        const vars = readCssVars(tokensCss);
+
+        for (const glow of ["inform", "empower", "warn", "threat"]) {
+            expect(vars[`--ids-color-${glow}`]).toMatch(/^\d+ \d+ \d+$/);
+        }
+        expect(vars["--ids-empower-color"]).toBe("var(--ids-color-empower)");
+        expect(vars["--ids-warn-color"]).toBe("var(--ids-color-warn)");
+    });
+
+    it("05-size.css reads the size scale with matching fallbacks", () => {
+        const vars = readCssVars(tokensCss);
+        const refs = Array.from(
+            sizeCss.matchAll(/var\((--ids-size-[\w-]+), ([^)]+)\)/g),
+            ([, name = "", fallback = ""]) => [name, fallback]
+        );
+
+        expect(refs).toHaveLength(25);
+        for (const [name = "", fallback] of refs) expect(vars[name]).toBe(fallback);
+    });
+
+    it("emits tokens outside the known sections", () => {
+        const css = generateTokensCss({
+            spacing: { sm: { type: "dimension", value: "0.5rem", cssVar: "--ids-space-sm" } },
+        });
+
+        expect(css).toContain("1) Other tokens");
+        expect(css).toContain("--ids-space-sm: 0.5rem;");
+    });
+});
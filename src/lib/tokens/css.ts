@@ -0,0 +1,223 @@
+/* ============================================================================
+   src/lib/tokens/css.ts
+   Intent Design System – tokens.css generator
+   - styles/tokens.css is derived from the token model (DESIGN_TOKENS)
+   - Written by scripts/build-tokens-css.mjs after each build; a test fails
+     when the committed file and the model disagree
+============================================================================ */
+
+import {
+    type DesignToken,
+    type DesignTokenGroup,
+    DESIGN_TOKENS,
+    flattenDesignTokens,
+    getDesignTokenChannels,
+    resolveDesignTokenValue,
+} from "./model";
+
+/* ============================================================================
+   🧩 Sections
+============================================================================ */
+
+type TokensCssSection = {
+    title: string;
+    notes: string[];
+    /** Token path prefixes, one blank line between blocks. */
+    blocks: string[][];
+    /** Sub-header comment per direct child group (palette families). */
+    subgroups?: boolean;
+};
+
+const SECTIONS: TokensCssSection[] = [
+    {
+        title: "Core primitives (paper / ink)",
+        notes: ["Prefer RGB triplets for easy `rgb(var(--x) / a)` usage."],
+        blocks: [["color.paper", "color.ink"]],
+    },
+    {
+        title: "Semantic intent colors (RGB)",
+        notes: [
+            "Canonical 5 intents (the rest comes from tone tokens below).",
+            "Theme color + glow colors (--ids-color-<glow>).",
+        ],
+        blocks: [["color.intent"], ["color.theme", "color.glow"]],
+    },
+    {
+        title: "Layout tokens",
+        notes: [
+            "Divider tokens (layout / separators)",
+            "Intentionally subtle + low contrast.",
+            "They can be overridden per theme.",
+        ],
+        blocks: [
+            ["divider.color"],
+            ["divider.opacity"],
+            ["divider.thickness"],
+            ["divider.gap"],
+            ["divider.labelPaddingX"],
+        ],
+    },
+    {
+        title: "Size scale",
+        notes: [
+            "Height / padding-x / font-size / line-height / gap per step (xs–xl).",
+            "Read through --ids-control-* (ids-size-<step> hooks, 05-size.css).",
+        ],
+        blocks: [["size.xs"], ["size.sm"], ["size.md"], ["size.lg"], ["size.xl"]],
+    },
+    {
+        title: "Elevation scale",
+        notes: [
+            "Shadow + paper tint alpha per mode and level (elevated variant, 1–5).",
+            "Read through --intent-elev-shadow / --intent-elev-tint (resolver).",
+        ],
+        blocks: [
+            ["elevation.shadow.light", "elevation.tint.light"],
+            ["elevation.shadow.dark", "elevation.tint.dark"],
+        ],
+    },
+    {
+        title: "Glass",
+        notes: ["Backdrop blur / saturation of the glass variant (.intent-glass)."],
+        blocks: [["glass"]],
+    },
+    {
+        title: "Motion tokens",
+        notes: [
+            "Durations / easings (glowMotion, transitions).",
+            "Animations stop under prefers-reduced-motion (01-glow.css).",
+        ],
+        blocks: [["motion.duration"], ["motion.easing"]],
+    },
+    {
+        title: "Tone palette (OKLCH)",
+        notes: [
+            "Prefix rule: ids-color-* (so everything is namespaced)",
+            "These mirror Tailwind’s modern OKLCH palette style.",
+        ],
+        blocks: [["color.palette"]],
+        subgroups: true,
+    },
+    {
+        title: "Literals",
+        notes: ["Plain black / white (kept out of the OKLCH palette)."],
+        blocks: [["color.black", "color.white"]],
+    },
+];
+
+const HEADER = `/* styles/tokens.css */
+/* CSS tokens (variables) for Intent Design System (hybrid mode).
+   Generated from the token model (src/lib/tokens/model.ts): do not edit by hand,
+   run the build instead. Consumers can override these in their own CSS.
+*/`;
+
+const RULE = "=".repeat(73);
+const SUBHEADER_WIDTH = 65;
+
+/* ============================================================================
+   🧰 Helpers
+============================================================================ */
+
+function inSection(path: string, prefix: string) {
+    return path === prefix || path.startsWith(`${prefix}.`);
+}
+
+/** CSS value of a token: aliases followed, "R G B" for the channels format. */
+function cssValue(path: string, token: DesignToken, group: DesignTokenGroup) {
+    if (token.cssFormat === "channels") return getDesignTokenChannels(path, group);
+    return String(resolveDesignTokenValue(path, group));
+}
+
+function subheader(label: string) {
+    const dashes = SUBHEADER_WIDTH - label.length - 2;
+    const left = "-".repeat(Math.floor(dashes / 2));
+    const right = "-".repeat(Math.ceil(dashes / 2));
+    return `/* ${left} ${label} ${right} */`;
+}
+
+/* ============================================================================
+   🖨 Generator
+============================================================================ */
+
+/**
+ * `cssVar → value` for every token that has a custom property
+ * (deprecated names included, pointing at the current one).
+ *
+ * @example
+ * getDesignTokenCssVars()["--ids-informed"]; // "59 130 246"
+ */
+export function getDesignTokenCssVars(
+    group: DesignTokenGroup = DESIGN_TOKENS
+): Record<string, string> {
+    const out: Record<string, string> = {};
+
+    for (const { path, token } of flattenDesignTokens(group)) {
+        if (!token.cssVar) continue;
+
+        out[token.cssVar] = cssValue(path, token, group);
+        for (const legacy of token.deprecatedCssVars ?? []) out[legacy] = `var(${token.cssVar})`;
+    }
+
+    return out;
+}
+
+/**
+ * Full tokens.css (`:root` block) for a token group.
+ * Tokens without a cssVar are skipped; tokens outside the known sections are
+ * emitted in a trailing "Other tokens" section.
+ */
+export function generateTokensCss(group: DesignTokenGroup = DESIGN_TOKENS): string {
+    const tokens = flattenDesignTokens(group).filter(({ token }) => token.cssVar);
+    const emitted = new Set<string>();
+
+    const sections: TokensCssSection[] = [
+        ...SECTIONS,
+        { title: "Other tokens", notes: [], blocks: [[""]] },
+    ];
+
+    const out: string[] = [];
+
+    for (const section of sections) {
+        const lines: string[] = [];
+
+        for (const prefixes of section.blocks) {
+            if (lines.length > 0) lines.push("");
+            let subgroup = "";
+
+            for (const prefix of prefixes) {
+                for (const { path, token } of tokens) {
+                    if (emitted.has(path) || (prefix && !inSection(path, prefix))) continue;
+                    emitted.add(path);
+
+                    if (section.subgroups) {
+                        const name = path.slice(prefix.length + 1).split(".")[0] ?? "";
+                        if (name !== subgroup) {
+                            if (subgroup) lines.push("");
+                            lines.push(subheader(name));
+                            subgroup = name;
+                        }
+                    }
+
+                    const comment = token.description ? ` /* ${token.description} */` : "";
+                    lines.push(`${token.cssVar}: ${cssValue(path, token, group)};${comment}`);
+
+                    for (const legacy of token.deprecatedCssVars ?? []) {
+                        lines.push(`${legacy}: var(${token.cssVar}); /* deprecated */`);
+                    }
+                }
+            }
+
+            if (lines[lines.length - 1] === "") lines.pop();
+        }
+
+        if (lines.length === 0) continue;
+
+        const notes = section.notes.map((note) => `\n       - ${note}`).join("");
+        out.push(
+            `    /* ${RULE}\n       ${out.length + 1}) ${section.title}${notes}\n    ${RULE} */\n\n` +
+                lines.map((line) => (line ? `    ${line}` : "")).join("\n")
+        );
+    }
+
+    return `${HEADER}\n\n:root {\n${out.join("\n\n")}\n}\n`;
+}
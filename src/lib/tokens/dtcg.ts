@@ -0,0 +1,300 @@
+/* ============================================================================
+   src/lib/tokens/dtcg.ts
+   Intent Design System – W3C Design Tokens (DTCG) format
+   - toDtcgTokens(): token model → DTCG JSON ($value / $type / $description)
+   - fromDtcgTokens(): DTCG JSON (Tokens Studio, Figma exports…) → token model
+   - shadows are DTCG composites (one object per layer), CSS strings in the model
+   - cssVar / cssFormat / deprecatedCssVars travel in
+     $extensions["com.intent-design-system"]
+============================================================================ */
+
+import {
+    type DesignToken,
+    type DesignTokenGroup,
+    type DesignTokenType,
+    DESIGN_TOKENS,
+    isDesignToken,
+} from "./model";
+
+/* ============================================================================
+   🧩 Types
+============================================================================ */
+
+export const DTCG_EXTENSION = "com.intent-design-system";
+
+/** One shadow layer (DTCG composite). Dimensions are CSS lengths ("10px"). */
+export type DtcgShadow = {
+    color: string;
+    offsetX: string;
+    offsetY: string;
+    blur: string;
+    spread: string;
+    inset?: boolean;
+};
+
+export type DtcgToken = {
+    /**
+     * cubicBezier tokens use the DTCG [x1, y1, x2, y2] form,
+     * shadow tokens a composite (an array for layered shadows).
+     */
+    $value: string | number | number[] | DtcgShadow | DtcgShadow[];
+    $type?: DesignTokenType;
+    $description?: string;
+    $extensions?: Record<string, unknown>;
+};
+
+export type DtcgGroup = {
+    [name: string]: DtcgToken | DtcgGroup | string | undefined;
+};
+
+const TOKEN_TYPES: DesignTokenType[] = [
+    "color",
+    "dimension",
+    "number",
+    "shadow",
+    "duration",
+    "cubicBezier",
+];
+
+const CUBIC_BEZIER_RE = /^cubic-bezier\(([^)]*)\)$/;
+const LENGTH_RE = /^-?(?:\d+\.?\d*|\.\d+)[a-z%]*$/i;
+
+/* ============================================================================
+   🌫 Shadows (CSS ⇄ DTCG composite)
+============================================================================ */
+
+// Splits on a separator outside parentheses: "0 2px rgb(0 0 0 / 0.1), 0 4px red" → 2 layers
+function splitTopLevel(value: string, separator: RegExp): string[] {
+    const parts = [""];
+    let depth = 0;
+
+    for (const char of value) {
+        if (char === "(") depth += 1;
+        else if (char === ")") depth = Math.max(0, depth - 1);
+
+        if (depth === 0 && separator.test(char)) parts.push("");
+        else parts[parts.length - 1] += char;
+    }
+
+    return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/** "0 10px 30px rgb(0 0 0 / 0.08)" → one composite per layer (null if not a plain shadow). */
+function cssToDtcgShadow(value: string): DtcgShadow[] | null {
+    const layers: DtcgShadow[] = [];
+
+    for (const layer of splitTopLevel(value, /,/)) {
+        const parts = splitTopLevel(layer, /\s/);
+        const inset = parts.includes("inset");
+        const lengths = parts.filter((part) => LENGTH_RE.test(part));
+        const colors = parts.filter((part) => part !== "inset" && !LENGTH_RE.test(part));
+
+        if (lengths.length < 2 || lengths.length > 4 || colors.length !== 1) return null;
+
+        const [offsetX = "0px", offsetY = "0px", blur = "0px", spread = "0px"] = lengths.map(
+            (length) => (Number.parseFloat(length) === 0 ? "0px" : length)
+        );
+
+        layers.push({
+            color: colors[0] ?? "",
+            offsetX,
+            offsetY,
+            blur,
+            spread,
+            ...(inset ? { inset } : {}),
+        });
+    }
+
+    return layers.length > 0 ? layers : null;
+}
+
+// DTCG dimensions are "10px" or { value: 10, unit: "px" }; zero lengths are written "0"
+function readLength(value: unknown): string | null {
+    const length =
+        typeof value === "string"
+            ? value.trim()
+            : isObject(value) && typeof value.value === "number" && typeof value.unit === "string"
+              ? `${value.value}${value.unit}`
+              : null;
+
+    if (length === null || !LENGTH_RE.test(length)) return null;
+    return Number.parseFloat(length) === 0 ? "0" : length;
+}
+
+/** Composite layer(s) → CSS box-shadow (spread omitted when 0), null if malformed. */
+function dtcgShadowToCss(value: unknown): string | null {
+    const layers = Array.isArray(value) ? value : [value];
+    const out: string[] = [];
+
+    for (const layer of layers) {
+        if (!isObject(layer) || typeof layer.color !== "string") return null;
+
+        const lengths = [layer.offsetX, layer.offsetY, layer.blur ?? "0", layer.spread ?? "0"].map(
+            readLength
+        );
+        if (lengths.some((length) => length === null)) return null;
+        if (lengths[3] === "0") lengths.pop();
+
+        out.push([layer.inset === true ? "inset" : "", ...lengths, layer.color].join(" ").trim());
+    }
+
+    return out.length > 0 ? out.join(", ") : null;
+}
+
+/* ============================================================================
+   📤 Export
+============================================================================ */
+
+/**
+ * "cubic-bezier(a, b, c, d)" → [a, b, c, d], box-shadow → composite layer(s)
+ * (aliases and other values are kept).
+ */
+function toDtcgValue(token: DesignToken): DtcgToken["$value"] {
+    if (typeof token.value !== "string") return token.value;
+
+    if (token.type === "shadow") {
+        const layers = cssToDtcgShadow(token.value);
+        if (!layers) return token.value;
+        return layers.length === 1 && layers[0] ? layers[0] : layers;
+    }
+
+    if (token.type !== "cubicBezier") return token.value;
+
+    const args = token.value.match(CUBIC_BEZIER_RE)?.[1]?.split(",").map(Number);
+    return args?.length === 4 && args.every(Number.isFinite) ? args : token.value;
+}
+
+function tokenToDtcg(token: DesignToken): DtcgToken {
+    const out: DtcgToken = { $type: token.type, $value: toDtcgValue(token) };
+    if (token.description !== undefined) out.$description = token.description;
+
+    if (token.cssVar !== undefined || token.cssFormat !== undefined) {
+        out.$extensions = {
+            [DTCG_EXTENSION]: {
+                ...(token.cssVar !== undefined ? { cssVar: token.cssVar } : {}),
+                ...(token.cssFormat !== undefined ? { cssFormat: token.cssFormat } : {}),
+                ...(token.deprecatedCssVars !== undefined
+                    ? { deprecatedCssVars: token.deprecatedCssVars }
+                    : {}),
+            },
+        };
+    }
+
+    return out;
+}
+
+/**
+ * Token model → DTCG JSON object (aliases are kept as "{path}" references).
+ *
+ * @example
+ * writeFileSync("tokens.json", JSON.stringify(toDtcgTokens(), null, 2));
+ */
+export function toDtcgTokens(group: DesignTokenGroup = DESIGN_TOKENS): DtcgGroup {
+    const out: DtcgGroup = {};
+
+    for (const [name, node] of Object.entries(group)) {
+        out[name] = isDesignToken(node) ? tokenToDtcg(node) : toDtcgTokens(node);
+    }
+
+    return out;
+}
+
+/* ============================================================================
+   📥 Import
+============================================================================ */
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function fail(path: string, message: string): never {
+    throw new Error(`[intent-design-system] Invalid DTCG token "${path}": ${message}`);
+}
+
+function readToken(
+    node: Record<string, unknown>,
+    path: string,
+    inheritedType: DesignTokenType | undefined
+): DesignToken {
+    const type = node.$type ?? inheritedType;
+    if (type === undefined) fail(path, "missing $type (on the token or a parent group).");
+    if (!(TOKEN_TYPES as unknown[]).includes(type)) {
+        fail(path, `unsupported $type ${JSON.stringify(type)}.`);
+    }
+
+    let value = node.$value;
+
+    if (
+        type === "cubicBezier" &&
+        Array.isArray(value) &&
+        value.length === 4 &&
+        value.every((n) => typeof n === "number" && Number.isFinite(n))
+    ) {
+        value = `cubic-bezier(${value.join(", ")})`;
+    }
+
+    if (type === "shadow" && typeof value === "object" && value !== null) {
+        value = dtcgShadowToCss(value) ?? fail(path, "malformed shadow composite.");
+    }
+
+    if (typeof value !== "string" && typeof value !== "number") {
+        fail(path, "$value must be a string or a number.");
+    }
+
+    const token: DesignToken = { type: type as DesignTokenType, value };
+    if (typeof node.$description === "string") token.description = node.$description;
+
+    const ext = isObject(node.$extensions) ? node.$extensions[DTCG_EXTENSION] : undefined;
+    if (isObject(ext)) {
+        if (typeof ext.cssVar === "string") token.cssVar = ext.cssVar;
+        if (ext.cssFormat === "channels") token.cssFormat = "channels";
+        if (
+            Array.isArray(ext.deprecatedCssVars) &&
+            ext.deprecatedCssVars.every((v) => typeof v === "string")
+        ) {
+            token.deprecatedCssVars = ext.deprecatedCssVars as string[];
+        }
+    }
+
+    return token;
+}
+
+function readGroup(
+    node: Record<string, unknown>,
+    path: string,
+    inheritedType: DesignTokenType | undefined
+): DesignTokenGroup {
+    const groupType = (node.$type as DesignTokenType | undefined) ?? inheritedType;
+    const out: DesignTokenGroup = {};
+
+    for (const [name, child] of Object.entries(node)) {
+        // $type / $description / $extensions on groups
+        if (name.startsWith("$")) continue;
+
+        const childPath = path ? `${path}.${name}` : name;
+        if (!isObject(child)) fail(childPath, "expected a token or a group.");
+
+        out[name] =
+            "$value" in child
+                ? readToken(child, childPath, groupType)
+                : readGroup(child, childPath, groupType);
+    }
+
+    return out;
+}
+
+/**
+ * DTCG JSON → token model. `$type` is inherited from parent groups, aliases are kept,
+ * shadow composites become CSS box-shadow strings.
+ * Throws on malformed input (missing / unsupported $type, malformed composite $value…).
+ *
+ * @example
+ * const tokens = fromDtcgTokens(JSON.parse(readFileSync("tokens.json", "utf8")));
+ */
+export function fromDtcgTokens(json: unknown): DesignTokenGroup {
+    if (!isObject(json)) {
+        throw new Error("[intent-design-system] DTCG tokens must be a JSON object.");
+    }
+
+    return readGroup(json, "", undefined);
+}
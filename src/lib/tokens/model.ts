@@ -0,0 +1,719 @@
+/* ============================================================================
+   src/lib/tokens/model.ts
+   Intent Design System – Token model
+   - Single typed source for the values shipped in tokens.css (generated, see
+     css.ts), mapping.ts (TONE_TO_RGB, TONE_INK_RGB, DEFAULT_THEME_COLOR) and
+     the Tailwind preset
+   - Serializable to / from W3C DTCG JSON (see dtcg.ts)
+============================================================================ */
+
+import type { ControlSize, ModeName, ToneName } from "../intent/types";
+
+import { PALETTE_STEPS } from "../colors/toneRamp";
+import { cssColorToRgba } from "../colors/colorHelpers";
+
+/* ============================================================================
+   🧩 Types
+============================================================================ */
+
+export type DesignTokenType =
+    "color" | "dimension" | "number" | "shadow" | "duration" | "cubicBezier";
+
+export type DesignToken = {
+    type: DesignTokenType;
+    /**
+     * CSS value ("#3b82f6", "oklch(…)", "1rem", "300ms", "cubic-bezier(…)", 0.55)
+     * or an alias ("{color.intent.informed}").
+     */
+    value: string | number;
+    description?: string;
+    /** Custom property emitted in tokens.css (absent = TypeScript / Tailwind only). */
+    cssVar?: string;
+    /** "channels": color emitted as "R G B" for `rgb(var(--x) / a)` usage. */
+    cssFormat?: "channels";
+    /** Former custom property names, still emitted as `var(<cssVar>)`. */
+    deprecatedCssVars?: string[];
+};
+
+export type DesignTokenGroup = {
+    [name: string]: DesignToken | DesignTokenGroup;
+};
+
+export type PaletteFamily = Exclude<ToneName, "theme" | "black">;
+
+/* ============================================================================
+   🎨 Palette (OKLCH, Tailwind-style 50..950)
+============================================================================ */
+
+// "l c h" per step, in PALETTE_STEPS order
+const PALETTE_OKLCH: Record<PaletteFamily, string[]> = {
+    red: [
+        "0.971 0.013 17.38",
+        "0.936 0.032 17.717",
+        "0.885 0.062 18.334",
+        "0.808 0.114 19.571",
+        "0.704 0.191 22.216",
+        "0.637 0.237 25.331",
+        "0.577 0.245 27.325",
+        "0.505 0.213 27.518",
+        "0.444 0.177 26.899",
+        "0.396 0.141 25.723",
+        "0.258 0.092 26.042",
+    ],
+    orange: [
+        "0.98 0.016 73.684",
+        "0.954 0.038 75.164",
+        "0.901 0.076 70.697",
+        "0.837 0.128 66.29",
+        "0.75 0.183 55.934",
+        "0.705 0.213 47.604",
+        "0.646 0.222 41.116",
+        "0.553 0.195 38.402",
+        "0.47 0.157 37.304",
+        "0.408 0.123 38.172",
+        "0.266 0.079 36.259",
+    ],
+    amber: [
+        "0.987 0.022 95.277",
+        "0.962 0.059 95.617",
+        "0.924 0.12 95.746",
+        "0.879 0.169 91.605",
+        "0.828 0.189 84.429",
+        "0.769 0.188 70.08",
+        "0.666 0.179 58.318",
+        "0.555 0.163 48.998",
+        "0.473 0.137 46.201",
+        "0.414 0.112 45.904",
+        "0.279 0.077 45.635",
+    ],
+    yellow: [
+        "0.987 0.026 102.212",
+        "0.973 0.071 103.193",
+        "0.945 0.129 101.54",
+        "0.905 0.182 98.111",
+        "0.852 0.199 91.936",
+        "0.795 0.184 86.047",
+        "0.681 0.162 75.834",
+        "0.554 0.135 66.442",
+        "0.476 0.114 61.907",
+        "0.421 0.095 57.708",
+        "0.286 0.066 53.813",
+    ],
+    lime: [
+        "0.986 0.031 120.757",
+        "0.967 0.067 122.328",
+        "0.938 0.127 124.321",
+        "0.897 0.196 126.665",
+        "0.841 0.238 128.85",
+        "0.768 0.233 130.85",
+        "0.648 0.2 131.684",
+        "0.532 0.157 131.589",
+        "0.453 0.124 130.933",
+        "0.405 0.101 131.063",
+        "0.274 0.072 132.109",
+    ],
+    green: [
+        "0.982 0.018 155.826",
+        "0.962 0.044 156.743",
+        "0.925 0.084 155.995",
+        "0.871 0.15 154.449",
+        "0.792 0.209 151.711",
+        "0.723 0.219 149.579",
+        "0.627 0.194 149.214",
+        "0.527 0.154 150.069",
+        "0.448 0.119 151.328",
+        "0.393 0.095 152.535",
+        "0.266 0.065 152.934",
+    ],
+    emerald: [
+        "0.979 0.021 166.113",
+        "0.95 0.052 163.051",
+        "0.905 0.093 164.15",
+        "0.845 0.143 164.978",
+        "0.765 0.177 163.223",
+        "0.696 0.17 162.48",
+        "0.596 0.145 163.225",
+        "0.508 0.118 165.612",
+        "0.432 0.095 166.913",
+        "0.378 0.077 168.94",
+        "0.262 0.051 172.552",
+    ],
+    teal: [
+        "0.984 0.014 180.72",
+        "0.953 0.051 180.801",
+        "0.91 0.096 180.426",
+        "0.855 0.138 181.071",
+        "0.777 0.152 181.912",
+        "0.704 0.14 182.503",
+        "0.6 0.118 184.704",
+        "0.511 0.096 186.391",
+        "0.437 0.078 188.216",
+        "0.386 0.063 188.416",
+        "0.277 0.046 192.524",
+    ],
+    cyan: [
+        "0.984 0.019 200.873",
+        "0.956 0.045 203.388",
+        "0.917 0.08 205.041",
+        "0.865 0.127 207.078",
+        "0.789 0.154 211.53",
+        "0.715 0.143 215.221",
+        "0.609 0.126 221.723",
+        "0.52 0.105 223.128",
+        "0.45 0.085 224.283",
+        "0.398 0.07 227.392",
+        "0.302 0.056 229.695",
+    ],
+    sky: [
+        "0.977 0.013 236.62",
+        "0.951 0.026 236.824",
+        "0.901 0.058 230.902",
+        "0.828 0.111 230.318",
+        "0.746 0.16 232.661",
+        "0.685 0.169 237.323",
+        "0.588 0.158 241.966",
+        "0.5 0.134 242.749",
+        "0.443 0.11 240.79",
+        "0.391 0.09 240.876",
+        "0.293 0.066 243.157",
+    ],
+    blue: [
+        "0.97 0.014 254.604",
+        "0.932 0.032 255.585",
+        "0.882 0.059 254.128",
+        "0.809 0.105 251.813",
+        "0.707 0.165 254.624",
+        "0.623 0.214 259.815",
+        "0.546 0.245 262.881",
+        "0.488 0.243 264.376",
+        "0.424 0.199 265.638",
+        "0.379 0.146 265.522",
+        "0.282 0.091 267.935",
+    ],
+    indigo: [
+        "0.962 0.018 272.314",
+        "0.93 0.034 272.788",
+        "0.87 0.065 274.039",
+        "0.785 0.115 274.713",
+        "0.673 0.182 276.935",
+        "0.585 0.233 277.117",
+        "0.511 0.262 276.966",
+        "0.457 0.24 277.023",
+        "0.398 0.195 277.366",
+        "0.359 0.144 278.697",
+        "0.257 0.09 281.288",
+    ],
+    violet: [
+        "0.969 0.016 293.756",
+        "0.943 0.029 294.588",
+        "0.894 0.057 293.283",
+        "0.811 0.111 293.571",
+        "0.702 0.183 293.541",
+        "0.606 0.25 292.717",
+        "0.541 0.281 293.009",
+        "0.491 0.27 292.581",
+        "0.432 0.232 292.759",
+        "0.38 0.189 293.745",
+        "0.283 0.141 291.089",
+    ],
+    purple: [
+        "0.977 0.014 308.299",
+        "0.946 0.033 307.174",
+        "0.902 0.063 306.703",
+        "0.827 0.119 306.383",
+        "0.714 0.203 305.504",
+        "0.627 0.265 303.9",
+        "0.558 0.288 302.321",
+        "0.496 0.265 301.924",
+        "0.438 0.218 303.724",
+        "0.381 0.176 304.987",
+        "0.291 0.149 302.717",
+    ],
+    fuchsia: [
+        "0.977 0.017 320.058",
+        "0.952 0.037 318.852",
+        "0.903 0.076 319.62",
+        "0.833 0.145 321.434",
+        "0.74 0.238 322.16",
+        "0.667 0.295 322.15",
+        "0.591 0.293 322.896",
+        "0.518 0.253 323.949",
+        "0.452 0.211 324.591",
+        "0.401 0.17 325.612",
+        "0.293 0.136 325.661",
+    ],
+    pink: [
+        "0.971 0.014 343.198",
+        "0.948 0.028 342.258",
+        "0.899 0.061 343.231",
+        "0.823 0.12 346.018",
+        "0.718 0.202 349.761",
+        "0.656 0.241 354.308",
+        "0.592 0.249 0.584",
+        "0.525 0.223 3.958",
+        "0.459 0.187 3.815",
+        "0.408 0.153 2.432",
+        "0.284 0.109 3.907",
+    ],
+    rose: [
+        "0.969 0.015 12.422",
+        "0.941 0.03 12.58",
+        "0.892 0.058 10.001",
+        "0.81 0.117 11.638",
+        "0.712 0.194 13.428",
+        "0.645 0.246 16.439",
+        "0.586 0.253 17.585",
+        "0.514 0.222 16.935",
+        "0.455 0.188 13.697",
+        "0.41 0.159 10.272",
+        "0.271 0.105 12.094",
+    ],
+    slate: [
+        "0.984 0.003 247.858",
+        "0.968 0.007 247.896",
+        "0.929 0.013 255.508",
+        "0.869 0.022 252.894",
+        "0.704 0.04 256.788",
+        "0.554 0.046 257.417",
+        "0.446 0.043 257.281",
+        "0.372 0.044 257.287",
+        "0.279 0.041 260.031",
+        "0.208 0.042 265.755",
+        "0.129 0.042 264.695",
+    ],
+    gray: [
+        "0.985 0.002 247.839",
+        "0.967 0.003 264.542",
+        "0.928 0.006 264.531",
+        "0.872 0.01 258.338",
+        "0.707 0.022 261.325",
+        "0.551 0.027 264.364",
+        "0.446 0.03 256.802",
+        "0.373 0.034 259.733",
+        "0.278 0.033 256.848",
+        "0.21 0.034 264.665",
+        "0.13 0.028 261.692",
+    ],
+    zinc: [
+        "0.985 0 0",
+        "0.967 0.001 286.375",
+        "0.92 0.004 286.32",
+        "0.871 0.006 286.286",
+        "0.705 0.015 286.067",
+        "0.552 0.016 285.938",
+        "0.442 0.017 285.786",
+        "0.37 0.013 285.805",
+        "0.274 0.006 286.033",
+        "0.21 0.006 285.885",
+        "0.141 0.005 285.823",
+    ],
+    neutral: [
+        "0.985 0 0",
+        "0.97 0 0",
+        "0.922 0 0",
+        "0.87 0 0",
+        "0.708 0 0",
+        "0.556 0 0",
+        "0.439 0 0",
+        "0.371 0 0",
+        "0.269 0 0",
+        "0.205 0 0",
+        "0.145 0 0",
+    ],
+    stone: [
+        "0.985 0.001 106.423",
+        "0.97 0.001 106.424",
+        "0.923 0.003 48.717",
+        "0.869 0.005 56.366",
+        "0.709 0.01 56.259",
+        "0.553 0.013 58.071",
+        "0.444 0.011 73.639",
+        "0.374 0.01 67.558",
+        "0.268 0.007 34.298",
+        "0.216 0.006 56.043",
+        "0.147 0.004 49.25",
+    ],
+};
+
+/* ============================================================================
+   🔵 Tone base colors (sRGB 500, used for intent="toned" inline vars)
+============================================================================ */
+
+const TONE_HEX: Record<ToneName, string> = {
+    slate: "#64748b",
+    gray: "#6b7280",
+    zinc: "#71717a",
+    neutral: "#737373",
+    stone: "#78716c",
+    red: "#ef4444",
+    orange: "#f97316",
+    amber: "#f59e0b",
+    yellow: "#eab308",
+    lime: "#84cc16",
+    green: "#22c55e",
+    emerald: "#10b981",
+    teal: "#14b8a6",
+    cyan: "#06b6d4",
+    sky: "#0ea5e9",
+    blue: "#3b82f6",
+    indigo: "#6366f1",
+    violet: "#8b5cf6",
+    purple: "#a855f7",
+    fuchsia: "#d946ef",
+    pink: "#ec4899",
+    rose: "#f43f5e",
+    theme: "{color.intent.themed}",
+    black: "#000000",
+};
+
+/* ============================================================================
+   📏 Size scale (xs–xl, shared by every sized component)
+============================================================================ */
+
+type SizeStep = { h: string; px: string; fs: string; lh: string; gap: string };
+
+// md matches the historical input / segmented / tags height (36px)
+const SIZE_SCALE: Record<ControlSize, SizeStep> = {
+    xs: { h: "28px", px: "0.625rem", fs: "0.75rem", lh: "1rem", gap: "0.375rem" },
+    sm: { h: "32px", px: "0.75rem", fs: "0.8125rem", lh: "1.125rem", gap: "0.4375rem" },
+    md: { h: "36px", px: "0.875rem", fs: "0.875rem", lh: "1.25rem", gap: "0.5rem" },
+    lg: { h: "40px", px: "1rem", fs: "0.9375rem", lh: "1.375rem", gap: "0.5625rem" },
+    xl: { h: "44px", px: "1.125rem", fs: "1rem", lh: "1.5rem", gap: "0.625rem" },
+};
+
+/* ============================================================================
+   🪜 Elevation scale (levels 1–5 of the elevated variant, per mode)
+============================================================================ */
+
+type ElevationStep = { shadow: string; tint: number };
+
+// level 1 is the historical soft shadow; dark surfaces need darker shadows and
+// a paper tint to read as "closer" (tint = paper alpha painted over the fill)
+const ELEVATION_SCALE: Record<ModeName, ElevationStep[]> = {
+    light: [
+        { shadow: "0 10px 30px rgb(0 0 0 / 0.08)", tint: 0 },
+        { shadow: "0 2px 6px rgb(0 0 0 / 0.06), 0 14px 36px rgb(0 0 0 / 0.12)", tint: 0.02 },
+        { shadow: "0 4px 10px rgb(0 0 0 / 0.08), 0 20px 44px rgb(0 0 0 / 0.16)", tint: 0.04 },
+        { shadow: "0 6px 14px rgb(0 0 0 / 0.1), 0 28px 56px rgb(0 0 0 / 0.2)", tint: 0.06 },
+        { shadow: "0 8px 20px rgb(0 0 0 / 0.12), 0 36px 72px rgb(0 0 0 / 0.24)", tint: 0.08 },
+    ],
+    dark: [
+        { shadow: "0 10px 30px rgb(0 0 0 / 0.08)", tint: 0 },
+        { shadow: "0 2px 6px rgb(0 0 0 / 0.2), 0 14px 36px rgb(0 0 0 / 0.28)", tint: 0.03 },
+        { shadow: "0 4px 10px rgb(0 0 0 / 0.24), 0 20px 44px rgb(0 0 0 / 0.34)", tint: 0.05 },
+        { shadow: "0 6px 14px rgb(0 0 0 / 0.28), 0 28px 56px rgb(0 0 0 / 0.4)", tint: 0.07 },
+        { shadow: "0 8px 20px rgb(0 0 0 / 0.32), 0 36px 72px rgb(0 0 0 / 0.46)", tint: 0.09 },
+    ],
+};
+
+/* ============================================================================
+   🏗 Builders
+============================================================================ */
+
+function color(value: string, extra?: Omit<DesignToken, "type" | "value">): DesignToken {
+    return { type: "color", value, ...extra };
+}
+
+function channels(
+    value: string,
+    cssVar: string,
+    extra?: Pick<DesignToken, "description" | "deprecatedCssVars">
+): DesignToken {
+    return color(value, { cssVar, cssFormat: "channels", ...extra });
+}
+
+function duration(value: string, cssVar: string, description?: string): DesignToken {
+    return {
+        type: "duration",
+        value,
+        cssVar,
+        ...(description !== undefined ? { description } : {}),
+    };
+}
+
+function easing(value: string, cssVar: string): DesignToken {
+    return { type: "cubicBezier", value, cssVar };
+}
+
+function buildPalette(): DesignTokenGroup {
+    const out: DesignTokenGroup = {};
+
+    for (const [family, steps] of Object.entries(PALETTE_OKLCH)) {
+        const group: DesignTokenGroup = {};
+
+        PALETTE_STEPS.forEach((step, i) => {
+            group[step] = color(`oklch(${steps[i]})`, { cssVar: `--ids-color-${family}-${step}` });
+        });
+
+        out[family] = group;
+    }
+
+    return out;
+}
+
+function buildSizeScale(): DesignTokenGroup {
+    const out: DesignTokenGroup = {};
+
+    for (const [step, { h, px, fs, lh, gap }] of Object.entries(SIZE_SCALE)) {
+        const dimension = (value: string, key: string): DesignToken => ({
+            type: "dimension",
+            value,
+            cssVar: `--ids-size-${step}-${key}`,
+        });
+
+        out[step] = {
+            height: dimension(h, "h"),
+            paddingX: dimension(px, "px"),
+            fontSize: dimension(fs, "fs"),
+            lineHeight: dimension(lh, "lh"),
+            gap: dimension(gap, "gap"),
+        };
+    }
+
+    return out;
+}
+
+function buildElevationScale(): DesignTokenGroup {
+    const shadow: DesignTokenGroup = {};
+    const tint: DesignTokenGroup = {};
+
+    for (const [mode, steps] of Object.entries(ELEVATION_SCALE)) {
+        const shadows: DesignTokenGroup = {};
+        const tints: DesignTokenGroup = {};
+
+        steps.forEach((step, i) => {
+            const level = i + 1;
+            shadows[level] = {
+                type: "shadow",
+                value: step.shadow,
+                cssVar: `--ids-elevation-shadow-${mode}-${level}`,
+            };
+            tints[level] = {
+                type: "number",
+                value: step.tint,
+                cssVar: `--ids-elevation-tint-${mode}-${level}`,
+            };
+        });
+
+        shadow[mode] = shadows;
+        tint[mode] = tints;
+    }
+
+    return { shadow, tint };
+}
+
+function buildTones(): DesignTokenGroup {
+    const out: DesignTokenGroup = {};
+    for (const [tone, value] of Object.entries(TONE_HEX)) out[tone] = color(value);
+    return out;
+}
+
+/* ============================================================================
+   📦 Tokens
+============================================================================ */
+
+/**
+ * Every design token of the system, grouped like the DTCG export.
+ * Paths ("color.intent.informed") are used for aliases and lookups.
+ */
+export const DESIGN_TOKENS = {
+    color: {
+        paper: channels("#ffffff", "--ids-paper", { description: "Paper (light surfaces)" }),
+        ink: channels("#111827", "--ids-ink", {
+            description: "Ink (dark surfaces, toned text), slate-900-ish",
+        }),
+
+        // intent colors are the matching tone (one value for tokens.css and TONE_TO_RGB)
+        intent: {
+            informed: channels("{color.tone.blue}", "--ids-informed", { description: "blue-500" }),
+            empowered: channels("{color.tone.emerald}", "--ids-empowered", {
+                description: "emerald-500",
+            }),
+            warned: channels("{color.tone.amber}", "--ids-warned", { description: "amber-500" }),
+            threatened: channels("{color.tone.rose}", "--ids-threatened", {
+                description: "rose-500",
+            }),
+            themed: channels("{color.tone.purple}", "--ids-themed", {
+                description: "purple-500",
+            }),
+        },
+
+        theme: channels("#a767a2", "--ids-color-theme", {
+            description: "Default theme color (DEFAULT_THEME_COLOR / themeColor)",
+        }),
+
+        glow: {
+            info: channels("{color.intent.informed}", "--ids-color-inform"),
+            empower: channels("{color.intent.empowered}", "--ids-color-empower", {
+                deprecatedCssVars: ["--ids-empower-color"],
+            }),
+            warn: channels("{color.intent.warned}", "--ids-color-warn", {
+                deprecatedCssVars: ["--ids-warn-color"],
+            }),
+            threat: channels("{color.intent.threatened}", "--ids-color-threat"),
+        },
+
+        tone: buildTones(),
+        palette: buildPalette(),
+
+        black: color("#000", { cssVar: "--ids-color-black" }),
+        white: color("#fff", { cssVar: "--ids-color-white" }),
+    },
+
+    divider: {
+        color: channels("#000000", "--ids-divider-color", {
+            description: "Fallback when --intent-border is missing",
+        }),
+        opacity: {
+            default: { type: "number", value: 0.55, cssVar: "--ids-divider-opacity" },
+            disabled: { type: "number", value: 0.35, cssVar: "--ids-divider-opacity-disabled" },
+        },
+        thickness: {
+            hairline: {
+                type: "dimension",
+                value: "1px",
+                cssVar: "--ids-divider-thickness-hairline",
+            },
+            thin: { type: "dimension", value: "2px", cssVar: "--ids-divider-thickness-thin" },
+            medium: { type: "dimension", value: "3px", cssVar: "--ids-divider-thickness-medium" },
+        },
+        gap: {
+            xs: { type: "dimension", value: "0.5rem", cssVar: "--ids-divider-gap-xs" },
+            sm: { type: "dimension", value: "0.75rem", cssVar: "--ids-divider-gap-sm" },
+            md: { type: "dimension", value: "1rem", cssVar: "--ids-divider-gap-md" },
+        },
+        labelPaddingX: {
+            type: "dimension",
+            value: "0.5rem",
+            cssVar: "--ids-divider-label-padding-x",
+        },
+    },
+
+    size: buildSizeScale(),
+
+    elevation: buildElevationScale(),
+
+    glass: {
+        blur: { type: "dimension", value: "16px", cssVar: "--ids-glass-blur" },
+        saturate: { type: "number", value: 1.4, cssVar: "--ids-glass-saturate" },
+    },
+
+    motion: {
+        duration: {
+            fast: duration("150ms", "--ids-motion-duration-fast"),
+            normal: duration("300ms", "--ids-motion-duration-normal"),
+            slow: duration("600ms", "--ids-motion-duration-slow"),
+            pulse: duration("2400ms", "--ids-motion-duration-pulse", 'glowMotion="pulse" cycle'),
+            shimmer: duration(
+                "3200ms",
+                "--ids-motion-duration-shimmer",
+                'glowMotion="shimmer" cycle'
+            ),
+            breathe: duration(
+                "5200ms",
+                "--ids-motion-duration-breathe",
+                'glowMotion="breathe" cycle'
+            ),
+        },
+        easing: {
+            standard: easing("cubic-bezier(0.4, 0, 0.2, 1)", "--ids-motion-easing-standard"),
+            inOut: easing("cubic-bezier(0.45, 0, 0.55, 1)", "--ids-motion-easing-in-out"),
+            linear: easing("cubic-bezier(0, 0, 1, 1)", "--ids-motion-easing-linear"),
+        },
+    },
+
+    radius: {
+        lg: { type: "dimension", value: "1rem" },
+        xl: { type: "dimension", value: "1.25rem" },
+        "2xl": { type: "dimension", value: "1.5rem" },
+    },
+
+    shadow: {
+        soft: { type: "shadow", value: "0 10px 30px rgb(0 0 0 / 0.08)" },
+    },
+} satisfies DesignTokenGroup;
+
+/* ============================================================================
+   🔎 Lookups
+============================================================================ */
+
+export function isDesignToken(node: unknown): node is DesignToken {
+    return (
+        typeof node === "object" &&
+        node !== null &&
+        typeof (node as DesignToken).type === "string" &&
+        (typeof (node as DesignToken).value === "string" ||
+            typeof (node as DesignToken).value === "number")
+    );
+}
+
+/** Depth-first list of tokens with their dotted path (declaration order). */
+export function flattenDesignTokens(
+    group: DesignTokenGroup = DESIGN_TOKENS
+): Array<{ path: string; token: DesignToken }> {
+    const out: Array<{ path: string; token: DesignToken }> = [];
+
+    const walk = (node: DesignTokenGroup, prefix: string) => {
+        for (const [name, child] of Object.entries(node)) {
+            const path = prefix ? `${prefix}.${name}` : name;
+            if (isDesignToken(child)) out.push({ path, token: child });
+            else walk(child, path);
+        }
+    };
+
+    walk(group, "");
+    return out;
+}
+
+/** Token at a dotted path ("color.intent.informed"), or null. */
+export function getDesignToken(
+    path: string,
+    group: DesignTokenGroup = DESIGN_TOKENS
+): DesignToken | null {
+    let node: DesignToken | DesignTokenGroup | undefined = group;
+
+    for (const part of path.split(".")) {
+        if (!node || isDesignToken(node)) return null;
+        node = Object.prototype.hasOwnProperty.call(node, part) ? node[part] : undefined;
+    }
+
+    return node && isDesignToken(node) ? node : null;
+}
+
+const ALIAS_RE = /^\{([^{}]+)\}$/;
+const MAX_ALIAS_DEPTH = 16;
+
+/**
+ * Value of a token path with aliases ("{color.intent.themed}") followed.
+ * Throws on unknown paths and alias cycles.
+ */
+export function resolveDesignTokenValue(
+    path: string,
+    group: DesignTokenGroup = DESIGN_TOKENS
+): string | number {
+    let current = path;
+
+    for (let i = 0; i < MAX_ALIAS_DEPTH; i++) {
+        const token = getDesignToken(current, group);
+        if (!token) {
+            throw new Error(`[intent-design-system] Unknown design token "${current}".`);
+        }
+
+        const alias = typeof token.value === "string" ? token.value.match(ALIAS_RE) : null;
+        if (!alias?.[1]) return token.value;
+
+        current = alias[1];
+    }
+
+    throw new Error(`[intent-design-system] Design token alias cycle at "${path}".`);
+}
+
+/** Color token as an "R G B" triplet (the `channels` CSS format), aliases followed. */
+export function getDesignTokenChannels(path: string, group: DesignTokenGroup = DESIGN_TOKENS) {
+    const rgba = cssColorToRgba(String(resolveDesignTokenValue(path, group)));
+    if (!rgba) {
+        throw new Error(`[intent-design-system] Design token "${path}" is not an sRGB color.`);
+    }
+
+    return `${rgba.r} ${rgba.g} ${rgba.b}`;
+}
@@ -2,9 +2,31 @@
 // Tailwind preset for Intent Design System (hybrid mode).
 // - Provides tokens via CSS variables (optional via styles/tokens.css)
 // - Extends theme with semantic colors mapped to CSS vars
+// - Radii / shadows / elevation levels come from the token model (src/lib/tokens/model.ts)
+// - intentPlugin: intent utility classes (intent-warned, intent-variant-outlined…)
 // - Designed to avoid safelist by relying on CSS variables
 
 import type { Config } from "tailwindcss";
+import plugin, { type PluginsConfig } from "tailwindcss/plugin";
+
+import { DESIGN_TOKENS } from "../src/lib/tokens/model";
+import { ELEVATIONS, ELEVATION_TO_SURFACE } from "../src/lib/intent/mapping";
+import { generateIntentUtilities, type IntentUtilityOptions } from "../src/lib/intent/static";
+
+const { radius, shadow } = DESIGN_TOKENS;
+
+/**
+ * Intent utilities: the vars resolveIntent() computes, as classes
+ * (options: same subset controls as generateIntentStylesheet()).
+ *
+ * @example
+ * // tailwind.config.ts
+ * plugins: [intentPlugin({ intents: ["warned", "threatened"], glows: false })]
+ */
+export const intentPlugin: ReturnType<typeof plugin.withOptions<IntentUtilityOptions>> =
+    plugin.withOptions<IntentUtilityOptions>((options) => ({ addUtilities }) => {
+        addUtilities(generateIntentUtilities(options ?? {}));
+    });
 
 export const intentPreset = {
     theme: {
@@ -37,9 +59,9 @@ export const intentPreset = {
             ----------------------------------------------------------------- */
 
             borderRadius: {
-                "ids-lg": "1rem",
-                "ids-xl": "1.25rem",
-                "ids-2xl": "1.5rem",
+                "ids-lg": radius.lg.value,
+                "ids-xl": radius.xl.value,
+                "ids-2xl": radius["2xl"].value,
             },
 
             /* -----------------------------------------------------------------
@@ -47,8 +69,16 @@ export const intentPreset = {
             ----------------------------------------------------------------- */
 
             boxShadow: {
-                "ids-soft": "0 10px 30px rgb(0 0 0 / 0.08)",
+                "ids-soft": shadow.soft.value,
+                // light-mode elevation levels (shadow-ids-elevation-1 … 5)
+                ...Object.fromEntries(
+                    ELEVATIONS.filter((level) => level > 0).map((level) => [
+                        `ids-elevation-${level}`,
+                        ELEVATION_TO_SURFACE.light[level].shadow,
+                    ])
+                ),
             },
         },
     },
+    plugins: [intentPlugin()] as PluginsConfig[],
 } satisfies Config;
@@ -11,4 +11,7 @@ export default defineConfig({
     clean: true,
     outDir: "dist",
     treeshake: true,
+    onSuccess: "node scripts/build-static-css.mjs",
+    // Written by onSuccess: watching it (`npm run dev`) would rebuild forever
+    ignoreWatch: ["styles/static.css"],
 });
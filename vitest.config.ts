@@ -0,0 +1,13 @@
+// vitest.config.ts
+// CSS stays stubbed except the files read as ?raw by the tests: tokens.css / 05-size.css (token
+// consistency), IntentToast.css / IntentDivider.css (rtl placements)
+
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        css: {
+            include: [/tokens\.css/, /05-size\.css/, /IntentToast\.css/, /IntentDivider\.css/],
+        },
+    },
+});